@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { OUTBOX_STORE, deliverOutbox } from "@/lib/alertOutbox";
+import { readStore } from "@/lib/store";
+import type { OutboxMessage } from "@/types";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  const messages = await readStore<OutboxMessage[]>(OUTBOX_STORE, []);
+  return NextResponse.json({ messages });
+}
+
+/** Retries delivery of every queued or failed message, however often tried. */
+export async function POST() {
+  const messages = await deliverOutbox(true);
+  return NextResponse.json({ messages });
+}
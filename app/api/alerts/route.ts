@@ -0,0 +1,212 @@
+import { randomUUID } from "crypto";
+import { NextResponse } from "next/server";
+import {
+  OUTBOX_STORE,
+  buildNotifications,
+  deliverOutbox,
+} from "@/lib/alertOutbox";
+import { readStore, updateStore } from "@/lib/store";
+import type { Alert, AlertRule, FiredAlert, OutboxMessage } from "@/types";
+
+export const dynamic = "force-dynamic";
+
+const STORE_NAME = "alerts";
+const RULES_STORE = "alert-rules";
+
+const MAX_RESOLVED_KEPT = 500;
+const MAX_SNOOZE_HOURS = 24 * 30;
+/**
+ * A finding that comes back this soon after its alert resolved reopens that
+ * alert without notifying again, e.g. when two tabs with out-of-step data
+ * take turns reporting.
+ */
+const REOPEN_WITHIN_MS = 6 * 60 * 60 * 1000;
+
+const text = (value: unknown) =>
+  typeof value === "string" ? value.trim() : "";
+
+const userOf = (value: unknown) => text(value) || "anonymous";
+
+const alertKey = (alert: FiredAlert) => `${alert.ruleId}|${alert.subject}`;
+
+const parseFired = (value: unknown): FiredAlert | null => {
+  const input = (value ?? {}) as Record<string, unknown>;
+  const ruleId = text(input.ruleId);
+  const subject = text(input.subject);
+  const message = text(input.message);
+  return ruleId && subject && message ? { ruleId, subject, message } : null;
+};
+
+// Open alerts are always kept; resolved ones only as recent history.
+const prune = (alerts: Alert[]) => {
+  const resolved = alerts.filter((alert) => alert.resolvedAt);
+  const dropped = new Set(
+    resolved.slice(0, Math.max(resolved.length - MAX_RESOLVED_KEPT, 0))
+  );
+  return alerts.filter((alert) => !dropped.has(alert));
+};
+
+export async function GET() {
+  const alerts = await readStore<Alert[]>(STORE_NAME, []);
+  return NextResponse.json({ alerts });
+}
+
+/**
+ * Takes what the rules currently find in a dataset. New findings become
+ * alerts and are queued for notification, unless they reopen an alert that
+ * resolved less than REOPEN_WITHIN_MS ago; open alerts of the dataset that
+ * are no longer found are resolved.
+ */
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  const dataset = text(body?.dataset);
+  if (!dataset || !Array.isArray(body?.fired)) {
+    return NextResponse.json(
+      {
+        error:
+          "Expected { dataset: string, fired: Array<{ ruleId: string, subject: string, message: string }> }",
+      },
+      { status: 400 }
+    );
+  }
+  const fired: FiredAlert[] = [];
+  for (const value of body.fired as unknown[]) {
+    const parsed = parseFired(value);
+    if (!parsed) {
+      return NextResponse.json(
+        { error: "Every fired alert needs a ruleId, subject and message" },
+        { status: 400 }
+      );
+    }
+    fired.push(parsed);
+  }
+
+  const rules = new Map(
+    (await readStore<AlertRule[]>(RULES_STORE, [])).map((rule) => [
+      rule.id,
+      rule,
+    ])
+  );
+  // Findings of rules deleted since the client loaded them are ignored.
+  const firedByKey = new Map(
+    fired
+      .filter((alert) => rules.has(alert.ruleId))
+      .map((alert) => [alertKey(alert), alert])
+  );
+  const now = new Date().toISOString();
+  const created: Alert[] = [];
+
+  const alerts = await updateStore<Alert[]>(STORE_NAME, [], (current) => {
+    const seen = new Set<string>();
+    const next = current.map((alert) => {
+      if (alert.dataset !== dataset || alert.resolvedAt) return alert;
+      const match = firedByKey.get(alertKey(alert));
+      if (!match) return { ...alert, resolvedAt: now };
+      seen.add(alertKey(alert));
+      return { ...alert, message: match.message, lastSeenAt: now };
+    });
+    const reopenAfter = Date.parse(now) - REOPEN_WITHIN_MS;
+    firedByKey.forEach((match, key) => {
+      if (seen.has(key)) return;
+      let recent = -1;
+      next.forEach((alert, index) => {
+        if (
+          alert.dataset !== dataset ||
+          alertKey(alert) !== key ||
+          !alert.resolvedAt ||
+          Date.parse(alert.resolvedAt) < reopenAfter
+        ) {
+          return;
+        }
+        if (recent < 0 || (next[recent].resolvedAt ?? "") < alert.resolvedAt) {
+          recent = index;
+        }
+      });
+      if (recent >= 0) {
+        next[recent] = {
+          ...next[recent],
+          message: match.message,
+          lastSeenAt: now,
+          resolvedAt: undefined,
+        };
+        return;
+      }
+      const alert: Alert = {
+        id: randomUUID(),
+        ...match,
+        ruleName: rules.get(match.ruleId)?.name ?? match.ruleId,
+        dataset,
+        firstSeenAt: now,
+        lastSeenAt: now,
+      };
+      created.push(alert);
+      next.push(alert);
+    });
+    return prune(next);
+  });
+
+  const notifications = created.flatMap((alert) => {
+    const rule = rules.get(alert.ruleId);
+    return rule ? buildNotifications(alert, rule) : [];
+  });
+  if (notifications.length) {
+    await updateStore<OutboxMessage[]>(OUTBOX_STORE, [], (current) => [
+      ...current,
+      ...notifications,
+    ]);
+    // Delivery retries slow endpoints, so the response does not wait for it;
+    // failures stay in the outbox for the next run.
+    deliverOutbox().catch(() => undefined);
+  }
+  return NextResponse.json({ created, alerts });
+}
+
+/** Acknowledges an alert, or snoozes it for `hours`. */
+export async function PATCH(request: Request) {
+  const body = await request.json().catch(() => null);
+  const id = text(body?.id);
+  const action = body?.action;
+  const hours = body?.hours;
+  if (
+    !id ||
+    (action !== "acknowledge" && action !== "snooze") ||
+    (action === "snooze" &&
+      (typeof hours !== "number" || hours <= 0 || hours > MAX_SNOOZE_HOURS))
+  ) {
+    return NextResponse.json(
+      {
+        error: `Expected { id: string, action: "acknowledge" } or { id: string, action: "snooze", hours: number (at most ${MAX_SNOOZE_HOURS}) }`,
+      },
+      { status: 400 }
+    );
+  }
+
+  const existing = await readStore<Alert[]>(STORE_NAME, []);
+  if (!existing.some((alert) => alert.id === id)) {
+    return NextResponse.json(
+      { error: `Alert ${id} not found` },
+      { status: 404 }
+    );
+  }
+
+  const user = userOf(body.user);
+  const now = new Date();
+  const alerts = await updateStore<Alert[]>(STORE_NAME, [], (current) =>
+    current.map((alert) => {
+      if (alert.id !== id) return alert;
+      return action === "acknowledge"
+        ? {
+            ...alert,
+            acknowledgedBy: user,
+            acknowledgedAt: now.toISOString(),
+          }
+        : {
+            ...alert,
+            snoozedUntil: new Date(
+              now.getTime() + hours * 60 * 60 * 1000
+            ).toISOString(),
+          };
+    })
+  );
+  return NextResponse.json({ alerts });
+}
@@ -0,0 +1,141 @@
+import { randomUUID } from "crypto";
+import { NextResponse } from "next/server";
+import { readStore, updateStore } from "@/lib/store";
+import type { AlertRule, AlertRuleKind } from "@/types";
+
+export const dynamic = "force-dynamic";
+
+const STORE_NAME = "alert-rules";
+
+const KINDS: AlertRuleKind[] = [
+  "unallocated_arrivals",
+  "arrival_unconfirmed",
+  "weight_variance",
+];
+
+const EMAIL = /^[^\s@]+@[^\s@]+$/;
+
+const userOf = (value: unknown) =>
+  typeof value === "string" && value.trim() ? value.trim() : "anonymous";
+
+const text = (value: unknown) =>
+  typeof value === "string" ? value.trim() : "";
+
+const isThreshold = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+const isHttpUrl = (value: string) => {
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+// Keeps only the thresholds the rule's kind uses.
+const parseThresholds = (
+  kind: AlertRuleKind,
+  input: Record<string, unknown>,
+  name: string
+): Partial<AlertRule> | string => {
+  switch (kind) {
+    case "unallocated_arrivals":
+      if (!isThreshold(input.withinDays) || !isThreshold(input.minKg)) {
+        return `${name} needs non-negative withinDays and minKg`;
+      }
+      return {
+        ...(text(input.port) ? { port: text(input.port) } : {}),
+        withinDays: input.withinDays,
+        minKg: input.minKg,
+      };
+    case "arrival_unconfirmed":
+      if (!isThreshold(input.graceDays)) {
+        return `${name} needs a non-negative graceDays`;
+      }
+      return { graceDays: input.graceDays };
+    case "weight_variance":
+      if (!isThreshold(input.minPct)) {
+        return `${name} needs a non-negative minPct`;
+      }
+      return { minPct: input.minPct };
+  }
+};
+
+const parseRule = (value: unknown): AlertRule | string => {
+  const input = (value ?? {}) as Record<string, unknown>;
+  const name = text(input.name);
+  const kind = input.kind as AlertRuleKind;
+  if (!name) return "every rule needs a name";
+  if (!KINDS.includes(kind)) {
+    return `kind of ${name} must be one of ${KINDS.join(", ")}`;
+  }
+  const thresholds = parseThresholds(kind, input, name);
+  if (typeof thresholds === "string") return thresholds;
+
+  const webhookUrl = text(input.webhookUrl);
+  if (webhookUrl && !isHttpUrl(webhookUrl)) {
+    return `webhookUrl of ${name} must be an http(s) URL`;
+  }
+  const emails = Array.isArray(input.emails)
+    ? input.emails.map(text).filter(Boolean)
+    : [];
+  const invalidEmail = emails.find((email) => !EMAIL.test(email));
+  if (invalidEmail) return `${invalidEmail} is not an email address`;
+
+  return {
+    id: text(input.id) || randomUUID(),
+    name,
+    kind,
+    enabled: input.enabled !== false,
+    ...thresholds,
+    ...(webhookUrl ? { webhookUrl } : {}),
+    ...(emails.length ? { emails } : {}),
+  };
+};
+
+export async function GET() {
+  const rules = await readStore<AlertRule[]>(STORE_NAME, []);
+  return NextResponse.json({ rules });
+}
+
+// Rule content without who changed it, to tell edited rules from kept ones.
+const contentOf = ({ updatedBy, updatedAt, ...rule }: AlertRule) =>
+  JSON.stringify(rule);
+
+/**
+ * Replaces the rule set; rules keep their id so their alerts stay linked.
+ * New and edited rules are stamped with the user, unchanged ones keep theirs.
+ */
+export async function PUT(request: Request) {
+  const body = await request.json().catch(() => null);
+  if (!Array.isArray(body?.rules)) {
+    return NextResponse.json(
+      {
+        error:
+          "Expected { rules: Array<{ name: string, kind: AlertRuleKind, enabled?: boolean, ...thresholds, webhookUrl?: string, emails?: string[] }>, user?: string }",
+      },
+      { status: 400 }
+    );
+  }
+
+  const rules: AlertRule[] = [];
+  for (const value of body.rules as unknown[]) {
+    const parsed = parseRule(value);
+    if (typeof parsed === "string") {
+      return NextResponse.json({ error: parsed }, { status: 400 });
+    }
+    rules.push(parsed);
+  }
+  const user = userOf(body.user);
+  const now = new Date().toISOString();
+  const saved = await updateStore<AlertRule[]>(STORE_NAME, [], (current) => {
+    const previous = new Map(current.map((rule) => [rule.id, rule]));
+    return rules.map((rule) => {
+      const match = previous.get(rule.id);
+      return match && contentOf(match) === contentOf(rule)
+        ? match
+        : { ...rule, updatedBy: user, updatedAt: now };
+    });
+  });
+  return NextResponse.json({ rules: saved });
+}
@@ -0,0 +1,280 @@
+import { randomUUID } from "crypto";
+import { NextResponse } from "next/server";
+import { addsAllocatedBoxes } from "@/lib/allocations";
+import { isAllocationBlocked, latestInspectionByLine } from "@/lib/inspections";
+import { readStore, updateStore } from "@/lib/store";
+import type {
+  Allocation,
+  AllocationInput,
+  Inspection,
+  LineAllocationMap,
+  LineAllocationRecord,
+  LineAllocationUpdate,
+} from "@/types";
+
+export const dynamic = "force-dynamic";
+
+const STORE_NAME = "allocations";
+const INSPECTIONS_STORE = "inspections";
+
+const parseAllocation = (value: unknown): AllocationInput | string => {
+  if (!value || typeof value !== "object")
+    return "allocation must be an object";
+  const input = value as Record<string, unknown>;
+  const customer =
+    typeof input.customer === "string" ? input.customer.trim() : "";
+  if (!customer) return "customer is required";
+  if (
+    typeof input.boxes !== "number" ||
+    !Number.isInteger(input.boxes) ||
+    input.boxes <= 0
+  ) {
+    return `boxes for ${customer} must be a positive integer`;
+  }
+  if (
+    input.price_per_box !== undefined &&
+    input.price_per_box !== null &&
+    (typeof input.price_per_box !== "number" || input.price_per_box < 0)
+  ) {
+    return `price_per_box for ${customer} must be a non-negative number`;
+  }
+  return {
+    id: typeof input.id === "string" ? input.id : undefined,
+    customer,
+    boxes: input.boxes,
+    price_per_box:
+      typeof input.price_per_box === "number" ? input.price_per_box : undefined,
+    note:
+      typeof input.note === "string" && input.note.trim()
+        ? input.note.trim()
+        : undefined,
+  };
+};
+
+const parseAllocations = (values: unknown[]): AllocationInput[] | string => {
+  const inputs: AllocationInput[] = [];
+  for (const value of values) {
+    const parsed = parseAllocation(value);
+    if (typeof parsed === "string") return parsed;
+    inputs.push(parsed);
+  }
+  return inputs;
+};
+
+const userOf = (value: unknown) =>
+  typeof value === "string" && value.trim() ? value.trim() : "anonymous";
+
+/**
+ * The first update that adds boxes to a line on QC hold or rejected, as an
+ * error message. Removing or shrinking allocations on such lines is allowed.
+ * Called from inside the allocations updater so `current` is what gets
+ * written over.
+ */
+const findQcBlock = async (
+  current: LineAllocationMap,
+  updates: LineAllocationUpdate[]
+) => {
+  const latest = latestInspectionByLine(
+    await readStore<Inspection[]>(INSPECTIONS_STORE, [])
+  );
+  for (const update of updates) {
+    const inspection = latest.get(update.key);
+    if (
+      inspection &&
+      isAllocationBlocked(inspection.decision) &&
+      addsAllocatedBoxes(current[update.key], update.allocations)
+    ) {
+      return `Line ${update.key} is ${
+        inspection.decision === "hold" ? "on QC hold" : "rejected at QC"
+      } and cannot take new allocations`;
+    }
+  }
+  return null;
+};
+
+// Allocations that keep their id keep who created them and when.
+const buildRecord = (
+  previous: LineAllocationRecord | undefined,
+  inputs: AllocationInput[],
+  user: string,
+  now: string
+): LineAllocationRecord => {
+  const existing = new Map(
+    (previous?.allocations ?? []).map((item) => [item.id, item])
+  );
+  const allocations: Allocation[] = inputs.map((input) => {
+    const match = input.id ? existing.get(input.id) : undefined;
+    return {
+      ...input,
+      id: match?.id ?? randomUUID(),
+      createdBy: match?.createdBy ?? user,
+      createdAt: match?.createdAt ?? now,
+    };
+  });
+  return { allocations, updatedBy: user, updatedAt: now };
+};
+
+export async function GET() {
+  const allocations = await readStore<LineAllocationMap>(STORE_NAME, {});
+  return NextResponse.json({ allocations });
+}
+
+export async function PUT(request: Request) {
+  const body = await request.json().catch(() => null);
+  const key = typeof body?.key === "string" ? body.key.trim() : "";
+  if (!key || !Array.isArray(body?.allocations)) {
+    return NextResponse.json(
+      {
+        error:
+          "Expected { key: string, allocations: AllocationInput[], boxCount: number, expectedUpdatedAt?: string | null, user?: string }",
+      },
+      { status: 400 }
+    );
+  }
+
+  const inputs = parseAllocations(body.allocations as unknown[]);
+  if (typeof inputs === "string") {
+    return NextResponse.json({ error: inputs }, { status: 400 });
+  }
+  const boxCount = body.boxCount;
+  if (
+    typeof boxCount !== "number" ||
+    !Number.isInteger(boxCount) ||
+    boxCount < 0
+  ) {
+    return NextResponse.json(
+      { error: "boxCount must be a non-negative integer" },
+      { status: 400 }
+    );
+  }
+  const allocatedBoxes = inputs.reduce((sum, input) => sum + input.boxes, 0);
+  if (allocatedBoxes > boxCount) {
+    return NextResponse.json(
+      {
+        error: `Allocated ${allocatedBoxes} boxes but the line only has ${boxCount}`,
+      },
+      { status: 400 }
+    );
+  }
+  const expected = body.expectedUpdatedAt;
+  if (
+    expected !== undefined &&
+    expected !== null &&
+    typeof expected !== "string"
+  ) {
+    return NextResponse.json(
+      { error: "expectedUpdatedAt must be a string or null" },
+      { status: 400 }
+    );
+  }
+
+  const user = userOf(body.user);
+  const now = new Date().toISOString();
+
+  let record: LineAllocationRecord | null = null;
+  let conflict: string | null = null;
+  const allocations = await updateStore<LineAllocationMap>(
+    STORE_NAME,
+    {},
+    async (current) => {
+      if (
+        expected !== undefined &&
+        (current[key]?.updatedAt ?? null) !== expected
+      ) {
+        conflict = `Line ${key} was changed by ${
+          current[key]?.updatedBy ?? "someone"
+        } since it was loaded; nothing was saved`;
+        return current;
+      }
+      conflict = await findQcBlock(current, [{ key, allocations: inputs }]);
+      if (conflict) return current;
+      record = buildRecord(current[key], inputs, user, now);
+      return { ...current, [key]: record };
+    }
+  );
+  if (conflict) {
+    return NextResponse.json({ error: conflict, allocations }, { status: 409 });
+  }
+  return NextResponse.json({ key, record, allocations });
+}
+
+/** Bulk write from the lines table; every update is applied or none is. */
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  if (!Array.isArray(body?.updates) || !body.updates.length) {
+    return NextResponse.json(
+      {
+        error:
+          "Expected { updates: Array<{ key: string, allocations: AllocationInput[], expectedUpdatedAt?: string | null }>, user?: string }",
+      },
+      { status: 400 }
+    );
+  }
+
+  const updates: LineAllocationUpdate[] = [];
+  for (const value of body.updates as unknown[]) {
+    const update = value as Record<string, unknown> | null;
+    const key = typeof update?.key === "string" ? update.key.trim() : "";
+    if (!key || !Array.isArray(update?.allocations)) {
+      return NextResponse.json(
+        { error: "Every update needs a key and an allocations array" },
+        { status: 400 }
+      );
+    }
+    const inputs = parseAllocations(update.allocations);
+    if (typeof inputs === "string") {
+      return NextResponse.json({ error: inputs }, { status: 400 });
+    }
+    const expected = update.expectedUpdatedAt;
+    if (
+      expected !== undefined &&
+      expected !== null &&
+      typeof expected !== "string"
+    ) {
+      return NextResponse.json(
+        { error: "expectedUpdatedAt must be a string or null" },
+        { status: 400 }
+      );
+    }
+    updates.push({ key, allocations: inputs, expectedUpdatedAt: expected });
+  }
+
+  const user = userOf(body.user);
+  const now = new Date().toISOString();
+
+  let conflict: string | null = null;
+  const allocations = await updateStore<LineAllocationMap>(
+    STORE_NAME,
+    {},
+    async (current) => {
+      const stale = updates.find(
+        (update) =>
+          update.expectedUpdatedAt !== undefined &&
+          (current[update.key]?.updatedAt ?? null) !== update.expectedUpdatedAt
+      );
+      if (stale) {
+        const record = current[stale.key];
+        conflict = `Line ${stale.key} was changed by ${
+          record?.updatedBy ?? "someone"
+        } since it was loaded; nothing was saved`;
+        return current;
+      }
+      conflict = await findQcBlock(current, updates);
+      if (conflict) return current;
+      const next = { ...current };
+      updates.forEach((update) => {
+        next[update.key] = buildRecord(
+          current[update.key],
+          update.allocations,
+          user,
+          now
+        );
+      });
+      return next;
+    }
+  );
+  if (conflict) {
+    return NextResponse.json({ error: conflict, allocations }, { status: 409 });
+  }
+  return NextResponse.json({ allocations });
+}
@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server";
+import { normalizeRawValue } from "@/lib/codes";
+import { readStore, updateStore } from "@/lib/store";
+import type { CodeMappings } from "@/types";
+
+export const dynamic = "force-dynamic";
+
+const STORE_NAME = "code-mappings";
+
+const EMPTY: CodeMappings = { caliber: {}, pack_format: {} };
+
+/**
+ * Trader names allowed to edit the tables, comma separated. When unset every
+ * trader is treated as an admin, which suits a single-desk setup.
+ */
+const getAdmins = () =>
+  (process.env.COCKPIT_ADMINS ?? "")
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+
+const canEdit = (user: string) => {
+  const admins = getAdmins();
+  return !admins.length || admins.includes(user.toLowerCase());
+};
+
+const userOf = (value: unknown) =>
+  typeof value === "string" && value.trim() ? value.trim() : "anonymous";
+
+const parseTable = (value: unknown): Record<string, string> | null => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  const table: Record<string, string> = {};
+  for (const [raw, code] of Object.entries(value)) {
+    if (typeof code !== "string") return null;
+    const key = normalizeRawValue(raw);
+    if (key && code.trim()) table[key] = code.trim();
+  }
+  return table;
+};
+
+export async function GET(request: Request) {
+  const user = userOf(new URL(request.url).searchParams.get("user"));
+  const mappings = await readStore<CodeMappings>(STORE_NAME, EMPTY);
+  return NextResponse.json({ mappings, canEdit: canEdit(user) });
+}
+
+export async function PUT(request: Request) {
+  const body = await request.json().catch(() => null);
+  const caliber = parseTable(body?.caliber);
+  const packFormat = parseTable(body?.pack_format);
+  if (!caliber || !packFormat) {
+    return NextResponse.json(
+      {
+        error:
+          "Expected { caliber: Record<string, string>, pack_format: Record<string, string>, user?: string }",
+      },
+      { status: 400 }
+    );
+  }
+
+  const user = userOf(body.user);
+  if (!canEdit(user)) {
+    return NextResponse.json(
+      { error: `${user} is not allowed to edit code mappings` },
+      { status: 403 }
+    );
+  }
+
+  const mappings = await updateStore<CodeMappings>(STORE_NAME, EMPTY, () => ({
+    caliber,
+    pack_format: packFormat,
+    updatedBy: user,
+    updatedAt: new Date().toISOString(),
+  }));
+  return NextResponse.json({ mappings });
+}
@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+import { readStore, updateStore } from "@/lib/store";
+import type { ColumnLayout } from "@/types";
+
+export const dynamic = "force-dynamic";
+
+const STORE_NAME = "column-layouts";
+
+type StoredLayout = ColumnLayout & { updatedAt: string };
+
+type LayoutStore = Record<string, StoredLayout>;
+
+const userOf = (value: unknown) =>
+  typeof value === "string" && value.trim() ? value.trim() : "anonymous";
+
+const userKey = (user: string) => user.toLowerCase();
+
+export async function GET(request: Request) {
+  const user = userOf(new URL(request.url).searchParams.get("user"));
+  const store = await readStore<LayoutStore>(STORE_NAME, {});
+  const stored = store[userKey(user)];
+  return NextResponse.json({
+    layout: stored ? { columns: stored.columns, widths: stored.widths } : null,
+  });
+}
+
+export async function PUT(request: Request) {
+  const body = await request.json().catch(() => null);
+  const columns = body?.columns;
+  const widths = body?.widths ?? {};
+  if (
+    !Array.isArray(columns) ||
+    !columns.every((column) => typeof column === "string") ||
+    typeof widths !== "object" ||
+    Array.isArray(widths) ||
+    !Object.values(widths).every(
+      (width) => typeof width === "number" && width > 0
+    )
+  ) {
+    return NextResponse.json(
+      {
+        error:
+          "Expected { columns: string[], widths?: Record<string, number>, user?: string }",
+      },
+      { status: 400 }
+    );
+  }
+
+  const layout: StoredLayout = {
+    columns,
+    widths,
+    updatedAt: new Date().toISOString(),
+  };
+  await updateStore<LayoutStore>(STORE_NAME, {}, (current) => ({
+    ...current,
+    [userKey(userOf(body.user))]: layout,
+  }));
+  return NextResponse.json({ layout });
+}
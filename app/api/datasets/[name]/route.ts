@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { validatePalletDataset } from "@/lib/dataset";
+import { readDatasetFile } from "@/lib/datasetFiles";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  _request: Request,
+  { params }: { params: { name: string } }
+) {
+  let payload: unknown;
+  try {
+    payload = await readDatasetFile(params.name);
+  } catch (error) {
+    if (!(error instanceof SyntaxError)) throw error;
+    return NextResponse.json(
+      { error: `Dataset ${params.name} is not valid JSON` },
+      { status: 422 }
+    );
+  }
+  if (payload === null) {
+    return NextResponse.json(
+      { error: `Dataset ${params.name} not found` },
+      { status: 404 }
+    );
+  }
+  const { items, rejected } = validatePalletDataset(payload);
+  return NextResponse.json({
+    name: params.name,
+    palletitems: items,
+    rejected,
+  });
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { validatePalletDataset } from "@/lib/dataset";
+import {
+  datasetExists,
+  isValidDatasetName,
+  listDatasets,
+  writeDatasetFile,
+} from "@/lib/datasetFiles";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  const datasets = await listDatasets();
+  return NextResponse.json({ datasets });
+}
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  const name = typeof body?.name === "string" ? body.name.trim() : "";
+  if (!isValidDatasetName(name)) {
+    return NextResponse.json(
+      { error: "Dataset name may only contain letters, digits, - and _" },
+      { status: 400 }
+    );
+  }
+  if (await datasetExists(name)) {
+    return NextResponse.json(
+      { error: `Dataset ${name} already exists` },
+      { status: 409 }
+    );
+  }
+
+  const { items, rejected } = validatePalletDataset(body);
+  if (!items.length) {
+    return NextResponse.json(
+      { error: "No valid pallet lines to save", rejected },
+      { status: 422 }
+    );
+  }
+  if (!(await writeDatasetFile(name, items))) {
+    return NextResponse.json(
+      { error: `Dataset ${name} already exists` },
+      { status: 409 }
+    );
+  }
+  return NextResponse.json(
+    { name, lines: items.length, rejected },
+    { status: 201 }
+  );
+}
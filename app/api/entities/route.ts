@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { readDatasetFile } from "@/lib/datasetFiles";
+import type { Container, Shipment } from "@/types";
+
+export const dynamic = "force-dynamic";
+
+const readArray = async <T>(name: string, key: string): Promise<T[]> => {
+  // An unreadable entity file leaves its lines unjoined rather than failing.
+  const payload = (await readDatasetFile(name).catch((error) => {
+    if (error instanceof SyntaxError) return null;
+    throw error;
+  })) as Record<string, unknown> | null;
+  const values = payload?.[key];
+  return Array.isArray(values) ? (values as T[]) : [];
+};
+
+/** Shipment and container entity sets that pallet lines are joined against. */
+export async function GET() {
+  const [shipments, containers] = await Promise.all([
+    readArray<Shipment>("shipments", "shipments"),
+    readArray<Container>("containers", "containers"),
+  ]);
+  return NextResponse.json({ shipments, containers });
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { readStore, updateStore } from "@/lib/store";
+import type { ColumnMapping, SupplierMapping } from "@/types";
+
+export const dynamic = "force-dynamic";
+
+const STORE_NAME = "import-mappings";
+
+type SupplierMappingStore = Record<string, SupplierMapping>;
+
+const supplierKey = (supplier: string) => supplier.trim().toLowerCase();
+
+export async function GET() {
+  const store = await readStore<SupplierMappingStore>(STORE_NAME, {});
+  const mappings = Object.values(store).sort((a, b) =>
+    a.supplier.localeCompare(b.supplier)
+  );
+  return NextResponse.json({ mappings });
+}
+
+export async function PUT(request: Request) {
+  const body = await request.json().catch(() => null);
+  const supplier =
+    typeof body?.supplier === "string" ? body.supplier.trim() : "";
+  if (
+    !supplier ||
+    !body?.mapping ||
+    typeof body.mapping !== "object" ||
+    Array.isArray(body.mapping)
+  ) {
+    return NextResponse.json(
+      {
+        error:
+          "Expected { supplier: string, mapping: ColumnMapping, user?: string }",
+      },
+      { status: 400 }
+    );
+  }
+
+  const record: SupplierMapping = {
+    supplier,
+    mapping: body.mapping as ColumnMapping,
+    updatedBy:
+      typeof body.user === "string" && body.user.trim()
+        ? body.user.trim()
+        : "anonymous",
+    updatedAt: new Date().toISOString(),
+  };
+  await updateStore<SupplierMappingStore>(STORE_NAME, {}, (current) => ({
+    ...current,
+    [supplierKey(supplier)]: record,
+  }));
+  return NextResponse.json({ mapping: record });
+}
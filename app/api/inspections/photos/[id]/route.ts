@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { sniffPhotoType } from "@/lib/inspections";
+import { readAttachment, readStore } from "@/lib/store";
+import type { Inspection } from "@/types";
+
+export const dynamic = "force-dynamic";
+
+const STORE_NAME = "inspections";
+const PHOTO_FOLDER = "inspection-photos";
+
+export async function GET(
+  _request: Request,
+  { params }: { params: { id: string } }
+) {
+  const inspections = await readStore<Inspection[]>(STORE_NAME, []);
+  const photo = inspections
+    .flatMap((inspection) => inspection.photos)
+    .find((entry) => entry.id === params.id);
+  const data = photo ? await readAttachment(PHOTO_FOLDER, photo.id) : null;
+  if (!photo || !data) {
+    return NextResponse.json(
+      { error: `Photo ${params.id} not found` },
+      { status: 404 }
+    );
+  }
+  // Typed from the bytes, never from the stored upload type; anything that
+  // is not an allowed raster image is only offered as a download.
+  const bytes = new Uint8Array(data);
+  const type = sniffPhotoType(bytes);
+  return new NextResponse(bytes, {
+    headers: {
+      "Content-Type": type ?? "application/octet-stream",
+      "X-Content-Type-Options": "nosniff",
+      ...(type ? {} : { "Content-Disposition": "attachment" }),
+      "Cache-Control": "private, max-age=31536000, immutable",
+    },
+  });
+}
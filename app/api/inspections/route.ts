@@ -0,0 +1,166 @@
+import { randomUUID } from "crypto";
+import { NextResponse } from "next/server";
+import {
+  MAX_PHOTOS,
+  MAX_PHOTO_BYTES,
+  sniffPhotoType,
+  type PhotoType,
+} from "@/lib/inspections";
+import { readStore, updateStore, writeAttachment } from "@/lib/store";
+import type {
+  Inspection,
+  InspectionInput,
+  InspectionPhoto,
+  InspectionTarget,
+  QcDecision,
+} from "@/types";
+
+export const dynamic = "force-dynamic";
+
+const STORE_NAME = "inspections";
+const PHOTO_FOLDER = "inspection-photos";
+
+const TARGETS: InspectionTarget[] = ["line", "container"];
+const DECISIONS: QcDecision[] = ["pass", "hold", "reject"];
+
+/** Plausible bounds per measurement, to catch typos and swapped fields. */
+const MEASUREMENTS = {
+  brix: [0, 40],
+  firmness: [0, 1000],
+  defectsPct: [0, 100],
+  temperatureC: [-10, 50],
+} as const;
+
+const text = (value: unknown) =>
+  typeof value === "string" ? value.trim() : "";
+
+const userOf = (value: unknown) => text(value) || "anonymous";
+
+const parseInspection = (value: unknown): InspectionInput | string => {
+  const input = (value ?? {}) as Record<string, unknown>;
+  const target = input.target as InspectionTarget;
+  const targetId = text(input.targetId);
+  const decision = input.decision as QcDecision;
+  if (!TARGETS.includes(target)) {
+    return `target must be one of ${TARGETS.join(", ")}`;
+  }
+  if (!targetId) return "targetId is required";
+  if (!DECISIONS.includes(decision)) {
+    return `decision must be one of ${DECISIONS.join(", ")}`;
+  }
+  const lineKeys = Array.isArray(input.lineKeys)
+    ? input.lineKeys.map(text).filter(Boolean)
+    : [];
+  if (!lineKeys.length) return "lineKeys must list the inspected lines";
+
+  const parsed: InspectionInput = {
+    target,
+    targetId,
+    lineKeys,
+    decision,
+    comment: text(input.comment) || undefined,
+  };
+  for (const [field, [min, max]] of Object.entries(MEASUREMENTS)) {
+    const measurement = input[field];
+    if (measurement === undefined || measurement === null) continue;
+    if (
+      typeof measurement !== "number" ||
+      !Number.isFinite(measurement) ||
+      measurement < min ||
+      measurement > max
+    ) {
+      return `${field} must be a number between ${min} and ${max}`;
+    }
+    parsed[field as keyof typeof MEASUREMENTS] = measurement;
+  }
+  return parsed;
+};
+
+export async function GET() {
+  const inspections = await readStore<Inspection[]>(STORE_NAME, []);
+  return NextResponse.json({ inspections });
+}
+
+/**
+ * Records an inspection. Sent as multipart form data: an `inspection` JSON
+ * field, an optional `user` and up to MAX_PHOTOS image files as `photos`.
+ */
+export async function POST(request: Request) {
+  const form = await request.formData().catch(() => null);
+  const raw = form?.get("inspection");
+  let value: unknown = null;
+  try {
+    value = typeof raw === "string" ? JSON.parse(raw) : null;
+  } catch {
+    value = null;
+  }
+  if (!form || !value) {
+    return NextResponse.json(
+      {
+        error:
+          'Expected multipart form data with an inspection JSON field ({ target: "line" | "container", targetId, lineKeys, decision: "pass" | "hold" | "reject", brix?, firmness?, defectsPct?, temperatureC?, comment? }) and optional photos',
+      },
+      { status: 400 }
+    );
+  }
+  const input = parseInspection(value);
+  if (typeof input === "string") {
+    return NextResponse.json({ error: input }, { status: 400 });
+  }
+
+  const files = form
+    .getAll("photos")
+    .filter((entry): entry is File => typeof entry !== "string");
+  if (files.length > MAX_PHOTOS) {
+    return NextResponse.json(
+      { error: `At most ${MAX_PHOTOS} photos per inspection` },
+      { status: 400 }
+    );
+  }
+  const invalidPhoto = (file: File) =>
+    NextResponse.json(
+      {
+        error: `${file.name} must be a JPEG, PNG or WebP image of at most ${
+          MAX_PHOTO_BYTES / 1024 / 1024
+        } MB`,
+      },
+      { status: 400 }
+    );
+  // Sizes are checked before any photo is read into memory.
+  const oversized = files.find((file) => file.size > MAX_PHOTO_BYTES);
+  if (oversized) return invalidPhoto(oversized);
+  // The declared type is chosen by the caller, so the bytes decide.
+  const uploads: Array<{ file: File; data: Uint8Array; type: PhotoType }> = [];
+  for (const file of files) {
+    const data = new Uint8Array(await file.arrayBuffer());
+    const type = sniffPhotoType(data);
+    if (!type) return invalidPhoto(file);
+    uploads.push({ file, data, type });
+  }
+
+  const photos: InspectionPhoto[] = [];
+  for (const { file, data, type } of uploads) {
+    const photo: InspectionPhoto = {
+      id: randomUUID(),
+      fileName: file.name,
+      contentType: type,
+      size: file.size,
+    };
+    await writeAttachment(PHOTO_FOLDER, photo.id, data);
+    photos.push(photo);
+  }
+
+  const created: Inspection = {
+    id: randomUUID(),
+    ...input,
+    photos,
+    inspectedBy: userOf(form.get("user")),
+    inspectedAt: new Date().toISOString(),
+  };
+  const inspections = await updateStore<Inspection[]>(
+    STORE_NAME,
+    [],
+    (current) => [...current, created]
+  );
+  return NextResponse.json({ created, inspections });
+}
@@ -0,0 +1,99 @@
+import { randomUUID } from "crypto";
+import { NextResponse } from "next/server";
+import { readStore, updateStore } from "@/lib/store";
+import type { Note, NoteInput, NoteTarget } from "@/types";
+
+export const dynamic = "force-dynamic";
+
+const STORE_NAME = "notes";
+
+const TARGETS: NoteTarget[] = ["line", "container", "shipment"];
+
+const MAX_BODY_LENGTH = 2000;
+
+const text = (value: unknown) =>
+  typeof value === "string" ? value.trim() : "";
+
+const userOf = (value: unknown) => text(value) || "anonymous";
+
+const parseNote = (value: unknown): NoteInput | string => {
+  const input = (value ?? {}) as Record<string, unknown>;
+  const target = input.target as NoteTarget;
+  const targetId = text(input.targetId);
+  const body = text(input.body);
+  if (!TARGETS.includes(target)) {
+    return `target must be one of ${TARGETS.join(", ")}`;
+  }
+  if (!targetId) return "targetId is required";
+  if (!body) return "body is required";
+  if (body.length > MAX_BODY_LENGTH) {
+    return `body must be at most ${MAX_BODY_LENGTH} characters`;
+  }
+  return {
+    target,
+    targetId,
+    body,
+    parentId: text(input.parentId) || undefined,
+  };
+};
+
+export async function GET() {
+  const notes = await readStore<Note[]>(STORE_NAME, []);
+  return NextResponse.json({ notes });
+}
+
+/** Adds one or more notes, e.g. the same note on every selected line. */
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  if (!Array.isArray(body?.notes) || !body.notes.length) {
+    return NextResponse.json(
+      {
+        error:
+          'Expected { notes: Array<{ target: "line" | "container" | "shipment", targetId: string, body: string, parentId?: string }>, user?: string }',
+      },
+      { status: 400 }
+    );
+  }
+
+  const inputs: NoteInput[] = [];
+  for (const value of body.notes as unknown[]) {
+    const parsed = parseNote(value);
+    if (typeof parsed === "string") {
+      return NextResponse.json({ error: parsed }, { status: 400 });
+    }
+    inputs.push(parsed);
+  }
+
+  const existing = await readStore<Note[]>(STORE_NAME, []);
+  const byId = new Map(existing.map((note) => [note.id, note]));
+  const missing = inputs.find(
+    (input) => input.parentId && !byId.has(input.parentId)
+  );
+  if (missing) {
+    return NextResponse.json(
+      { error: `Note ${missing.parentId} not found` },
+      { status: 404 }
+    );
+  }
+
+  const author = userOf(body.user);
+  const createdAt = new Date().toISOString();
+  // A reply inherits its thread's target and hangs off the thread's root.
+  const created: Note[] = inputs.map((input) => {
+    const parent = input.parentId ? byId.get(input.parentId) : undefined;
+    return {
+      id: randomUUID(),
+      target: parent?.target ?? input.target,
+      targetId: parent?.targetId ?? input.targetId,
+      ...(parent ? { parentId: parent.parentId ?? parent.id } : {}),
+      body: input.body,
+      author,
+      createdAt,
+    };
+  });
+  const notes = await updateStore<Note[]>(STORE_NAME, [], (current) => [
+    ...current,
+    ...created,
+  ]);
+  return NextResponse.json({ created, notes });
+}
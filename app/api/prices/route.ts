@@ -0,0 +1,156 @@
+import { randomUUID } from "crypto";
+import { NextResponse } from "next/server";
+import { readStore, updateStore } from "@/lib/store";
+import type { PriceBook, TargetPrice, UnitPrice } from "@/types";
+
+export const dynamic = "force-dynamic";
+
+const STORE_NAME = "prices";
+
+const EMPTY: PriceBook = {
+  currency: "EUR",
+  shipmentCosts: {},
+  lineCosts: {},
+  targetPrices: [],
+};
+
+const text = (value: unknown) =>
+  typeof value === "string" ? value.trim() : "";
+
+const userOf = (value: unknown) => text(value) || "anonymous";
+
+const parsePrice = (value: unknown): UnitPrice | null => {
+  const input = (value ?? {}) as Record<string, unknown>;
+  if (
+    typeof input.amount !== "number" ||
+    !Number.isFinite(input.amount) ||
+    input.amount < 0 ||
+    (input.unit !== "kg" && input.unit !== "box")
+  ) {
+    return null;
+  }
+  return { amount: input.amount, unit: input.unit };
+};
+
+const parsePriceTable = (value: unknown) => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  const table: Record<string, UnitPrice> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    const price = parsePrice(entry);
+    if (!price) return null;
+    if (key.trim()) table[key.trim()] = price;
+  }
+  return table;
+};
+
+const parseTargetPrice = (value: unknown): TargetPrice | string => {
+  const input = (value ?? {}) as Record<string, unknown>;
+  const variety = text(input.variety);
+  const price = parsePrice(input.price);
+  if (!variety) return "every target price needs a variety";
+  if (!price) {
+    return `price for ${variety} must be a non-negative amount per kg or box`;
+  }
+  return {
+    id: text(input.id) || randomUUID(),
+    variety,
+    ...(text(input.caliber) ? { caliber: text(input.caliber) } : {}),
+    ...(text(input.pack_format)
+      ? { pack_format: text(input.pack_format) }
+      : {}),
+    price,
+  };
+};
+
+export async function GET() {
+  const priceBook = await readStore<PriceBook>(STORE_NAME, EMPTY);
+  return NextResponse.json({ priceBook });
+}
+
+/**
+ * Replaces the price book. `expectedUpdatedAt` is the `updatedAt` of the book
+ * the edit started from; the write is refused if someone saved since.
+ */
+export async function PUT(request: Request) {
+  const body = await request.json().catch(() => null);
+  const currency = text(body?.currency).toUpperCase();
+  const shipmentCosts = parsePriceTable(body?.shipmentCosts ?? {});
+  const lineCosts = parsePriceTable(body?.lineCosts ?? {});
+  if (
+    !/^[A-Z]{3}$/.test(currency) ||
+    !shipmentCosts ||
+    !lineCosts ||
+    !Array.isArray(body?.targetPrices)
+  ) {
+    return NextResponse.json(
+      {
+        error:
+          "Expected { currency: string, shipmentCosts: Record<string, UnitPrice>, lineCosts: Record<string, UnitPrice>, targetPrices: TargetPrice[], expectedUpdatedAt?: string | null, user?: string }",
+      },
+      { status: 400 }
+    );
+  }
+
+  const targetPrices: TargetPrice[] = [];
+  for (const value of body.targetPrices as unknown[]) {
+    const parsed = parseTargetPrice(value);
+    if (typeof parsed === "string") {
+      return NextResponse.json({ error: parsed }, { status: 400 });
+    }
+    targetPrices.push(parsed);
+  }
+
+  const expected: unknown = body.expectedUpdatedAt;
+  let conflict: string | null = null;
+  const priceBook = await updateStore<PriceBook>(
+    STORE_NAME,
+    EMPTY,
+    (current) => {
+      if (expected !== undefined && (current.updatedAt ?? null) !== expected) {
+        conflict = `Prices were changed by ${
+          current.updatedBy ?? "someone"
+        } since they were loaded; reopen them to see their changes`;
+        return current;
+      }
+      return {
+        currency,
+        shipmentCosts,
+        lineCosts,
+        targetPrices,
+        updatedBy: userOf(body.user),
+        updatedAt: new Date().toISOString(),
+      };
+    }
+  );
+  if (conflict) {
+    return NextResponse.json({ error: conflict, priceBook }, { status: 409 });
+  }
+  return NextResponse.json({ priceBook });
+}
+
+/** Sets the cost of the given lines, leaving the rest of the book as is. */
+export async function PATCH(request: Request) {
+  const body = await request.json().catch(() => null);
+  const lineCosts = parsePriceTable(body?.lineCosts);
+  if (!lineCosts) {
+    return NextResponse.json(
+      {
+        error:
+          "Expected { lineCosts: Record<string, UnitPrice>, user?: string }",
+      },
+      { status: 400 }
+    );
+  }
+
+  const priceBook = await updateStore<PriceBook>(
+    STORE_NAME,
+    EMPTY,
+    (current) => ({
+      ...current,
+      lineCosts: { ...current.lineCosts, ...lineCosts },
+      updatedBy: userOf(body.user),
+      updatedAt: new Date().toISOString(),
+    })
+  );
+  return NextResponse.json({ priceBook });
+}
@@ -0,0 +1,70 @@
+import { randomUUID } from "crypto";
+import { NextResponse } from "next/server";
+import { readStore, updateStore } from "@/lib/store";
+import type { ScheduleChange } from "@/types";
+
+export const dynamic = "force-dynamic";
+
+const STORE_NAME = "schedule-changes";
+
+const isDate = (value: unknown): value is string =>
+  typeof value === "string" && !Number.isNaN(Date.parse(value));
+
+const text = (value: unknown) =>
+  typeof value === "string" ? value.trim() : "";
+
+export async function GET() {
+  const changes = await readStore<ScheduleChange[]>(STORE_NAME, []);
+  return NextResponse.json({ changes });
+}
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  const shipmentId = text(body?.shipment_id);
+  if (
+    !shipmentId ||
+    !isDate(body?.etd) ||
+    !isDate(body?.eta) ||
+    !isDate(body?.previous_etd) ||
+    !isDate(body?.previous_eta)
+  ) {
+    return NextResponse.json(
+      {
+        error:
+          "Expected { shipment_id, etd, eta, previous_etd, previous_eta, source, reason, user? } with ISO dates",
+      },
+      { status: 400 }
+    );
+  }
+  if (Date.parse(body.eta) < Date.parse(body.etd)) {
+    return NextResponse.json(
+      { error: "ETA cannot be before ETD" },
+      { status: 400 }
+    );
+  }
+  if (!text(body.source) || !text(body.reason)) {
+    return NextResponse.json(
+      { error: "A source and a reason are required for every change" },
+      { status: 400 }
+    );
+  }
+
+  const change: ScheduleChange = {
+    id: randomUUID(),
+    shipment_id: shipmentId,
+    etd: body.etd,
+    eta: body.eta,
+    previous_etd: body.previous_etd,
+    previous_eta: body.previous_eta,
+    source: text(body.source),
+    reason: text(body.reason),
+    changedBy: text(body.user) || "anonymous",
+    changedAt: new Date().toISOString(),
+  };
+  const changes = await updateStore<ScheduleChange[]>(
+    STORE_NAME,
+    [],
+    (current) => [...current, change]
+  );
+  return NextResponse.json({ change, changes }, { status: 201 });
+}
@@ -0,0 +1,92 @@
+import { randomUUID } from "crypto";
+import { NextResponse } from "next/server";
+import { DEFAULT_SHELF_LIFE } from "@/lib/shelfLife";
+import { readStore, updateStore } from "@/lib/store";
+import type { ShelfLifeConfig, ShelfLifeRule } from "@/types";
+
+export const dynamic = "force-dynamic";
+
+const STORE_NAME = "shelf-life";
+
+const text = (value: unknown) =>
+  typeof value === "string" ? value.trim() : "";
+
+const userOf = (value: unknown) => text(value) || "anonymous";
+
+const isDays = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0;
+
+const parseRule = (value: unknown): ShelfLifeRule | string => {
+  const input = (value ?? {}) as Record<string, unknown>;
+  const product = text(input.product);
+  const variety = text(input.variety);
+  if (!product && !variety) {
+    return "every shelf-life rule needs a product or a variety";
+  }
+  if (!isDays(input.days) || input.days === 0) {
+    return `days for ${variety || product} must be a positive integer`;
+  }
+  return {
+    id: text(input.id) || randomUUID(),
+    ...(product ? { product } : {}),
+    ...(variety ? { variety } : {}),
+    days: input.days,
+  };
+};
+
+export async function GET() {
+  const config = await readStore<ShelfLifeConfig>(
+    STORE_NAME,
+    DEFAULT_SHELF_LIFE
+  );
+  return NextResponse.json({ config });
+}
+
+export async function PUT(request: Request) {
+  const body = await request.json().catch(() => null);
+  const defaultDays = body?.defaultDays ?? null;
+  if (
+    (defaultDays !== null && !isDays(defaultDays)) ||
+    !isDays(body?.watchDays) ||
+    !isDays(body?.urgentDays) ||
+    !Array.isArray(body?.rules)
+  ) {
+    return NextResponse.json(
+      {
+        error:
+          "Expected { defaultDays: number | null, watchDays: number, urgentDays: number, rules: Array<{ product?: string, variety?: string, days: number }>, user?: string }",
+      },
+      { status: 400 }
+    );
+  }
+  if (body.urgentDays > body.watchDays) {
+    return NextResponse.json(
+      { error: "urgentDays must not exceed watchDays" },
+      { status: 400 }
+    );
+  }
+
+  const rules: ShelfLifeRule[] = [];
+  for (const value of body.rules as unknown[]) {
+    const parsed = parseRule(value);
+    if (typeof parsed === "string") {
+      return NextResponse.json({ error: parsed }, { status: 400 });
+    }
+    rules.push(parsed);
+  }
+
+  const config: ShelfLifeConfig = {
+    defaultDays,
+    watchDays: body.watchDays,
+    urgentDays: body.urgentDays,
+    rules,
+    updatedBy: userOf(body.user),
+    updatedAt: new Date().toISOString(),
+  };
+  await updateStore<ShelfLifeConfig>(
+    STORE_NAME,
+    DEFAULT_SHELF_LIFE,
+    () => config
+  );
+  return NextResponse.json({ config });
+}
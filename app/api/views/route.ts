@@ -0,0 +1,74 @@
+import { randomUUID } from "crypto";
+import { NextResponse } from "next/server";
+import { readStore, updateStore } from "@/lib/store";
+import type { SavedView } from "@/types";
+
+export const dynamic = "force-dynamic";
+
+const STORE_NAME = "views";
+
+const text = (value: unknown) =>
+  typeof value === "string" ? value.trim() : "";
+
+const userOf = (value: unknown) => text(value) || "anonymous";
+
+// Team views are visible to everyone; personal views only to their owner.
+const visibleTo = (views: SavedView[], user: string) =>
+  views.filter((view) => view.scope === "team" || view.owner === user);
+
+export async function GET(request: Request) {
+  const user = userOf(new URL(request.url).searchParams.get("user"));
+  const views = await readStore<SavedView[]>(STORE_NAME, []);
+  return NextResponse.json({ views: visibleTo(views, user) });
+}
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  const name = text(body?.name);
+  const scope = body?.scope;
+  if (!name || (scope !== "personal" && scope !== "team")) {
+    return NextResponse.json(
+      {
+        error:
+          'Expected { name: string, scope: "personal" | "team", query: string, user?: string }',
+      },
+      { status: 400 }
+    );
+  }
+
+  const user = userOf(body.user);
+  const view: SavedView = {
+    id: randomUUID(),
+    name,
+    scope,
+    query: text(body.query).replace(/^\?/, ""),
+    owner: user,
+    createdAt: new Date().toISOString(),
+  };
+  const views = await updateStore<SavedView[]>(STORE_NAME, [], (current) => [
+    ...current,
+    view,
+  ]);
+  return NextResponse.json({ view, views: visibleTo(views, user) });
+}
+
+export async function DELETE(request: Request) {
+  const params = new URL(request.url).searchParams;
+  const id = text(params.get("id"));
+  const user = userOf(params.get("user"));
+  const views = await readStore<SavedView[]>(STORE_NAME, []);
+  const target = views.find((view) => view.id === id);
+  if (!target) {
+    return NextResponse.json({ error: "View not found" }, { status: 404 });
+  }
+  if (target.owner !== user) {
+    return NextResponse.json(
+      { error: `Only ${target.owner} can delete "${target.name}"` },
+      { status: 403 }
+    );
+  }
+  const next = await updateStore<SavedView[]>(STORE_NAME, [], (current) =>
+    current.filter((view) => view.id !== id)
+  );
+  return NextResponse.json({ views: visibleTo(next, user) });
+}
@@ -1,4 +1,5 @@
 import type { Metadata } from "next";
+import { ReferenceClockProvider } from "@/components/ReferenceClock";
 import "./globals.css";
 
 export const metadata: Metadata = {
@@ -14,7 +15,7 @@ export default function RootLayout({
   return (
     <html lang="en">
       <body className="bg-emerald-100 text-slate-900 antialiased">
-        {children}
+        <ReferenceClockProvider>{children}</ReferenceClockProvider>
       </body>
     </html>
   );
@@ -1,82 +1,233 @@
 "use client";
 
 import Image from "next/image";
-import { useCallback, useMemo, useState } from "react";
-import palletData from "@/data/data.json";
+import {
+  Fragment,
+  useCallback,
+  useEffect,
+  useMemo,
+  useState,
+  type MouseEvent as ReactMouseEvent,
+} from "react";
+import AlertInbox from "@/components/AlertInbox";
+import AlertRulesEditor from "@/components/AlertRulesEditor";
+import AllocationEditor from "@/components/AllocationEditor";
+import BulkActionBar from "@/components/BulkActionBar";
+import CodeMappingsEditor from "@/components/CodeMappingsEditor";
+import ColumnChooser from "@/components/ColumnChooser";
+import DatasetPicker from "@/components/DatasetPicker";
+import HierarchyView from "@/components/HierarchyView";
+import ForecastView from "@/components/ForecastView";
+import ImportWizard from "@/components/ImportWizard";
+import InspectionPanel, { QC_BADGE_STYLES } from "@/components/InspectionPanel";
+import NotesPanel from "@/components/NotesPanel";
+import PivotView from "@/components/PivotView";
+import PriceBookEditor from "@/components/PriceBookEditor";
+import ReconciliationView, {
+  RECONCILIATION_BADGE_STYLES,
+} from "@/components/ReconciliationView";
+import ReferentialIssues from "@/components/ReferentialIssues";
+import TimelineView, { type TimelineSettings } from "@/components/TimelineView";
+import SavedViewsMenu from "@/components/SavedViewsMenu";
+import ShelfLifeEditor from "@/components/ShelfLifeEditor";
+import {
+  ReferenceClockControl,
+  useReferenceTime,
+} from "@/components/ReferenceClock";
+import {
+  evaluateAlertRules,
+  fetchAlertRules,
+  fetchAlerts,
+  isAlertActive,
+  reportAlerts,
+  saveAlertRules,
+  updateAlert,
+} from "@/lib/alerts";
+import {
+  fetchAllocations,
+  planBulkUpdate,
+  saveAllocationUpdates,
+  saveAllocations,
+  summarizeLineAllocation,
+  type BulkAllocationAction,
+  type LineAllocationSummary,
+} from "@/lib/allocations";
 import {
   FilterCriteria,
-  FIXED_NOW_ISO,
+  STATUSES,
   applyFilters,
   computeStatus,
+  getDaysToArrival,
   hasEtaPassed,
   isEtaWithinSevenDays,
   type ArrivalWindow,
 } from "@/lib/filters";
-import type { PalletDataset, PalletItem, PalletRow } from "@/types";
-
-// const FIXED_NOW = new Date(FIXED_NOW_ISO);
-const FIXED_NOW = new Date("2025-11-07T00:00:00Z");
-const ONE_DAY_MS = 24 * 60 * 60 * 1000;
-
-type EnrichedRow = PalletRow & { stableKey: string };
-type StringFieldKey = {
-  [K in keyof PalletItem]: PalletItem[K] extends string | undefined ? K : never;
-}[keyof PalletItem];
-
-const PALLET_ITEMS: PalletItem[] = ((palletData as PalletDataset).palletitems ||
-  []) as PalletItem[];
-
-const SOURCE_DATA: EnrichedRow[] = PALLET_ITEMS.map((item, index) => ({
-  ...item,
-  etaDate: new Date(item.eta),
-  etdDate: new Date(item.etd),
-  stableKey: `${item.shipment_id}-${item.container_id ?? item.container_code}-${
-    item.line_id ?? index
-  }`,
-}));
-
-const uniqueValues = <K extends StringFieldKey>(key: K) => {
-  const values = PALLET_ITEMS.map(
-    (item) => item[key as keyof PalletItem]
-  ).filter(
-    (value): value is string =>
-      typeof value === "string" && value.trim().length > 0
-  );
+import type { DatasetValidation } from "@/lib/dataset";
+import {
+  formatDateTime,
+  formatInteger,
+  formatKg,
+  formatMoney,
+  formatPercent,
+  formatTons,
+  formatWeight,
+} from "@/lib/format";
+import {
+  getCaliber,
+  getPackFormat,
+  summarizeRawValues,
+  type ValueMode,
+} from "@/lib/codes";
+import { MIN_COLUMN_WIDTH, moveColumn } from "@/lib/columnLayout";
+import { downloadCsv, formatCsv } from "@/lib/csv";
+import { groupByShipment, groupLines, type LineGroup } from "@/lib/hierarchy";
+import {
+  QC_STATUSES,
+  fetchInspections,
+  getQcStatus,
+  isAllocationBlocked,
+  latestInspectionByLine,
+  saveInspection,
+} from "@/lib/inspections";
+import { DEFAULT_PIVOT, type PivotConfig } from "@/lib/pivot";
+import {
+  addNotes,
+  fetchNotes,
+  formatNotes,
+  getRowNotes,
+  indexNotes,
+} from "@/lib/notes";
+import {
+  EMPTY_PRICE_BOOK,
+  fetchPriceBook,
+  saveLineCosts,
+  savePriceBook,
+  valueLine,
+  type LineValue,
+} from "@/lib/pricing";
+import { delayBadgeClass, formatDelay } from "@/lib/schedule";
+import {
+  DEFAULT_SHELF_LIFE,
+  URGENCY_LABELS,
+  fetchShelfLifeConfig,
+  getLineShelfLife,
+  saveShelfLifeConfig,
+  type LineShelfLife,
+  type ShelfLifeUrgency,
+} from "@/lib/shelfLife";
+import {
+  DEFAULT_TOLERANCE,
+  reconcileContainers,
+  type ReconciliationTolerance,
+} from "@/lib/reconciliation";
+import { useColumnLayout } from "@/lib/useColumnLayout";
+import { UPLOAD_PREFIX, usePalletDataset } from "@/lib/usePalletDataset";
+import { useStoredState } from "@/lib/useStoredState";
+import { useTraderName } from "@/lib/useTraderName";
+import { downloadWorkbook } from "@/lib/workbook";
+import {
+  INITIAL_FILTERS,
+  readViewState,
+  writeViewState,
+  type AllocationOption,
+  type SortState,
+  type UiFilters,
+  type ViewMode,
+} from "@/lib/viewState";
+import type {
+  AllocationInput,
+  AllocationState,
+  Alert,
+  AlertRule,
+  ColumnLayout,
+  EnrichedRow,
+  Inspection,
+  InspectionInput,
+  LineAllocationMap,
+  LineAllocationUpdate,
+  Note,
+  NoteInput,
+  PalletItem,
+  PriceBook,
+  QcStatus,
+  ShelfLifeConfig,
+  Status,
+  UnitPrice,
+} from "@/types";
+
+const uniqueValues = <T extends PalletItem>(
+  items: T[],
+  getValue: (item: T) => string | undefined
+) => {
+  const values = items
+    .map(getValue)
+    .filter(
+      (value): value is string =>
+        typeof value === "string" && value.trim().length > 0
+    );
   return Array.from(new Set(values)).sort((a, b) => a.localeCompare(b));
 };
 
-const ALL_PORTS = uniqueValues("port_destination");
-const VARIETIES = uniqueValues("variety");
-const CALIBERS = uniqueValues("caliber_raw");
-const PACK_FORMATS = uniqueValues("pack_format_raw");
 const ARRIVAL_OPTIONS: Array<{ value: ArrivalWindow; label: string }> = [
   { value: "gte_7", label: "≥ 7 days" },
   { value: "lte_7", label: "≤ 7 days" },
   { value: "lte_2", label: "≤ 2 days" },
   { value: "lte_1", label: "≤ 1 day" },
 ];
-const PREALLOCATED_STATUS_OPTIONS: Array<{
-  value: PreAllocationOption;
+const ALLOCATION_STATUS_OPTIONS: Array<{
+  value: AllocationOption;
   label: string;
 }> = [
   { value: "any", label: "Any" },
-  { value: "pre", label: "Only pre-allocated" },
-  { value: "not_pre", label: "Only unallocated" },
+  { value: "allocated", label: "Fully allocated" },
+  { value: "partial", label: "Partially allocated" },
+  { value: "unallocated", label: "Unallocated" },
+];
+
+const STATUS_BADGE_STYLES: Record<Status, string> = {
+  Scheduled: "bg-slate-100 text-slate-700",
+  "At sea": "bg-sky-50 text-sky-700",
+  Arrived: "bg-emerald-50 text-emerald-700",
+};
+
+const QC_LABELS = Object.fromEntries(
+  QC_STATUSES.map((option) => [option.value, option.label])
+) as Record<QcStatus, string>;
+
+const URGENCY_BADGE_STYLES: Record<ShelfLifeUrgency, string> = {
+  fresh: "bg-emerald-50 text-emerald-700",
+  watch: "bg-amber-50 text-amber-700",
+  urgent: "bg-orange-100 text-orange-800",
+  expired: "bg-rose-50 text-rose-700",
+  unknown: "text-slate-400",
+};
+
+// Least shelf life left first; ties go to the oldest fruit.
+const SELL_FIRST_SORT: SortState<ColumnKey>[] = [
+  { column: "shelf_life", direction: "asc" },
+  { column: "age", direction: "desc" },
 ];
 
-type PreAllocationOption = "any" | "pre" | "not_pre";
-type UiFilters = FilterCriteria & {
-  preAllocatedStatuses: PreAllocationOption[];
+const ALLOCATION_STATE_LABELS: Record<AllocationState, string> = {
+  allocated: "Allocated",
+  partial: "Partial",
+  unallocated: "Unallocated",
 };
 
-const INITIAL_FILTERS: UiFilters = {
-  ports: [],
-  varieties: [],
-  calibers: [],
-  packFormats: [],
-  arrivalWindows: [],
-  nextArrivalsOnly: false,
-  preAllocatedStatuses: ["any"],
+type SummaryMeasure = "kg" | "value" | "margin";
+
+const SUMMARY_MEASURES: Array<{ value: SummaryMeasure; label: string }> = [
+  { value: "kg", label: "Weight" },
+  { value: "value", label: "Sale value" },
+  { value: "margin", label: "Margin" },
+];
+
+const toBoundInput = (value: number | string | null) =>
+  value === null ? "" : `${value}`;
+
+const parseNumberBound = (value: string) => {
+  const parsed = Number.parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
 };
 
 const toggleValue = (values: string[], value: string) =>
@@ -85,23 +236,29 @@ const toggleValue = (values: string[], value: string) =>
     : [...values, value];
 
 type ColumnKey =
-  | "port_destination"
+  | keyof PalletItem
   | "days_to_arrival"
-  | "variety"
-  | "caliber_raw"
-  | "pack_format_raw"
-  | "box_count"
-  | "box_weight_kg"
-  | "line_weight_kg"
-  | "pre_allocated"
-  | "pallet_pl_id";
+  | "status"
+  | "allocation"
+  | "qc"
+  | "age"
+  | "age_at_arrival"
+  | "shelf_life"
+  | "notes"
+  | "cost"
+  | "revenue"
+  | "margin"
+  | "margin_pct";
 
 type ArrayFilterKey =
   | "ports"
   | "varieties"
   | "calibers"
   | "packFormats"
-  | "arrivalWindows";
+  | "arrivalWindows"
+  | "statuses"
+  | "shipments"
+  | "qcStatuses";
 
 interface ColumnDefinition {
   key: ColumnKey;
@@ -112,33 +269,70 @@ interface ColumnDefinition {
 const COLUMNS: ColumnDefinition[] = [
   { key: "port_destination", label: "Port" },
   { key: "days_to_arrival", label: "Days to arrival" },
+  { key: "status", label: "Status" },
   { key: "variety", label: "Variety" },
   { key: "caliber_raw", label: "Caliber" },
   { key: "pack_format_raw", label: "Pack format" },
   { key: "box_count", label: "Boxes", numeric: true },
   { key: "box_weight_kg", label: "Box weight (kg)", numeric: true },
   { key: "line_weight_kg", label: "Line weight (kg)", numeric: true },
-  { key: "pre_allocated", label: "Pre-allocated" },
+  { key: "allocation", label: "Allocation" },
+  { key: "qc", label: "QC" },
+  { key: "shelf_life", label: "Shelf life" },
   { key: "pallet_pl_id", label: "Pallet PL ID" },
+  { key: "notes", label: "Notes" },
+  { key: "shipment_id", label: "Shipment ID" },
+  { key: "booking_reference", label: "Booking reference" },
+  { key: "container_code", label: "Container code" },
+  { key: "container_id", label: "Container ID" },
+  { key: "carrier_name", label: "Carrier" },
+  { key: "vessel_name", label: "Vessel" },
+  { key: "voyage_number", label: "Voyage" },
+  { key: "port_origin", label: "Origin port" },
+  { key: "etd", label: "ETD" },
+  { key: "eta", label: "ETA" },
+  { key: "product", label: "Product" },
+  { key: "brand", label: "Brand" },
+  { key: "caliber_code", label: "Caliber code" },
+  { key: "pack_format_code", label: "Pack format code" },
+  { key: "line_id", label: "Line ID", numeric: true },
+  { key: "pl_document_id", label: "Packing list" },
+  { key: "pack_date", label: "Pack date" },
+  { key: "age", label: "Days since pack", numeric: true },
+  { key: "age_at_arrival", label: "Age at arrival (days)", numeric: true },
+  { key: "cost", label: "Cost", numeric: true },
+  { key: "revenue", label: "Sale value", numeric: true },
+  { key: "margin", label: "Margin", numeric: true },
+  { key: "margin_pct", label: "Margin %", numeric: true },
 ];
 
-const getRowKey = (row: EnrichedRow) => row.stableKey;
+const COLUMN_BY_KEY = new Map(COLUMNS.map((column) => [column.key, column]));
 
-const formatInteger = (value: number | null | undefined) => {
-  if (value === null || value === undefined) return "—";
-  return value.toLocaleString("en-US");
+// Module constant so the layout hook only refetches when the trader changes.
+const DEFAULT_COLUMN_LAYOUT: ColumnLayout = {
+  columns: [
+    "port_destination",
+    "days_to_arrival",
+    "status",
+    "variety",
+    "caliber_raw",
+    "pack_format_raw",
+    "box_count",
+    "box_weight_kg",
+    "line_weight_kg",
+    "allocation",
+    "qc",
+    "shelf_life",
+    "pallet_pl_id",
+    "notes",
+  ],
+  widths: {},
 };
 
-const formatWeight = (value: number | null | undefined) => {
-  if (value === null || value === undefined) return "—";
-  return value.toLocaleString("en-US", {
-    minimumFractionDigits: 1,
-    maximumFractionDigits: 1,
-  });
-};
+const isColumnKey = (value: string): value is ColumnKey =>
+  COLUMNS.some((column) => column.key === value);
 
-const getDaysToArrival = (row: EnrichedRow) =>
-  Math.round((row.etaDate.getTime() - FIXED_NOW.getTime()) / ONE_DAY_MS);
+const getRowKey = (row: EnrichedRow) => row.stableKey;
 
 const getRowTooltip = (row: EnrichedRow) => {
   const booking = row.booking_reference || "—";
@@ -154,79 +348,385 @@ const normalizeOptions = (
     typeof option === "string" ? { value: option, label: option } : option
   );
 
-function formatKg(value: number) {
-  const hasFraction = !Number.isInteger(value);
-  return `${value.toLocaleString("en-US", {
-    minimumFractionDigits: hasFraction ? 1 : 0,
-    maximumFractionDigits: hasFraction ? 1 : 0,
-  })} kg`;
-}
+export default function Page() {
+  const [filters, setFilters] = useState<UiFilters>(INITIAL_FILTERS);
+  const [sort, setSort] = useState<SortState<ColumnKey>[]>([]);
+  const [groupBy, setGroupBy] = useState<ColumnKey | null>(null);
+  const [allocations, setAllocations] = useState<LineAllocationMap>({});
+  const [allocationError, setAllocationError] = useState<string | null>(null);
+  const [allocationsLoaded, setAllocationsLoaded] = useState(false);
+  const [editingRow, setEditingRow] = useState<EnrichedRow | null>(null);
+  const [notes, setNotes] = useState<Note[]>([]);
+  const [notesError, setNotesError] = useState<string | null>(null);
+  const [notesRow, setNotesRow] = useState<EnrichedRow | null>(null);
+  const [inspections, setInspections] = useState<Inspection[]>([]);
+  const [inspectionsError, setInspectionsError] = useState<string | null>(null);
+  const [inspectingRow, setInspectingRow] = useState<EnrichedRow | null>(null);
+  const [inspectionsLoaded, setInspectionsLoaded] = useState(false);
+  const [alertRules, setAlertRules] = useState<AlertRule[] | null>(null);
+  const [alerts, setAlerts] = useState<Alert[]>([]);
+  const [alertsError, setAlertsError] = useState<string | null>(null);
+  const [viewingAlerts, setViewingAlerts] = useState(false);
+  const [editingAlertRules, setEditingAlertRules] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [editingCodes, setEditingCodes] = useState(false);
+  const [priceBook, setPriceBook] = useState<PriceBook>(EMPTY_PRICE_BOOK);
+  const [priceBookError, setPriceBookError] = useState<string | null>(null);
+  const [editingPrices, setEditingPrices] = useState(false);
+  const [shelfLife, setShelfLife] =
+    useState<ShelfLifeConfig>(DEFAULT_SHELF_LIFE);
+  const [shelfLifeError, setShelfLifeError] = useState<string | null>(null);
+  const [editingShelfLife, setEditingShelfLife] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [viewMode, setViewMode] = useState<ViewMode>("lines");
+  const [tolerance, setTolerance] = useStoredState<ReconciliationTolerance>(
+    "weight-tolerance",
+    DEFAULT_TOLERANCE
+  );
+  const [pivotConfig, setPivotConfig] = useStoredState<PivotConfig>(
+    "pivot",
+    DEFAULT_PIVOT
+  );
+  const [timelineSettings, setTimelineSettings] =
+    useStoredState<TimelineSettings>("timeline", {
+      grouping: "port",
+      granularity: "shipment",
+    });
+  const [forecastIncludesAllocated, setForecastIncludesAllocated] =
+    useStoredState("forecast-include-allocated", true);
+  const [summaryMeasure, setSummaryMeasure] = useStoredState<SummaryMeasure>(
+    "summary-measure",
+    "kg"
+  );
+  const [traderName, setTraderName] = useTraderName();
+  const { now, pinned } = useReferenceTime();
+  const dataset = usePalletDataset();
+  const sourceData = dataset.rows;
+  const [urlRestored, setUrlRestored] = useState(false);
+  const [draggedColumn, setDraggedColumn] = useState<ColumnKey | null>(null);
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(
+    () => new Set()
+  );
+  const [selectionAnchor, setSelectionAnchor] = useState<string | null>(null);
+  const {
+    layout: columnLayout,
+    updateLayout: updateColumnLayout,
+    error: columnLayoutError,
+  } = useColumnLayout(traderName.trim() || "anonymous", DEFAULT_COLUMN_LAYOUT);
 
-function formatTons(value: number) {
-  const tons = value / 1000;
-  return tons.toLocaleString("en-US", {
-    minimumFractionDigits: 1,
-    maximumFractionDigits: 1,
-  });
-}
+  // Saved layouts may name columns that no longer exist.
+  const columnKeys = useMemo(() => {
+    const keys = columnLayout.columns.filter(isColumnKey);
+    return keys.length ? keys : (DEFAULT_COLUMN_LAYOUT.columns as ColumnKey[]);
+  }, [columnLayout.columns]);
+  const visibleColumns = columnKeys.map(
+    (key) => COLUMN_BY_KEY.get(key) as ColumnDefinition
+  );
 
-const formatPercent = (value: number) => `${value.toFixed(1)} %`;
+  const viewQuery = useMemo(
+    () =>
+      writeViewState(new URLSearchParams(), {
+        filters,
+        sort,
+        groupBy,
+        viewMode,
+      }).toString(),
+    [filters, sort, groupBy, viewMode]
+  );
 
-const escapeCsv = (value: string | number) => {
-  const text = `${value ?? ""}`;
-  if (text.includes(",") || text.includes('"') || text.includes("\n")) {
-    return `"${text.replace(/"/g, '""')}"`;
-  }
-  return text;
-};
+  const applyViewQuery = useCallback((query: string) => {
+    const state = readViewState(new URLSearchParams(query), isColumnKey);
+    setFilters(state.filters);
+    setSort(state.sort);
+    setGroupBy(state.groupBy);
+    setViewMode(state.viewMode);
+  }, []);
 
-export default function Page() {
-  const [filters, setFilters] = useState<UiFilters>(INITIAL_FILTERS);
-  const [sort, setSort] = useState<{
-    column: ColumnKey;
-    direction: "asc" | "desc";
-  } | null>(null);
-  const [preAllocated, setPreAllocated] = useState<Record<string, boolean>>({});
-  const [viewMode, setViewMode] = useState<"lines" | "summary">("lines");
+  // Restore the view from the URL once, then keep the URL in step with it so
+  // the address bar is always a shareable link.
+  useEffect(() => {
+    applyViewQuery(window.location.search);
+    setUrlRestored(true);
+  }, [applyViewQuery]);
+
+  useEffect(() => {
+    if (!urlRestored) return;
+    const url = new URL(window.location.href);
+    writeViewState(url.searchParams, { filters, sort, groupBy, viewMode });
+    window.history.replaceState(window.history.state, "", url);
+  }, [urlRestored, filters, sort, groupBy, viewMode]);
+
+  const filterOptions = useMemo(
+    () => ({
+      ports: uniqueValues(dataset.items, (item) => item.port_destination),
+      products: uniqueValues(dataset.items, (item) => item.product),
+      varieties: uniqueValues(dataset.items, (item) => item.variety),
+      calibers: uniqueValues(sourceData, (row) =>
+        getCaliber(row, filters.valueMode)
+      ),
+      packFormats: uniqueValues(sourceData, (row) =>
+        getPackFormat(row, filters.valueMode)
+      ),
+    }),
+    [dataset.items, sourceData, filters.valueMode]
+  );
+
+  const unmappedValues = useMemo(
+    () => summarizeRawValues(sourceData).filter((usage) => !usage.code),
+    [sourceData]
+  );
 
-  const isRowPreAllocated = useCallback(
-    (row: EnrichedRow) => preAllocated[getRowKey(row)] ?? false,
-    [preAllocated]
+  const refreshAllocations = useCallback(async () => {
+    try {
+      setAllocations(await fetchAllocations());
+      setAllocationsLoaded(true);
+      setAllocationError(null);
+    } catch (error) {
+      setAllocationError((error as Error).message);
+    }
+  }, []);
+
+  // Hydrate from the shared store and pick up teammates' changes on refocus.
+  useEffect(() => {
+    refreshAllocations();
+    window.addEventListener("focus", refreshAllocations);
+    return () => window.removeEventListener("focus", refreshAllocations);
+  }, [refreshAllocations]);
+
+  const refreshNotes = useCallback(async () => {
+    try {
+      setNotes(await fetchNotes());
+      setNotesError(null);
+    } catch (error) {
+      setNotesError((error as Error).message);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshNotes();
+    window.addEventListener("focus", refreshNotes);
+    return () => window.removeEventListener("focus", refreshNotes);
+  }, [refreshNotes]);
+
+  const refreshPriceBook = useCallback(async () => {
+    try {
+      setPriceBook(await fetchPriceBook());
+      setPriceBookError(null);
+    } catch (error) {
+      setPriceBookError((error as Error).message);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshPriceBook();
+    window.addEventListener("focus", refreshPriceBook);
+    return () => window.removeEventListener("focus", refreshPriceBook);
+  }, [refreshPriceBook]);
+
+  const refreshInspections = useCallback(async () => {
+    try {
+      setInspections(await fetchInspections());
+      setInspectionsLoaded(true);
+      setInspectionsError(null);
+    } catch (error) {
+      setInspectionsError((error as Error).message);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshInspections();
+    window.addEventListener("focus", refreshInspections);
+    return () => window.removeEventListener("focus", refreshInspections);
+  }, [refreshInspections]);
+
+  const latestInspections = useMemo(
+    () => latestInspectionByLine(inspections),
+    [inspections]
+  );
+
+  const getQc = useCallback(
+    (row: EnrichedRow) =>
+      getQcStatus(row, latestInspections.get(getRowKey(row)), now),
+    [latestInspections, now]
+  );
+
+  const containerLineKeys = useMemo(() => {
+    const keys = new Map<string, string[]>();
+    sourceData.forEach((row) => {
+      keys.set(row.container_id, [
+        ...(keys.get(row.container_id) ?? []),
+        getRowKey(row),
+      ]);
+    });
+    return keys;
+  }, [sourceData]);
+
+  const refreshShelfLife = useCallback(async () => {
+    try {
+      setShelfLife(await fetchShelfLifeConfig());
+      setShelfLifeError(null);
+    } catch (error) {
+      setShelfLifeError((error as Error).message);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshShelfLife();
+    window.addEventListener("focus", refreshShelfLife);
+    return () => window.removeEventListener("focus", refreshShelfLife);
+  }, [refreshShelfLife]);
+
+  const getShelfLife = useCallback(
+    (row: EnrichedRow) => getLineShelfLife(row, shelfLife, now),
+    [shelfLife, now]
+  );
+
+  const noteIndex = useMemo(() => indexNotes(notes), [notes]);
+
+  const getNotes = useCallback(
+    (row: EnrichedRow) => getRowNotes(noteIndex, row),
+    [noteIndex]
+  );
+
+  const allocationSummaries = useMemo(() => {
+    const summaries = new Map<string, LineAllocationSummary>();
+    sourceData.forEach((row) => {
+      summaries.set(
+        getRowKey(row),
+        summarizeLineAllocation(row, allocations[getRowKey(row)])
+      );
+    });
+    return summaries;
+  }, [allocations, sourceData]);
+
+  const getAllocationSummary = useCallback(
+    (row: EnrichedRow) =>
+      allocationSummaries.get(getRowKey(row)) ??
+      summarizeLineAllocation(row, undefined),
+    [allocationSummaries]
+  );
+
+  const lineValues = useMemo(() => {
+    const values = new Map<string, LineValue>();
+    sourceData.forEach((row) => {
+      values.set(
+        getRowKey(row),
+        valueLine(row, allocations[getRowKey(row)], priceBook)
+      );
+    });
+    return values;
+  }, [allocations, priceBook, sourceData]);
+
+  const getLineValue = useCallback(
+    (row: EnrichedRow) =>
+      lineValues.get(getRowKey(row)) ?? valueLine(row, undefined, priceBook),
+    [lineValues, priceBook]
   );
 
   const filteredRows = useMemo(() => {
-    const { preAllocatedStatuses, ...dataFilters } = filters;
-    const rows = applyFilters(
-      SOURCE_DATA,
-      dataFilters as FilterCriteria,
-      FIXED_NOW
+    const { allocationStatuses, hasNotes, qcStatuses, ...dataFilters } =
+      filters;
+    const rows = applyFilters(sourceData, dataFilters as FilterCriteria, now);
+    const normalizedStatuses = allocationStatuses.filter(
+      (value): value is AllocationState => value !== "any"
     );
-    const normalizedStatuses = preAllocatedStatuses.includes("any")
-      ? []
-      : preAllocatedStatuses.filter((value) => value !== "any");
-    return rows.filter((row) => {
-      if (!normalizedStatuses.length) return true;
-      const rowPreAllocated = isRowPreAllocated(row);
-      const mustIncludePre = normalizedStatuses.includes("pre");
-      const mustIncludeUn = normalizedStatuses.includes("not_pre");
-      const passesPre = mustIncludePre ? rowPreAllocated : false;
-      const passesUn = mustIncludeUn ? !rowPreAllocated : false;
-      return passesPre || passesUn;
-    });
-  }, [filters, isRowPreAllocated]);
+    return rows.filter(
+      (row) =>
+        (!normalizedStatuses.length ||
+          normalizedStatuses.includes(getAllocationSummary(row).state)) &&
+        (!hasNotes || getNotes(row).length > 0) &&
+        (!qcStatuses.length || qcStatuses.includes(getQc(row)))
+    );
+  }, [filters, getAllocationSummary, getNotes, getQc, now, sourceData]);
+
+  const columnContext = useMemo<ColumnContext>(
+    () => ({
+      now,
+      valueMode: filters.valueMode,
+      getAllocation: getAllocationSummary,
+      getNotes,
+      getLineValue,
+      getQc,
+      getShelfLife,
+    }),
+    [
+      now,
+      filters.valueMode,
+      getAllocationSummary,
+      getNotes,
+      getLineValue,
+      getQc,
+      getShelfLife,
+    ]
+  );
 
-  const visibleRows = useMemo(() => {
-    if (!sort) return filteredRows;
+  const sortedRows = useMemo(() => {
+    if (!sort.length) return filteredRows;
+    const compare = (
+      a: EnrichedRow,
+      b: EnrichedRow,
+      key: SortState<ColumnKey>
+    ) => {
+      const aValue = getComparableValue(a, key.column, columnContext);
+      const bValue = getComparableValue(b, key.column, columnContext);
+      if (aValue === bValue) return 0;
+      if (aValue > bValue) return key.direction === "asc" ? 1 : -1;
+      return key.direction === "asc" ? -1 : 1;
+    };
     const sorted = [...filteredRows];
     sorted.sort((a, b) => {
-      const aValue = getComparableValue(a, preAllocated, sort.column);
-      const bValue = getComparableValue(b, preAllocated, sort.column);
-      if (aValue === bValue) return 0;
-      if (aValue > bValue) return sort.direction === "asc" ? 1 : -1;
-      return sort.direction === "asc" ? -1 : 1;
+      for (const key of sort) {
+        const result = compare(a, b, key);
+        if (result !== 0) return result;
+      }
+      return 0;
     });
     return sorted;
-  }, [filteredRows, sort, preAllocated]);
+  }, [filteredRows, sort, columnContext]);
+
+  const lineGroups = useMemo(() => {
+    if (!groupBy) return null;
+    return groupLines(
+      sortedRows,
+      (row) => `${getColumnValue(row, groupBy, columnContext)}`
+    );
+  }, [sortedRows, groupBy, columnContext]);
+
+  // Grouped lines stay contiguous so exports match the table.
+  const visibleRows = useMemo(
+    () => (lineGroups ? lineGroups.flatMap((group) => group.rows) : sortedRows),
+    [lineGroups, sortedRows]
+  );
+
+  // Only lines that are still visible count towards bulk actions.
+  const selectedRows = useMemo(
+    () => visibleRows.filter((row) => selectedKeys.has(getRowKey(row))),
+    [visibleRows, selectedKeys]
+  );
+  const selectionTotals = useMemo(
+    () =>
+      selectedRows.reduce(
+        (acc, row) => ({
+          boxes: acc.boxes + (row.box_count ?? 0),
+          kg: acc.kg + (row.line_weight_kg ?? 0),
+        }),
+        { boxes: 0, kg: 0 }
+      ),
+    [selectedRows]
+  );
+  const allVisibleSelected =
+    visibleRows.length > 0 && selectedRows.length === visibleRows.length;
+
+  const subtotalAfter = useMemo(
+    () =>
+      new Map(
+        (lineGroups ?? []).map((group) => [
+          getRowKey(group.rows[group.rows.length - 1]),
+          group,
+        ])
+      ),
+    [lineGroups]
+  );
 
   const visibleCounts = useMemo(() => {
     const containers = new Set<string>();
@@ -242,29 +742,43 @@ export default function Page() {
     };
   }, [visibleRows]);
 
-  const portOptions = ALL_PORTS;
-
   const kpis = useMemo(() => {
     let totalKg = 0;
-    let preAllocatedKg = 0;
+    let allocatedKg = 0;
     let totalBoxes = 0;
+    let inventoryValue = 0;
+    let allocatedValue = 0;
+    let unpricedLines = 0;
+    const byStatus = Object.fromEntries(
+      STATUSES.map((status) => [status, { kg: 0, pallets: 0 }])
+    ) as Record<Status, { kg: number; pallets: number }>;
 
     visibleRows.forEach((row) => {
-      const weight = row.line_weight_kg ?? 0;
-      totalKg += weight;
+      totalKg += row.line_weight_kg ?? 0;
       totalBoxes += row.box_count ?? 0;
-      if (isRowPreAllocated(row)) preAllocatedKg += weight;
+      allocatedKg += getAllocationSummary(row).allocatedKg;
+      const value = getLineValue(row);
+      if (value.revenue === null) unpricedLines += 1;
+      inventoryValue += value.revenue ?? 0;
+      allocatedValue += value.allocatedValue;
+      const status = byStatus[computeStatus(row, now)];
+      status.kg += row.line_weight_kg ?? 0;
+      status.pallets += 1;
     });
 
-    const pctPreAllocated = totalKg > 0 ? (preAllocatedKg / totalKg) * 100 : 0;
+    const pctAllocated = totalKg > 0 ? (allocatedKg / totalKg) * 100 : 0;
 
     return {
       totalKg,
-      pctPreAllocated,
+      pctAllocated,
       pallets: visibleRows.length,
       totalBoxes,
+      byStatus,
+      inventoryValue,
+      allocatedValue,
+      unpricedLines,
     };
-  }, [visibleRows, isRowPreAllocated]);
+  }, [visibleRows, getAllocationSummary, getLineValue, now]);
 
   const arrivalsSummary = useMemo(() => {
     const groupMap = new Map<
@@ -273,18 +787,20 @@ export default function Page() {
         port_destination: string;
         daysToArrival: number;
         totalKg: number;
+        totalValue: number;
+        totalMargin: number;
         containers: Set<string>;
         shipments: Set<string>;
         lines: number;
+        maxDelayDays: number;
       }
     >();
     const containersSet = new Set<string>();
     const shipmentsSet = new Set<string>();
 
     filteredRows.forEach((row) => {
-      const diffMs = row.etaDate.getTime() - FIXED_NOW.getTime();
-      if (diffMs <= 0) return;
-      const daysToArrival = Math.round(diffMs / ONE_DAY_MS);
+      if (row.etaDate.getTime() <= now.getTime()) return;
+      const daysToArrival = getDaysToArrival(row.etaDate, now);
       if (daysToArrival < 1) return;
 
       const key = `${row.port_destination}__${daysToArrival}`;
@@ -294,14 +810,20 @@ export default function Page() {
           port_destination: row.port_destination,
           daysToArrival,
           totalKg: 0,
+          totalValue: 0,
+          totalMargin: 0,
           containers: new Set<string>(),
           shipments: new Set<string>(),
           lines: 0,
+          maxDelayDays: 0,
         };
         groupMap.set(key, group);
       }
 
       group.totalKg += row.line_weight_kg ?? 0;
+      const value = getLineValue(row);
+      group.totalValue += value.revenue ?? 0;
+      group.totalMargin += value.margin ?? 0;
       if (row.container_id) {
         group.containers.add(row.container_id);
         containersSet.add(row.container_id);
@@ -311,15 +833,22 @@ export default function Page() {
         shipmentsSet.add(row.shipment_id);
       }
       group.lines += 1;
+      group.maxDelayDays = Math.max(
+        group.maxDelayDays,
+        dataset.schedules.get(row.shipment_id)?.delayDays ?? 0
+      );
     });
 
     const groups = Array.from(groupMap.values()).map((group) => ({
       port_destination: group.port_destination,
       daysToArrival: group.daysToArrival,
       totalKg: group.totalKg,
+      totalValue: group.totalValue,
+      totalMargin: group.totalMargin,
       containers: group.containers.size,
       shipments: group.shipments.size,
       lines: group.lines,
+      maxDelayDays: group.maxDelayDays,
     }));
 
     groups.sort((a, b) => {
@@ -330,17 +859,136 @@ export default function Page() {
     });
 
     const totalKg = groups.reduce((sum, group) => sum + group.totalKg, 0);
+    const totalValue = groups.reduce((sum, group) => sum + group.totalValue, 0);
+    const totalMargin = groups.reduce(
+      (sum, group) => sum + group.totalMargin,
+      0
+    );
 
     return {
       groups,
       totals: {
         groups: groups.length,
         totalKg,
+        totalValue,
+        totalMargin,
         containers: containersSet.size,
         shipments: shipmentsSet.size,
       },
     };
-  }, [filteredRows]);
+  }, [filteredRows, now, dataset.schedules, getLineValue]);
+
+  const shipmentGroups = useMemo(
+    () => groupByShipment(visibleRows, dataset.shipments, dataset.containers),
+    [visibleRows, dataset.shipments, dataset.containers]
+  );
+
+  const reconciliations = useMemo(
+    () => reconcileContainers(dataset.containers, sourceData, tolerance),
+    [dataset.containers, sourceData, tolerance]
+  );
+
+  const reconciliationByContainer = useMemo(
+    () =>
+      new Map(
+        reconciliations.map((entry) => [entry.container_id, entry] as const)
+      ),
+    [reconciliations]
+  );
+
+  const getUnallocatedKg = useCallback(
+    (row: EnrichedRow) => getAllocationSummary(row).remainingKg,
+    [getAllocationSummary]
+  );
+
+  const refreshAlerts = useCallback(async () => {
+    try {
+      const [nextRules, nextAlerts] = await Promise.all([
+        fetchAlertRules(),
+        fetchAlerts(),
+      ]);
+      setAlertRules(nextRules);
+      setAlerts(nextAlerts);
+      setAlertsError(null);
+    } catch (error) {
+      setAlertsError((error as Error).message);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshAlerts();
+    window.addEventListener("focus", refreshAlerts);
+    return () => window.removeEventListener("focus", refreshAlerts);
+  }, [refreshAlerts]);
+
+  const firedAlerts = useMemo(
+    () =>
+      evaluateAlertRules(alertRules ?? [], {
+        rows: sourceData,
+        now,
+        getRemainingKg: getUnallocatedKg,
+        reconciliations,
+        isContainerInspected: (containerId) =>
+          (containerLineKeys.get(containerId) ?? []).some((key) =>
+            latestInspections.has(key)
+          ),
+      }),
+    [
+      alertRules,
+      sourceData,
+      now,
+      getUnallocatedKg,
+      reconciliations,
+      containerLineKeys,
+      latestInspections,
+    ]
+  );
+
+  // The server raises, notifies and resolves alerts from what the rules find,
+  // so only complete data of a saved dataset at the real clock is reported.
+  const reportedDataset =
+    alertRules !== null &&
+    allocationsLoaded &&
+    inspectionsLoaded &&
+    dataset.ready &&
+    !pinned &&
+    dataset.name &&
+    !dataset.name.startsWith(UPLOAD_PREFIX)
+      ? dataset.name
+      : null;
+  const firedSignature = JSON.stringify(firedAlerts);
+
+  useEffect(() => {
+    if (!reportedDataset) return;
+    reportAlerts(reportedDataset, JSON.parse(firedSignature))
+      .then((nextAlerts) => {
+        setAlerts(nextAlerts);
+        setAlertsError(null);
+      })
+      .catch((error) => setAlertsError((error as Error).message));
+  }, [reportedDataset, firedSignature]);
+
+  const activeAlertCount = useMemo(() => {
+    const current = new Date();
+    return alerts.filter((alert) => isAlertActive(alert, current)).length;
+  }, [alerts]);
+
+  const pivotContext = useMemo(
+    () => ({
+      now,
+      valueMode: filters.valueMode,
+      getAllocationState: (row: EnrichedRow) => getAllocationSummary(row).state,
+      getLineValue,
+      currency: priceBook.currency,
+    }),
+    [
+      now,
+      filters.valueMode,
+      getAllocationSummary,
+      getLineValue,
+      priceBook.currency,
+    ]
+  );
 
   const handleFilterChange = <K extends keyof UiFilters>(
     key: K,
@@ -359,80 +1007,329 @@ export default function Page() {
     }));
   };
 
-  const handlePreAllocatedToggle = (value: PreAllocationOption) => {
+  const handleAllocationStatusToggle = (value: AllocationOption) => {
     setFilters((prev) => {
       if (value === "any") {
-        return { ...prev, preAllocatedStatuses: ["any"] };
+        return { ...prev, allocationStatuses: ["any"] };
       }
-      const withoutAny = prev.preAllocatedStatuses.filter(
+      const withoutAny = prev.allocationStatuses.filter(
         (status) => status !== "any"
       );
       const nextStatuses = toggleValue(withoutAny, value);
       return {
         ...prev,
-        preAllocatedStatuses: nextStatuses.length
-          ? (nextStatuses as PreAllocationOption[])
+        allocationStatuses: nextStatuses.length
+          ? (nextStatuses as AllocationOption[])
           : ["any"],
       };
     });
   };
 
-  const handleSort = (column: ColumnKey) => {
+  // Shift-click adds a secondary key (or flips one already in the stack);
+  // a plain click sorts by that column alone.
+  const handleSort = (column: ColumnKey, addToStack: boolean) => {
     setSort((current) => {
-      if (current?.column === column) {
-        const direction = current.direction === "asc" ? "desc" : "asc";
-        return { column, direction };
+      const existing = current.find((key) => key.column === column);
+      const flipped = {
+        column,
+        direction: existing?.direction === "asc" ? "desc" : "asc",
+      } as const;
+      if (addToStack) {
+        return existing
+          ? current.map((key) => (key.column === column ? flipped : key))
+          : [...current, { column, direction: "asc" }];
       }
-      return { column, direction: "asc" };
+      return current.length === 1 && existing
+        ? [flipped]
+        : [{ column, direction: "asc" }];
+    });
+  };
+
+  const handleColumnDrop = (target: ColumnKey) => {
+    if (draggedColumn && draggedColumn !== target) {
+      updateColumnLayout({
+        ...columnLayout,
+        columns: moveColumn(columnKeys, draggedColumn, target),
+      });
+    }
+    setDraggedColumn(null);
+  };
+
+  // Widths follow the pointer locally and are saved once on release.
+  const handleColumnResizeStart = (
+    event: ReactMouseEvent<HTMLElement>,
+    column: ColumnKey
+  ) => {
+    event.preventDefault();
+    event.stopPropagation();
+    const header = event.currentTarget.parentElement;
+    if (!header) return;
+    const startX = event.clientX;
+    const startWidth = header.getBoundingClientRect().width;
+    let next = columnLayout;
+    const handleMove = (moveEvent: MouseEvent) => {
+      const width = Math.max(
+        MIN_COLUMN_WIDTH,
+        Math.round(startWidth + moveEvent.clientX - startX)
+      );
+      next = {
+        ...columnLayout,
+        widths: { ...columnLayout.widths, [column]: width },
+      };
+      updateColumnLayout(next, false);
+    };
+    const handleUp = () => {
+      window.removeEventListener("mousemove", handleMove);
+      window.removeEventListener("mouseup", handleUp);
+      if (next !== columnLayout) updateColumnLayout(next);
+    };
+    window.addEventListener("mousemove", handleMove);
+    window.addEventListener("mouseup", handleUp);
+  };
+
+  // Shift-click selects (or clears) every visible line since the last click.
+  const handleSelectRow = (rowKey: string, extendRange: boolean) => {
+    const keys = visibleRows.map(getRowKey);
+    const from =
+      extendRange && selectionAnchor ? keys.indexOf(selectionAnchor) : -1;
+    const to = keys.indexOf(rowKey);
+    setSelectedKeys((current) => {
+      const next = new Set(current);
+      const select = !current.has(rowKey);
+      const targets =
+        from === -1
+          ? [rowKey]
+          : keys.slice(Math.min(from, to), Math.max(from, to) + 1);
+      targets.forEach((key) => (select ? next.add(key) : next.delete(key)));
+      return next;
     });
+    setSelectionAnchor(rowKey);
   };
 
-  const handleTogglePreAllocated = (row: EnrichedRow) => {
-    const key = getRowKey(row);
-    setPreAllocated((prev) => ({ ...prev, [key]: !prev[key] }));
+  const handleSelectAllVisible = (select: boolean) => {
+    setSelectedKeys((current) => {
+      const next = new Set(current);
+      visibleRows.forEach((row) =>
+        select ? next.add(getRowKey(row)) : next.delete(getRowKey(row))
+      );
+      return next;
+    });
+  };
+
+  const clearSelection = () => {
+    setSelectedKeys(new Set());
+    setSelectionAnchor(null);
+  };
+
+  const handleBulkAction = async (action: BulkAllocationAction) => {
+    // Lines on QC hold or rejected are left out of new allocations.
+    const blocked =
+      action.kind === "allocate"
+        ? selectedRows.filter((row) => isAllocationBlocked(getQc(row)))
+        : [];
+    const updates = selectedRows
+      .filter((row) => !blocked.includes(row))
+      .map((row) => planBulkUpdate(row, allocations[getRowKey(row)], action))
+      .filter((update): update is LineAllocationUpdate => update !== null);
+    if (updates.length) {
+      try {
+        setAllocations(
+          await saveAllocationUpdates(updates, traderName.trim() || "anonymous")
+        );
+        setAllocationError(null);
+      } catch (error) {
+        // Pick up teammates' changes so the action can be retried on them.
+        await refreshAllocations();
+        throw error;
+      }
+    }
+    if (blocked.length) {
+      throw new Error(
+        `Skipped ${blocked.length} line${
+          blocked.length === 1 ? "" : "s"
+        } on QC hold or rejected`
+      );
+    }
+  };
+
+  const handleSaveInspection = async (
+    input: InspectionInput,
+    photos: File[]
+  ) => {
+    setInspections(
+      await saveInspection(input, photos, traderName.trim() || "anonymous")
+    );
+    setInspectionsError(null);
+  };
+
+  const handleSaveAlertRules = async (rules: AlertRule[]) => {
+    setAlertRules(
+      await saveAlertRules(rules, traderName.trim() || "anonymous")
+    );
+    setAlertsError(null);
+  };
+
+  const handleAcknowledgeAlert = async (id: string) => {
+    setAlerts(
+      await updateAlert(
+        id,
+        { action: "acknowledge" },
+        traderName.trim() || "anonymous"
+      )
+    );
+  };
+
+  const handleSnoozeAlert = async (id: string, hours: number) => {
+    setAlerts(
+      await updateAlert(
+        id,
+        { action: "snooze", hours },
+        traderName.trim() || "anonymous"
+      )
+    );
+  };
+
+  const handleSaveShelfLife = async (config: ShelfLifeConfig) => {
+    setShelfLife(
+      await saveShelfLifeConfig(config, traderName.trim() || "anonymous")
+    );
+    setShelfLifeError(null);
+  };
+
+  const handleSavePriceBook = async (
+    book: PriceBook,
+    expectedUpdatedAt: string | null
+  ) => {
+    try {
+      setPriceBook(
+        await savePriceBook(
+          book,
+          expectedUpdatedAt,
+          traderName.trim() || "anonymous"
+        )
+      );
+      setPriceBookError(null);
+    } catch (error) {
+      // A teammate saved first: load their version for the next edit.
+      await refreshPriceBook();
+      throw error;
+    }
+  };
+
+  // Line costs override the shipment cost for just the selected lines.
+  const handleSetLineCost = async (price: UnitPrice) => {
+    setPriceBook(
+      await saveLineCosts(
+        Object.fromEntries(selectedRows.map((row) => [getRowKey(row), price])),
+        traderName.trim() || "anonymous"
+      )
+    );
+    setPriceBookError(null);
+  };
+
+  const handleAddNotes = async (inputs: NoteInput[]) => {
+    setNotes(await addNotes(inputs, traderName.trim() || "anonymous"));
+    setNotesError(null);
+  };
+
+  const handleSaveAllocations = async (
+    row: EnrichedRow,
+    lineAllocations: AllocationInput[],
+    expectedUpdatedAt: string | null
+  ) => {
+    const user = traderName.trim() || "anonymous";
+    try {
+      setAllocations(
+        await saveAllocations(
+          getRowKey(row),
+          lineAllocations,
+          row.box_count,
+          expectedUpdatedAt,
+          user
+        )
+      );
+      setAllocationError(null);
+    } catch (error) {
+      // A teammate changed the line first: load their version for the next edit.
+      await refreshAllocations();
+      throw error;
+    }
+  };
+
+  // Selected calibers and pack formats only exist in one vocabulary.
+  const handleValueModeChange = (valueMode: ValueMode) => {
+    setFilters((prev) => ({
+      ...prev,
+      valueMode,
+      calibers: [],
+      packFormats: [],
+    }));
+  };
+
+  const handleExportXlsx = async () => {
+    if (!visibleRows.length) return;
+    try {
+      await downloadWorkbook(
+        {
+          rows: visibleRows,
+          now,
+          getAllocation: getAllocationSummary,
+          summary: arrivalsSummary.groups,
+          kpis,
+          currency: priceBook.currency,
+          viewQuery,
+        },
+        "lading-cockpit-visible-rows.xlsx"
+      );
+      setExportError(null);
+    } catch (error) {
+      setExportError(`Export failed: ${(error as Error).message}`);
+    }
+  };
+
+  const handleSelectShipment = (shipmentId: string) => {
+    setFilters((prev) => ({ ...prev, shipments: [shipmentId] }));
+    setViewMode("lines");
+  };
+
+  const handleSelectDataset = (name: string) => {
+    dataset.selectDataset(name);
+    setFilters({ ...INITIAL_FILTERS });
+    clearSelection();
+  };
+
+  const handleUploadDataset = (fileName: string, result: DatasetValidation) => {
+    dataset.loadUploadedDataset(fileName, result);
+    setFilters({ ...INITIAL_FILTERS });
+    clearSelection();
   };
 
   const clearAllFilters = () => {
     setFilters({ ...INITIAL_FILTERS });
-    setSort(null);
+    setSort([]);
+    setGroupBy(null);
   };
 
-  const handleExportCsv = () => {
-    if (!visibleRows.length) return;
-    const header = COLUMNS.map((col) => col.label);
-    const rows = visibleRows.map((row) => {
-      const rowPreAllocated = isRowPreAllocated(row);
-
-      return [
-        row.port_destination,
-        getDaysToArrival(row),
-        row.variety,
-        row.caliber_raw,
-        row.pack_format_raw,
-        row.box_count,
-        row.box_weight_kg,
-        row.line_weight_kg,
-        rowPreAllocated ? "true" : "false",
-        row.pallet_pl_id ?? "",
-      ].map(escapeCsv);
-    });
+  // Notes always travel with an export, even when their column is hidden.
+  const exportRowsCsv = (rows: EnrichedRow[], fileName: string) => {
+    if (!rows.length) return;
+    const keys: ColumnKey[] = columnKeys.includes("notes")
+      ? columnKeys
+      : [...columnKeys, "notes"];
+    const header = keys.map((key) => COLUMN_BY_KEY.get(key)?.label ?? key);
+    const values = rows.map((row) =>
+      keys.map((column) => getColumnValue(row, column, columnContext))
+    );
 
-    const csvContent = [
-      header.map(escapeCsv).join(","),
-      ...rows.map((row) => row.join(",")),
-    ].join("\n");
-    const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement("a");
-    link.href = url;
-    link.setAttribute("download", "lading-cockpit-visible-rows.csv");
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    downloadCsv(formatCsv([header, ...values]), fileName);
   };
 
-  const nowLabel = "As of 2025-11-09";
+  const handleExportCsv = () =>
+    exportRowsCsv(visibleRows, "lading-cockpit-visible-rows.csv");
+
+  const nowLabel = pinned
+    ? `As of ${now.toISOString().slice(0, 10)} (pinned)`
+    : `Live · ${formatDateTime(now.toISOString())}`;
 
   return (
     <main className="mx-auto max-w-7xl space-y-8 px-6 py-10">
@@ -460,49 +1357,213 @@ export default function Page() {
             </p>
           </div>
         </div>
+        <div className="flex flex-wrap items-end gap-4">
+          <ReferenceClockControl />
+          <label className="flex flex-col gap-1 text-xs font-medium uppercase tracking-wide text-slate-500">
+            Trader
+            <input
+              type="text"
+              value={traderName}
+              onChange={(event) => setTraderName(event.target.value)}
+              placeholder="Your name"
+              className="rounded-lg border border-slate-300 px-3 py-2 text-sm font-normal normal-case tracking-normal text-slate-800"
+            />
+          </label>
+        </div>
+      </section>
+
+      <section className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <DatasetPicker
+            datasets={dataset.datasets}
+            selected={dataset.name}
+            rejected={dataset.rejected}
+            onSelect={handleSelectDataset}
+            onUpload={handleUploadDataset}
+            onSaved={(name) => {
+              dataset.refreshDatasets();
+              dataset.selectDataset(name);
+            }}
+          />
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={() => setViewingAlerts(true)}
+              className="inline-flex items-center gap-2 rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm font-medium text-slate-800 hover:bg-slate-50"
+            >
+              Alerts
+              {activeAlertCount > 0 && (
+                <span className="rounded-full bg-rose-50 px-2 py-0.5 text-xs font-semibold text-rose-700">
+                  {activeAlertCount}
+                </span>
+              )}
+            </button>
+            <button
+              type="button"
+              onClick={() => setImporting(true)}
+              className="inline-flex items-center rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm font-medium text-slate-800 hover:bg-slate-50"
+            >
+              Import packing list (CSV/XLSX)
+            </button>
+            <button
+              type="button"
+              onClick={() => setEditingPrices(true)}
+              className="inline-flex items-center rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm font-medium text-slate-800 hover:bg-slate-50"
+            >
+              Prices &amp; costs
+            </button>
+            <button
+              type="button"
+              onClick={() => setEditingShelfLife(true)}
+              className="inline-flex items-center rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm font-medium text-slate-800 hover:bg-slate-50"
+            >
+              Shelf life
+            </button>
+            <button
+              type="button"
+              onClick={() => setEditingCodes(true)}
+              className="inline-flex items-center gap-2 rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm font-medium text-slate-800 hover:bg-slate-50"
+            >
+              Code mappings
+              {unmappedValues.length > 0 && (
+                <span className="rounded-full bg-amber-50 px-2 py-0.5 text-xs font-semibold text-amber-700">
+                  {unmappedValues.length} unmapped
+                </span>
+              )}
+            </button>
+          </div>
+        </div>
+        {dataset.error && (
+          <p className="mt-2 text-sm text-rose-600">{dataset.error}</p>
+        )}
+        {dataset.referenceError && (
+          <p className="mt-2 text-sm text-rose-600">
+            {dataset.referenceError}. Shipments, schedule changes or code
+            mappings are missing, and alerts are paused until they load.
+          </p>
+        )}
+        <div className="mt-2">
+          <ReferentialIssues issues={dataset.issues} />
+        </div>
       </section>
 
       <section className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
         <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
           <h2 className="text-base font-semibold text-slate-900">Filters</h2>
-          <button
-            type="button"
-            onClick={clearAllFilters}
-            className="text-sm font-medium text-emerald-600 hover:text-emerald-700"
-          >
-            Clear all
-          </button>
+          <div className="flex flex-wrap items-center gap-3">
+            <SavedViewsMenu
+              user={traderName.trim() || "anonymous"}
+              currentQuery={viewQuery}
+              onApply={applyViewQuery}
+            />
+            <button
+              type="button"
+              onClick={clearAllFilters}
+              className="text-sm font-medium text-emerald-600 hover:text-emerald-700"
+            >
+              Clear all
+            </button>
+          </div>
         </div>
         <div className="grid grid-cols-1 gap-6">
+          <input
+            type="search"
+            value={filters.search}
+            onChange={(event) =>
+              handleFilterChange("search", event.target.value)
+            }
+            placeholder="Search booking, container, vessel, voyage or pallet PL ID"
+            aria-label="Search"
+            className="w-full rounded-lg border border-slate-300 px-3 py-2 text-sm text-slate-800"
+          />
+          {filters.shipments.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 text-sm text-slate-600">
+              <span>Shipment:</span>
+              {filters.shipments.map((shipmentId) => (
+                <button
+                  key={shipmentId}
+                  type="button"
+                  onClick={() =>
+                    handleArrayFilterToggle("shipments", shipmentId)
+                  }
+                  className="inline-flex items-center gap-1 rounded-full border border-emerald-600 bg-emerald-50 px-3 py-1 font-medium text-emerald-700"
+                  aria-label={`Remove shipment filter ${shipmentId}`}
+                >
+                  {shipmentId} <span aria-hidden>×</span>
+                </button>
+              ))}
+            </div>
+          )}
+          <label className="inline-flex items-center gap-2 text-sm text-slate-700">
+            <input
+              type="checkbox"
+              checked={filters.hasNotes}
+              onChange={(event) =>
+                handleFilterChange("hasNotes", event.target.checked)
+              }
+              className="h-4 w-4 rounded border-slate-300 text-emerald-600 focus:ring-emerald-500"
+            />
+            Only lines with notes (on the line, container or shipment)
+          </label>
           <CheckboxGroup
             label="Port"
-            options={portOptions}
+            options={filterOptions.ports}
             selected={filters.ports}
             onToggle={(value) => handleArrayFilterToggle("ports", value)}
           />
+          <div className="flex items-center gap-2 text-sm text-slate-600">
+            <span>Caliber and pack format values:</span>
+            <div className="inline-flex rounded-full border border-slate-200 bg-white p-1">
+              {(
+                [
+                  ["raw", "As received"],
+                  ["canonical", "Canonical codes"],
+                ] as const
+              ).map(([mode, label]) => (
+                <button
+                  key={mode}
+                  type="button"
+                  onClick={() => handleValueModeChange(mode)}
+                  className={`rounded-full px-3 py-1 transition ${
+                    filters.valueMode === mode
+                      ? "bg-emerald-600 text-white"
+                      : "text-slate-600 hover:text-slate-900"
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
           <div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-3">
             <CheckboxGroup
               label="Variety"
-              options={VARIETIES}
+              options={filterOptions.varieties}
               selected={filters.varieties}
               onToggle={(value) => handleArrayFilterToggle("varieties", value)}
             />
             <CheckboxGroup
               label="Caliber"
-              options={CALIBERS}
+              options={filterOptions.calibers}
               selected={filters.calibers}
               onToggle={(value) => handleArrayFilterToggle("calibers", value)}
             />
             <CheckboxGroup
               label="Pack format"
-              options={PACK_FORMATS}
+              options={filterOptions.packFormats}
               selected={filters.packFormats}
               onToggle={(value) =>
                 handleArrayFilterToggle("packFormats", value)
               }
             />
           </div>
-          <div className="grid gap-4 md:grid-cols-2">
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+            <CheckboxGroup
+              label="Status"
+              options={STATUSES}
+              selected={filters.statuses}
+              onToggle={(value) => handleArrayFilterToggle("statuses", value)}
+            />
             <CheckboxGroup
               label="Days before arrival"
               options={ARRIVAL_OPTIONS}
@@ -512,11 +1573,55 @@ export default function Page() {
               }
             />
             <CheckboxGroup
-              label="Pre-allocated status"
-              options={PREALLOCATED_STATUS_OPTIONS}
-              selected={filters.preAllocatedStatuses}
+              label="Allocation status"
+              options={ALLOCATION_STATUS_OPTIONS}
+              selected={filters.allocationStatuses}
               onToggle={(value) =>
-                handlePreAllocatedToggle(value as PreAllocationOption)
+                handleAllocationStatusToggle(value as AllocationOption)
+              }
+            />
+            <CheckboxGroup
+              label="QC status"
+              options={QC_STATUSES}
+              selected={filters.qcStatuses}
+              onToggle={(value) => handleArrayFilterToggle("qcStatuses", value)}
+            />
+          </div>
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+            <RangeFilter
+              label="Boxes"
+              type="number"
+              from={toBoundInput(filters.boxCount.min)}
+              to={toBoundInput(filters.boxCount.max)}
+              onChange={(min, max) =>
+                handleFilterChange("boxCount", {
+                  min: parseNumberBound(min),
+                  max: parseNumberBound(max),
+                })
+              }
+            />
+            <RangeFilter
+              label="Line weight (kg)"
+              type="number"
+              from={toBoundInput(filters.lineWeightKg.min)}
+              to={toBoundInput(filters.lineWeightKg.max)}
+              onChange={(min, max) =>
+                handleFilterChange("lineWeightKg", {
+                  min: parseNumberBound(min),
+                  max: parseNumberBound(max),
+                })
+              }
+            />
+            <RangeFilter
+              label="ETA"
+              type="date"
+              from={toBoundInput(filters.etaRange.from)}
+              to={toBoundInput(filters.etaRange.to)}
+              onChange={(from, to) =>
+                handleFilterChange("etaRange", {
+                  from: from || null,
+                  to: to || null,
+                })
               }
             />
           </div>
@@ -524,7 +1629,37 @@ export default function Page() {
       </section>
 
       <section className="space-y-4">
-        <KPIBar totals={kpis} />
+        <KPIBar totals={kpis} currency={priceBook.currency} />
+        {priceBookError && (
+          <p className="rounded-lg border border-amber-200 bg-amber-50 px-4 py-2 text-sm text-amber-800">
+            {priceBookError}. Values and margins may be out of date.
+          </p>
+        )}
+        {alertsError && (
+          <p className="rounded-lg border border-amber-200 bg-amber-50 px-4 py-2 text-sm text-amber-800">
+            {alertsError}. Alerts may be out of date.
+          </p>
+        )}
+        {shelfLifeError && (
+          <p className="rounded-lg border border-amber-200 bg-amber-50 px-4 py-2 text-sm text-amber-800">
+            {shelfLifeError}. Shelf-life badges use the default settings.
+          </p>
+        )}
+        {inspectionsError && (
+          <p className="rounded-lg border border-amber-200 bg-amber-50 px-4 py-2 text-sm text-amber-800">
+            {inspectionsError}. QC results may be out of date.
+          </p>
+        )}
+        {notesError && (
+          <p className="rounded-lg border border-amber-200 bg-amber-50 px-4 py-2 text-sm text-amber-800">
+            {notesError}. Notes may not be saved.
+          </p>
+        )}
+        {allocationError && (
+          <p className="rounded-lg border border-amber-200 bg-amber-50 px-4 py-2 text-sm text-amber-800">
+            {allocationError}. Allocation changes may not be saved.
+          </p>
+        )}
         <div className="flex flex-wrap items-center justify-between gap-3">
           <div className="flex flex-wrap items-center gap-3">
             <h2 className="text-base font-semibold text-slate-900">
@@ -532,10 +1667,72 @@ export default function Page() {
             </h2>
             <ViewToggle viewMode={viewMode} onChange={setViewMode} />
           </div>
-          {viewMode === "lines" && (
+          <div className="flex flex-wrap gap-2">
+            {viewMode === "lines" && (
+              <label className="inline-flex items-center gap-2 text-sm text-slate-600">
+                Group by
+                <select
+                  value={groupBy ?? ""}
+                  onChange={(event) =>
+                    setGroupBy(
+                      isColumnKey(event.target.value)
+                        ? event.target.value
+                        : null
+                    )
+                  }
+                  className="rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm text-slate-800"
+                >
+                  <option value="">None</option>
+                  {COLUMNS.filter(
+                    (column) => !column.numeric && column.key !== "notes"
+                  ).map((column) => (
+                    <option key={column.key} value={column.key}>
+                      {column.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+            {viewMode === "lines" && (
+              <button
+                type="button"
+                onClick={() => setSort(SELL_FIRST_SORT)}
+                aria-pressed={sort[0]?.column === "shelf_life"}
+                title="Sort by shelf life left, then by age"
+                className={`inline-flex items-center rounded-lg border px-3 py-2 text-sm font-medium ${
+                  sort[0]?.column === "shelf_life"
+                    ? "border-emerald-600 bg-emerald-50 text-emerald-700"
+                    : "border-slate-300 bg-white text-slate-800 hover:bg-slate-50"
+                }`}
+              >
+                Sell first
+              </button>
+            )}
+            {viewMode === "lines" && (
+              <ColumnChooser
+                options={COLUMNS}
+                layout={{ ...columnLayout, columns: columnKeys }}
+                onChange={updateColumnLayout}
+                onReset={() => updateColumnLayout(DEFAULT_COLUMN_LAYOUT)}
+              />
+            )}
+            {viewMode === "lines" && (
+              <button
+                type="button"
+                onClick={handleExportCsv}
+                disabled={!visibleRows.length}
+                className={`inline-flex items-center rounded-lg border px-3 py-2 text-sm font-medium transition ${
+                  visibleRows.length
+                    ? "border-slate-300 bg-white text-slate-800 hover:bg-slate-50"
+                    : "cursor-not-allowed border-slate-200 bg-slate-100 text-slate-400"
+                }`}
+              >
+                Export visible rows (CSV)
+              </button>
+            )}
             <button
               type="button"
-              onClick={handleExportCsv}
+              onClick={handleExportXlsx}
               disabled={!visibleRows.length}
               className={`inline-flex items-center rounded-lg border px-3 py-2 text-sm font-medium transition ${
                 visibleRows.length
@@ -543,100 +1740,397 @@ export default function Page() {
                   : "cursor-not-allowed border-slate-200 bg-slate-100 text-slate-400"
               }`}
             >
-              Export visible rows (CSV)
+              Export workbook (XLSX)
             </button>
-          )}
+          </div>
         </div>
+        {exportError && <p className="text-sm text-rose-600">{exportError}</p>}
+        {viewMode === "lines" && columnLayoutError && (
+          <p className="text-sm text-rose-600">{columnLayoutError}</p>
+        )}
 
-        {viewMode === "lines" ? (
+        {viewMode === "lines" && (
           <>
+            {selectedRows.length > 0 && (
+              <BulkActionBar
+                count={selectedRows.length}
+                boxes={selectionTotals.boxes}
+                kg={selectionTotals.kg}
+                onAllocate={(customer) =>
+                  handleBulkAction({ kind: "allocate", customer })
+                }
+                onUnallocate={() => handleBulkAction({ kind: "unallocate" })}
+                onSetCost={handleSetLineCost}
+                onAddNote={(note) =>
+                  handleAddNotes(
+                    selectedRows.map((row) => ({
+                      target: "line",
+                      targetId: getRowKey(row),
+                      body: note,
+                    }))
+                  )
+                }
+                onExport={() =>
+                  exportRowsCsv(
+                    selectedRows,
+                    "lading-cockpit-selected-rows.csv"
+                  )
+                }
+                onClear={clearSelection}
+              />
+            )}
             <div className="overflow-x-auto rounded-xl border border-slate-200 bg-white shadow-sm">
               <table className="min-w-full text-left text-sm text-slate-700">
                 <thead className="bg-slate-50 text-xs uppercase tracking-wide text-slate-500">
                   <tr>
-                    {COLUMNS.map((column) => (
-                      <th key={column.key} className="px-4 py-3 font-semibold">
-                        <button
-                          type="button"
-                          onClick={() => handleSort(column.key)}
-                          className="flex items-center gap-1"
+                    <th className="w-10 px-4 py-3">
+                      <input
+                        type="checkbox"
+                        aria-label="Select all visible lines"
+                        checked={allVisibleSelected}
+                        ref={(input) => {
+                          if (input) {
+                            input.indeterminate =
+                              selectedRows.length > 0 && !allVisibleSelected;
+                          }
+                        }}
+                        onChange={(event) =>
+                          handleSelectAllVisible(event.target.checked)
+                        }
+                        className="h-4 w-4 rounded border-slate-300 text-emerald-600 focus:ring-emerald-500"
+                      />
+                    </th>
+                    {visibleColumns.map((column) => {
+                      const width = columnLayout.widths[column.key];
+                      return (
+                        <th
+                          key={column.key}
+                          draggable
+                          onDragStart={() => setDraggedColumn(column.key)}
+                          onDragOver={(event) => event.preventDefault()}
+                          onDrop={() => handleColumnDrop(column.key)}
+                          onDragEnd={() => setDraggedColumn(null)}
+                          style={width ? { width, minWidth: width } : undefined}
+                          className={`relative cursor-move px-4 py-3 font-semibold ${
+                            draggedColumn === column.key ? "bg-emerald-50" : ""
+                          }`}
                         >
-                          <span>{column.label}</span>
-                          <SortIndicator column={column.key} sort={sort} />
-                        </button>
-                      </th>
-                    ))}
+                          <button
+                            type="button"
+                            onClick={(event) =>
+                              handleSort(column.key, event.shiftKey)
+                            }
+                            title="Shift-click to add as a secondary sort"
+                            className="flex items-center gap-1"
+                          >
+                            <span>{column.label}</span>
+                            <SortIndicator column={column.key} sort={sort} />
+                          </button>
+                          <span
+                            role="separator"
+                            aria-orientation="vertical"
+                            aria-label={`Resize ${column.label}`}
+                            onMouseDown={(event) =>
+                              handleColumnResizeStart(event, column.key)
+                            }
+                            className="absolute inset-y-0 right-0 w-1.5 cursor-col-resize hover:bg-emerald-300"
+                          />
+                        </th>
+                      );
+                    })}
                   </tr>
                 </thead>
                 <tbody>
                   {visibleRows.map((row) => {
                     const rowKey = getRowKey(row);
-                    const daysToArrival = getDaysToArrival(row);
-                    const rowPreAllocated = isRowPreAllocated(row);
-                    const preAllocatedLabel = `Toggle pre-allocation for ${
-                      row.booking_reference || row.container_code || rowKey
-                    }`;
+                    const daysToArrival = getDaysToArrival(row.etaDate, now);
+                    const allocation = getAllocationSummary(row);
+                    const allocationRecord = allocations[rowKey];
+                    const weightCheck = reconciliationByContainer.get(
+                      row.container_id
+                    );
+                    const schedule = dataset.schedules.get(row.shipment_id);
+                    const subtotal = subtotalAfter.get(rowKey);
                     return (
-                      <tr
-                        key={rowKey}
-                        title={getRowTooltip(row)}
-                        aria-label={getRowTooltip(row)}
-                        className="border-t border-slate-100 hover:bg-slate-50"
-                      >
-                        <td className="px-4 py-3">{row.port_destination}</td>
-                        <td className="px-4 py-3">
-                          <div className="flex flex-wrap items-center gap-2">
-                            <span className="font-semibold">
-                              {formatInteger(daysToArrival)}
-                            </span>
-                            {isEtaWithinSevenDays(row.etaDate, FIXED_NOW) && (
-                              <span className="rounded-full bg-emerald-50 px-2 py-0.5 text-xs font-semibold text-emerald-700">
-                                ≤7d
-                              </span>
-                            )}
-                            {hasEtaPassed(row.etaDate, FIXED_NOW) && (
-                              <span className="rounded-full bg-amber-50 px-2 py-0.5 text-xs font-semibold text-amber-700">
-                                ETA passed
-                              </span>
-                            )}
-                          </div>
-                        </td>
-                        <td className="px-4 py-3 uppercase">{row.variety}</td>
-                        <td className="px-4 py-3 uppercase">
-                          {row.caliber_raw}
-                        </td>
-                        <td className="px-4 py-3 uppercase">
-                          {row.pack_format_raw}
-                        </td>
-                        <td className="px-4 py-3 text-right font-semibold">
-                          {formatInteger(row.box_count)}
-                        </td>
-                        <td className="px-4 py-3 text-right">
-                          {formatWeight(row.box_weight_kg)}
-                        </td>
-                        <td className="px-4 py-3 text-right">
-                          {formatWeight(row.line_weight_kg)}
-                        </td>
-                        <td className="px-4 py-3">
-                          <PreallocatedToggle
-                            checked={rowPreAllocated}
-                            onChange={() => handleTogglePreAllocated(row)}
-                            label={preAllocatedLabel}
+                      <Fragment key={rowKey}>
+                        <tr
+                          title={getRowTooltip(row)}
+                          aria-label={getRowTooltip(row)}
+                          className={`border-t border-slate-100 hover:bg-slate-50 ${
+                            selectedKeys.has(rowKey) ? "bg-emerald-50/60" : ""
+                          }`}
+                        >
+                          <td className="px-4 py-3">
+                            <input
+                              type="checkbox"
+                              aria-label="Select line"
+                              checked={selectedKeys.has(rowKey)}
+                              onChange={(event) =>
+                                handleSelectRow(
+                                  rowKey,
+                                  (event.nativeEvent as MouseEvent).shiftKey
+                                )
+                              }
+                              className="h-4 w-4 rounded border-slate-300 text-emerald-600 focus:ring-emerald-500"
+                            />
+                          </td>
+                          {visibleColumns.map((column) => {
+                            switch (column.key) {
+                              case "port_destination":
+                                return (
+                                  <td key={column.key} className="px-4 py-3">
+                                    <div className="flex flex-wrap items-center gap-2">
+                                      <span>{row.port_destination}</span>
+                                      {weightCheck?.status === "critical" &&
+                                        weightCheck.variancePct !==
+                                          undefined && (
+                                          <span
+                                            title={`Container ${weightCheck.container_code} packed weight differs from declared gross weight`}
+                                            className={`rounded-full px-2 py-0.5 text-xs font-semibold ${RECONCILIATION_BADGE_STYLES.critical}`}
+                                          >
+                                            Weight{" "}
+                                            {weightCheck.variancePct > 0
+                                              ? "+"
+                                              : ""}
+                                            {formatPercent(
+                                              weightCheck.variancePct
+                                            )}
+                                          </span>
+                                        )}
+                                    </div>
+                                  </td>
+                                );
+                              case "days_to_arrival":
+                                return (
+                                  <td key={column.key} className="px-4 py-3">
+                                    <div className="flex flex-wrap items-center gap-2">
+                                      <span className="font-semibold">
+                                        {formatInteger(daysToArrival)}
+                                      </span>
+                                      {isEtaWithinSevenDays(
+                                        row.etaDate,
+                                        now
+                                      ) && (
+                                        <span className="rounded-full bg-emerald-50 px-2 py-0.5 text-xs font-semibold text-emerald-700">
+                                          ≤7d
+                                        </span>
+                                      )}
+                                      {schedule && schedule.delayDays !== 0 && (
+                                        <span
+                                          title={`Original ETA ${schedule.originalEta.slice(0, 10)}`}
+                                          className={`rounded-full px-2 py-0.5 text-xs font-semibold ${delayBadgeClass(
+                                            schedule.delayDays
+                                          )}`}
+                                        >
+                                          {formatDelay(schedule.delayDays)}
+                                        </span>
+                                      )}
+                                      {hasEtaPassed(row.etaDate, now) && (
+                                        <span className="rounded-full bg-amber-50 px-2 py-0.5 text-xs font-semibold text-amber-700">
+                                          ETA passed
+                                        </span>
+                                      )}
+                                    </div>
+                                  </td>
+                                );
+                              case "status":
+                                return (
+                                  <td key={column.key} className="px-4 py-3">
+                                    <StatusBadge
+                                      status={computeStatus(row, now)}
+                                    />
+                                  </td>
+                                );
+                              case "variety":
+                                return (
+                                  <td
+                                    key={column.key}
+                                    className="px-4 py-3 uppercase"
+                                  >
+                                    {row.variety}
+                                  </td>
+                                );
+                              case "caliber_raw":
+                                return (
+                                  <td
+                                    key={column.key}
+                                    className="px-4 py-3 uppercase"
+                                  >
+                                    {getCaliber(row, filters.valueMode)}
+                                  </td>
+                                );
+                              case "pack_format_raw":
+                                return (
+                                  <td
+                                    key={column.key}
+                                    className="px-4 py-3 uppercase"
+                                  >
+                                    {getPackFormat(row, filters.valueMode)}
+                                  </td>
+                                );
+                              case "box_count":
+                                return (
+                                  <td
+                                    key={column.key}
+                                    className="px-4 py-3 text-right font-semibold"
+                                  >
+                                    {formatInteger(row.box_count)}
+                                  </td>
+                                );
+                              case "allocation":
+                                return (
+                                  <td key={column.key} className="px-4 py-3">
+                                    <div className="flex flex-col gap-1">
+                                      <AllocationBadge
+                                        summary={allocation}
+                                        label={`Edit allocations for ${
+                                          row.booking_reference ||
+                                          row.container_code ||
+                                          rowKey
+                                        }`}
+                                        onClick={() => setEditingRow(row)}
+                                      />
+                                      {allocationRecord && (
+                                        <span className="text-xs normal-case text-slate-400">
+                                          {allocationRecord.updatedBy} ·{" "}
+                                          {formatDateTime(
+                                            allocationRecord.updatedAt
+                                          )}
+                                        </span>
+                                      )}
+                                    </div>
+                                  </td>
+                                );
+                              case "qc": {
+                                const qc = getQc(row);
+                                return (
+                                  <td key={column.key} className="px-4 py-3">
+                                    <button
+                                      type="button"
+                                      onClick={() => setInspectingRow(row)}
+                                      aria-label={`QC for ${
+                                        row.pallet_pl_id || rowKey
+                                      }`}
+                                      className={`whitespace-nowrap rounded-full px-2 py-0.5 text-xs font-semibold ${QC_BADGE_STYLES[qc]}`}
+                                    >
+                                      {qc === "not_due" ? "—" : QC_LABELS[qc]}
+                                    </button>
+                                  </td>
+                                );
+                              }
+                              case "shelf_life": {
+                                const life = getShelfLife(row);
+                                return (
+                                  <td key={column.key} className="px-4 py-3">
+                                    <ShelfLifeBadge shelfLife={life} />
+                                  </td>
+                                );
+                              }
+                              case "notes": {
+                                const rowNotes = getNotes(row);
+                                return (
+                                  <td key={column.key} className="px-4 py-3">
+                                    <button
+                                      type="button"
+                                      onClick={() => setNotesRow(row)}
+                                      aria-label={`Notes for ${
+                                        row.pallet_pl_id || rowKey
+                                      }`}
+                                      title={
+                                        rowNotes.length
+                                          ? formatNotes(rowNotes)
+                                          : "Add a note"
+                                      }
+                                      className={`inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-semibold ${
+                                        rowNotes.length
+                                          ? "bg-sky-50 text-sky-700"
+                                          : "text-slate-400 hover:text-slate-600"
+                                      }`}
+                                    >
+                                      <span aria-hidden>✎</span>
+                                      {rowNotes.length > 0 && rowNotes.length}
+                                    </button>
+                                  </td>
+                                );
+                              }
+                              case "cost":
+                              case "revenue":
+                              case "margin":
+                              case "margin_pct": {
+                                const value = getColumnValue(
+                                  row,
+                                  column.key,
+                                  columnContext
+                                );
+                                return (
+                                  <td
+                                    key={column.key}
+                                    className={`px-4 py-3 text-right ${
+                                      typeof value === "number" && value < 0
+                                        ? "text-rose-600"
+                                        : ""
+                                    }`}
+                                  >
+                                    {typeof value !== "number"
+                                      ? "—"
+                                      : column.key === "margin_pct"
+                                        ? formatPercent(value)
+                                        : formatMoney(
+                                            value,
+                                            priceBook.currency
+                                          )}
+                                  </td>
+                                );
+                              }
+                              case "pallet_pl_id":
+                                return (
+                                  <td
+                                    key={column.key}
+                                    className="px-4 py-3 text-sm text-slate-600"
+                                  >
+                                    {row.pallet_pl_id || "—"}
+                                  </td>
+                                );
+                              default: {
+                                const value = getColumnValue(
+                                  row,
+                                  column.key,
+                                  columnContext
+                                );
+                                return (
+                                  <td
+                                    key={column.key}
+                                    className={`px-4 py-3 ${column.numeric ? "text-right" : ""}`}
+                                  >
+                                    {typeof value === "number"
+                                      ? column.key.endsWith("_kg")
+                                        ? formatWeight(value)
+                                        : formatInteger(value)
+                                      : value || "—"}
+                                  </td>
+                                );
+                              }
+                            }
+                          })}
+                        </tr>
+                        {subtotal && (
+                          <SubtotalRow
+                            group={subtotal}
+                            columns={visibleColumns}
                           />
-                        </td>
-                        <td className="px-4 py-3 text-sm text-slate-600">
-                          {row.pallet_pl_id || "—"}
-                        </td>
-                      </tr>
+                        )}
+                      </Fragment>
                     );
                   })}
                   {!visibleRows.length && (
                     <tr>
                       <td
-                        colSpan={COLUMNS.length}
+                        colSpan={visibleColumns.length + 1}
                         className="px-4 py-6 text-center text-sm text-slate-500"
                       >
-                        No matching lines
+                        {dataset.loading
+                          ? "Loading dataset…"
+                          : "No matching lines"}
                       </td>
                     </tr>
                   )}
@@ -660,7 +2154,9 @@ export default function Page() {
               shipments
             </p>
           </>
-        ) : (
+        )}
+        {viewMode === "hierarchy" && <HierarchyView groups={shipmentGroups} />}
+        {viewMode === "summary" && (
           <>
             <div className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
               <p className="mb-4 text-sm text-slate-600">
@@ -672,7 +2168,36 @@ export default function Page() {
                 <span className="font-semibold text-slate-900">
                   {formatKg(arrivalsSummary.totals.totalKg)}
                 </span>{" "}
+                {summaryMeasure !== "kg" && (
+                  <>
+                    · {summaryMeasure === "value" ? "Sale value" : "Margin"}:{" "}
+                    <span className="font-semibold text-slate-900">
+                      {formatMoney(
+                        summaryMeasure === "value"
+                          ? arrivalsSummary.totals.totalValue
+                          : arrivalsSummary.totals.totalMargin,
+                        priceBook.currency
+                      )}
+                    </span>
+                  </>
+                )}
               </p>
+              <label className="mb-4 flex w-48 flex-col gap-1 text-xs font-medium uppercase tracking-wide text-slate-500">
+                Measure
+                <select
+                  value={summaryMeasure}
+                  onChange={(event) =>
+                    setSummaryMeasure(event.target.value as SummaryMeasure)
+                  }
+                  className="rounded-lg border border-slate-300 px-2 py-1 text-sm normal-case text-slate-800"
+                >
+                  {SUMMARY_MEASURES.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
               <div className="overflow-x-auto">
                 <table className="min-w-full text-left text-sm text-slate-700">
                   <thead className="bg-slate-50 text-xs uppercase tracking-wide text-slate-500">
@@ -681,7 +2206,13 @@ export default function Page() {
                       <th className="px-4 py-3 font-semibold">
                         Days to arrival
                       </th>
-                      <th className="px-4 py-3 font-semibold">Total weight</th>
+                      <th className="px-4 py-3 font-semibold">
+                        {summaryMeasure === "kg"
+                          ? "Total weight"
+                          : summaryMeasure === "value"
+                            ? "Sale value"
+                            : "Margin"}
+                      </th>
                       <th className="px-4 py-3 font-semibold text-right">
                         Lines
                       </th>
@@ -696,16 +2227,36 @@ export default function Page() {
                         <td className="px-4 py-3 font-medium text-slate-900">
                           {group.port_destination}
                         </td>
-                        <td className="px-4 py-3">{group.daysToArrival}</td>
                         <td className="px-4 py-3">
-                          <div className="flex flex-col">
+                          <div className="flex flex-wrap items-center gap-2">
+                            <span>{group.daysToArrival}</span>
+                            {group.maxDelayDays > 0 && (
+                              <span className="rounded-full bg-amber-50 px-2 py-0.5 text-xs font-semibold text-amber-700">
+                                {formatDelay(group.maxDelayDays)}
+                              </span>
+                            )}
+                          </div>
+                        </td>
+                        <td className="px-4 py-3">
+                          {summaryMeasure === "kg" ? (
+                            <div className="flex flex-col">
+                              <span className="font-semibold">
+                                {formatKg(group.totalKg)}
+                              </span>
+                              <span className="text-xs text-slate-500">
+                                ({formatTons(group.totalKg)} t)
+                              </span>
+                            </div>
+                          ) : (
                             <span className="font-semibold">
-                              {formatKg(group.totalKg)}
+                              {formatMoney(
+                                summaryMeasure === "value"
+                                  ? group.totalValue
+                                  : group.totalMargin,
+                                priceBook.currency
+                              )}
                             </span>
-                            <span className="text-xs text-slate-500">
-                              ({formatTons(group.totalKg)} t)
-                            </span>
-                          </div>
+                          )}
                         </td>
                         <td className="px-4 py-3 text-right">
                           {group.lines.toLocaleString("en-US")}
@@ -728,13 +2279,141 @@ export default function Page() {
             </div>
           </>
         )}
+        {viewMode === "pivot" && (
+          <PivotView
+            rows={visibleRows}
+            config={pivotConfig}
+            context={pivotContext}
+            onConfigChange={setPivotConfig}
+          />
+        )}
+        {viewMode === "timeline" && (
+          <TimelineView
+            groups={shipmentGroups}
+            now={now}
+            settings={timelineSettings}
+            onSettingsChange={setTimelineSettings}
+            onSelectShipment={handleSelectShipment}
+          />
+        )}
+        {viewMode === "forecast" && (
+          <ForecastView
+            rows={visibleRows}
+            now={now}
+            includeAllocated={forecastIncludesAllocated}
+            onIncludeAllocatedChange={setForecastIncludesAllocated}
+            getUnallocatedKg={getUnallocatedKg}
+          />
+        )}
+        {viewMode === "reconciliation" && (
+          <ReconciliationView
+            reconciliations={reconciliations}
+            tolerance={tolerance}
+            onToleranceChange={setTolerance}
+          />
+        )}
       </section>
+      {editingCodes && (
+        <CodeMappingsEditor
+          user={traderName.trim() || "anonymous"}
+          rows={sourceData}
+          mappings={dataset.codeMappings}
+          onSave={dataset.updateCodeMappings}
+          onClose={() => setEditingCodes(false)}
+        />
+      )}
+      {viewingAlerts && (
+        <AlertInbox
+          alerts={alerts}
+          onAcknowledge={handleAcknowledgeAlert}
+          onSnooze={handleSnoozeAlert}
+          onEditRules={() => setEditingAlertRules(true)}
+          onClose={() => setViewingAlerts(false)}
+        />
+      )}
+      {editingAlertRules && (
+        <AlertRulesEditor
+          rules={alertRules ?? []}
+          ports={filterOptions.ports}
+          onSave={handleSaveAlertRules}
+          onClose={() => setEditingAlertRules(false)}
+        />
+      )}
+      {editingShelfLife && (
+        <ShelfLifeEditor
+          config={shelfLife}
+          products={filterOptions.products}
+          varieties={filterOptions.varieties}
+          onSave={handleSaveShelfLife}
+          onClose={() => setEditingShelfLife(false)}
+        />
+      )}
+      {editingPrices && (
+        <PriceBookEditor
+          book={priceBook}
+          shipments={Array.from(dataset.shipments.values())}
+          varieties={filterOptions.varieties}
+          onSave={handleSavePriceBook}
+          onClose={() => setEditingPrices(false)}
+        />
+      )}
+      {importing && (
+        <ImportWizard
+          user={traderName.trim() || "anonymous"}
+          onImport={handleUploadDataset}
+          onClose={() => setImporting(false)}
+        />
+      )}
+      {inspectingRow && (
+        <InspectionPanel
+          row={inspectingRow}
+          containerLineKeys={
+            containerLineKeys.get(inspectingRow.container_id) ?? [
+              getRowKey(inspectingRow),
+            ]
+          }
+          inspections={inspections
+            .filter((inspection) =>
+              inspection.lineKeys.includes(getRowKey(inspectingRow))
+            )
+            .sort((a, b) => b.inspectedAt.localeCompare(a.inspectedAt))}
+          onSave={handleSaveInspection}
+          onClose={() => setInspectingRow(null)}
+        />
+      )}
+      {notesRow && (
+        <NotesPanel
+          row={notesRow}
+          notes={getNotes(notesRow)}
+          onAdd={(input) => handleAddNotes([input])}
+          onClose={() => setNotesRow(null)}
+        />
+      )}
+      {editingRow && (
+        <AllocationEditor
+          item={editingRow}
+          record={allocations[getRowKey(editingRow)]}
+          blockedReason={
+            isAllocationBlocked(getQc(editingRow))
+              ? `This line is ${QC_LABELS[getQc(editingRow)].toLowerCase()} at QC`
+              : undefined
+          }
+          onSave={(lineAllocations, expectedUpdatedAt) =>
+            handleSaveAllocations(
+              editingRow,
+              lineAllocations,
+              expectedUpdatedAt
+            )
+          }
+          onClose={() => setEditingRow(null)}
+        />
+      )}
       <footer className="text-sm text-slate-500">
         Dataset loaded:{" "}
         <span className="font-semibold text-slate-900">
-          {SOURCE_DATA.length}
+          {sourceData.length}
         </span>{" "}
-        lines · {nowLabel}
+        lines · <span suppressHydrationWarning>{nowLabel}</span>
       </footer>
     </main>
   );
@@ -786,59 +2465,198 @@ const CheckboxGroup = ({
     </fieldset>
   );
 };
-const PreallocatedToggle = ({
-  checked,
+
+const RangeFilter = ({
+  label,
+  type,
+  from,
+  to,
   onChange,
+}: {
+  label: string;
+  type: "number" | "date";
+  from: string;
+  to: string;
+  onChange: (from: string, to: string) => void;
+}) => {
+  const inputClass =
+    "w-full rounded-lg border border-slate-300 bg-white px-2 py-1 text-sm text-slate-800";
+  return (
+    <fieldset className="rounded-xl border border-emerald-100 bg-emerald-50/40 p-4 text-sm text-slate-600 shadow-inner">
+      <legend className="mb-3 inline-flex items-center gap-2 rounded-full bg-emerald-600 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-white shadow">
+        {label}
+      </legend>
+      <div className="flex items-center gap-2">
+        <input
+          type={type}
+          min={type === "number" ? 0 : undefined}
+          value={from}
+          onChange={(event) => onChange(event.target.value, to)}
+          placeholder="Min"
+          aria-label={`${label} from`}
+          className={inputClass}
+        />
+        <span className="text-slate-400">–</span>
+        <input
+          type={type}
+          min={type === "number" ? 0 : undefined}
+          value={to}
+          onChange={(event) => onChange(from, event.target.value)}
+          placeholder="Max"
+          aria-label={`${label} to`}
+          className={inputClass}
+        />
+      </div>
+    </fieldset>
+  );
+};
+
+const ALLOCATION_BADGE_STYLES: Record<AllocationState, string> = {
+  allocated: "border-emerald-600 bg-emerald-50 text-emerald-700",
+  partial: "border-amber-300 bg-amber-50 text-amber-700",
+  unallocated: "border-slate-200 bg-white text-slate-600",
+};
+
+const AllocationBadge = ({
+  summary,
   label,
+  onClick,
 }: {
-  checked: boolean;
-  onChange: () => void;
+  summary: LineAllocationSummary;
   label: string;
+  onClick: () => void;
 }) => (
   <button
     type="button"
-    role="switch"
-    aria-checked={checked}
     aria-label={label}
-    onClick={onChange}
-    className={`relative inline-flex h-5 w-10 items-center rounded-full transition ${
-      checked ? "bg-emerald-600" : "bg-slate-300"
+    onClick={onClick}
+    className={`inline-flex w-fit items-center gap-1 rounded-full border px-2 py-0.5 text-xs font-semibold ${
+      ALLOCATION_BADGE_STYLES[summary.state]
     }`}
   >
-    <span
-      className={`inline-block h-4 w-4 transform rounded-full bg-white transition ${
-        checked ? "translate-x-5" : "translate-x-1"
-      }`}
-    />
+    {ALLOCATION_STATE_LABELS[summary.state]}
+    {summary.state === "partial" && (
+      <span className="font-normal">
+        {formatInteger(summary.remainingBoxes)} left
+      </span>
+    )}
   </button>
 );
 
+const ShelfLifeBadge = ({ shelfLife }: { shelfLife: LineShelfLife }) => {
+  if (shelfLife.daysLeft === null) {
+    return (
+      <span
+        className={`text-xs ${URGENCY_BADGE_STYLES.unknown}`}
+        title={
+          shelfLife.age === null
+            ? "No pack date"
+            : `${shelfLife.age} days since pack; no shelf life configured`
+        }
+      >
+        {shelfLife.age === null ? "—" : `${shelfLife.age} d old`}
+      </span>
+    );
+  }
+  return (
+    <span
+      className={`whitespace-nowrap rounded-full px-2 py-0.5 text-xs font-semibold ${
+        URGENCY_BADGE_STYLES[shelfLife.urgency]
+      }`}
+      title={`${URGENCY_LABELS[shelfLife.urgency]} · ${shelfLife.age} of ${
+        shelfLife.maxDays
+      } days used · ${shelfLife.ageAtArrival} days old at arrival`}
+    >
+      {shelfLife.daysLeft > 0
+        ? `${shelfLife.daysLeft} d left`
+        : `Expired${shelfLife.daysLeft < 0 ? ` ${-shelfLife.daysLeft} d ago` : ""}`}
+    </span>
+  );
+};
+
 const SortIndicator = ({
   column,
   sort,
 }: {
   column: ColumnKey;
-  sort: { column: ColumnKey; direction: "asc" | "desc" } | null;
+  sort: SortState<ColumnKey>[];
 }) => {
-  if (!sort || sort.column !== column) {
+  const index = sort.findIndex((key) => key.column === column);
+  if (index === -1) {
     return null;
   }
   return (
     <span aria-hidden="true" className="text-slate-500">
-      {sort.direction === "asc" ? "^" : "v"}
+      {sort[index].direction === "asc" ? "^" : "v"}
+      {sort.length > 1 && <sup className="ml-0.5 font-normal">{index + 1}</sup>}
     </span>
   );
 };
 
+// Totals sit under their own column when it is shown, otherwise in the label.
+const SubtotalRow = ({
+  group,
+  columns,
+}: {
+  group: LineGroup;
+  columns: ColumnDefinition[];
+}) => {
+  const hasColumn = (key: ColumnKey) =>
+    columns.slice(1).some((column) => column.key === key);
+  const label = [
+    group.key || "—",
+    `${formatInteger(group.rows.length)} line${group.rows.length === 1 ? "" : "s"}`,
+    !hasColumn("box_count") && `${formatInteger(group.boxes)} boxes`,
+    !hasColumn("line_weight_kg") && formatKg(Math.round(group.kg * 10) / 10),
+  ]
+    .filter(Boolean)
+    .join(" · ");
+  return (
+    <tr className="border-t border-slate-200 bg-slate-50 font-semibold text-slate-900">
+      <td className="px-4 py-2" />
+      {columns.map((column, index) => {
+        let content: string | null = null;
+        if (index === 0) content = `Subtotal · ${label}`;
+        else if (column.key === "box_count")
+          content = formatInteger(group.boxes);
+        else if (column.key === "line_weight_kg")
+          content = formatWeight(group.kg);
+        return (
+          <td
+            key={column.key}
+            className={`px-4 py-2 ${index > 0 && column.numeric ? "text-right" : ""}`}
+          >
+            {content}
+          </td>
+        );
+      })}
+    </tr>
+  );
+};
+
+const StatusBadge = ({ status }: { status: Status }) => (
+  <span
+    className={`whitespace-nowrap rounded-full px-2 py-0.5 text-xs font-semibold ${STATUS_BADGE_STYLES[status]}`}
+  >
+    {status}
+  </span>
+);
+
 const KPIBar = ({
   totals,
+  currency,
 }: {
   totals: {
     totalKg: number;
-    pctPreAllocated: number;
+    pctAllocated: number;
     pallets: number;
     totalBoxes: number;
+    byStatus: Record<Status, { kg: number; pallets: number }>;
+    inventoryValue: number;
+    allocatedValue: number;
+    unpricedLines: number;
   };
+  currency: string;
 }) => {
   const cards = [
     {
@@ -857,48 +2675,194 @@ const KPIBar = ({
       sub: "Total visible box count",
     },
     {
-      label: "% pre-allocated",
-      value: formatPercent(totals.pctPreAllocated),
-      sub: "Share of visible weight",
+      label: "% allocated",
+      value: formatPercent(totals.pctAllocated),
+      sub: "Allocated share of visible weight",
+    },
+    {
+      label: "Inventory value",
+      value: formatMoney(totals.inventoryValue, currency),
+      sub: totals.unpricedLines
+        ? `${totals.unpricedLines.toLocaleString("en-US")} lines without a price`
+        : "At agreed and target prices",
+    },
+    {
+      label: "Allocated value",
+      value: formatMoney(totals.allocatedValue, currency),
+      sub: "Allocated boxes at their price",
     },
   ];
 
   return (
-    <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
-      {cards.map((card) => (
-        <div
-          key={card.label}
-          className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm"
-        >
-          <p className="text-xs uppercase tracking-wide text-slate-500">
-            {card.label}
-          </p>
-          <p className="text-2xl font-semibold text-slate-900">{card.value}</p>
-          <p className="text-sm text-slate-500">{card.sub}</p>
-        </div>
-      ))}
+    <div className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6">
+        {cards.map((card) => (
+          <div
+            key={card.label}
+            className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm"
+          >
+            <p className="text-xs uppercase tracking-wide text-slate-500">
+              {card.label}
+            </p>
+            <p className="text-2xl font-semibold text-slate-900">
+              {card.value}
+            </p>
+            <p className="text-sm text-slate-500">{card.sub}</p>
+          </div>
+        ))}
+      </div>
+      <div className="grid gap-4 sm:grid-cols-3">
+        {STATUSES.map((status) => {
+          const entry = totals.byStatus[status];
+          return (
+            <div
+              key={status}
+              className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm"
+            >
+              <StatusBadge status={status} />
+              <p className="mt-2 text-xl font-semibold text-slate-900">
+                {formatKg(Math.round(entry.kg * 10) / 10)}
+              </p>
+              <p className="text-sm text-slate-500">
+                {entry.pallets.toLocaleString("en-US")} pallets ·{" "}
+                {formatPercent(
+                  totals.totalKg > 0 ? (entry.kg / totals.totalKg) * 100 : 0
+                )}{" "}
+                of weight
+              </p>
+            </div>
+          );
+        })}
+      </div>
     </div>
   );
 };
 
+interface ColumnContext {
+  now: Date;
+  valueMode: ValueMode;
+  getAllocation: (row: EnrichedRow) => LineAllocationSummary;
+  getNotes: (row: EnrichedRow) => Note[];
+  getLineValue: (row: EnrichedRow) => LineValue;
+  getQc: (row: EnrichedRow) => QcStatus;
+  getShelfLife: (row: EnrichedRow) => LineShelfLife;
+}
+
+const roundMoney = (value: number | null) =>
+  value === null ? "" : Math.round(value * 100) / 100;
+
+/** Plain value of a lines-table column, as shown in generic cells and CSV. */
+const getColumnValue = (
+  row: EnrichedRow,
+  column: ColumnKey,
+  {
+    now,
+    valueMode,
+    getAllocation,
+    getNotes,
+    getLineValue,
+    getQc,
+    getShelfLife,
+  }: ColumnContext
+): string | number => {
+  switch (column) {
+    case "days_to_arrival":
+      return getDaysToArrival(row.etaDate, now);
+    case "status":
+      return computeStatus(row, now);
+    case "allocation":
+      return getAllocation(row).state;
+    case "qc":
+      return QC_LABELS[getQc(row)];
+    case "age":
+      return getShelfLife(row).age ?? "";
+    case "age_at_arrival":
+      return getShelfLife(row).ageAtArrival ?? "";
+    case "shelf_life":
+      return getShelfLife(row).daysLeft ?? "";
+    case "pack_date":
+      return row.pack_date?.slice(0, 10) ?? "";
+    case "notes":
+      return formatNotes(getNotes(row));
+    case "cost":
+      return roundMoney(getLineValue(row).cost);
+    case "revenue":
+      return roundMoney(getLineValue(row).revenue);
+    case "margin":
+      return roundMoney(getLineValue(row).margin);
+    case "margin_pct":
+      return roundMoney(getLineValue(row).marginPct);
+    case "caliber_raw":
+      return getCaliber(row, valueMode);
+    case "pack_format_raw":
+      return getPackFormat(row, valueMode);
+    case "etd":
+      return row.etdDate.toISOString().slice(0, 10);
+    case "eta":
+      return row.etaDate.toISOString().slice(0, 10);
+    default:
+      return row[column] ?? "";
+  }
+};
+
 const getComparableValue = (
   row: EnrichedRow,
-  preAllocatedMap: Record<string, boolean>,
-  column: ColumnKey
+  column: ColumnKey,
+  {
+    now,
+    valueMode,
+    getAllocation,
+    getNotes,
+    getLineValue,
+    getQc,
+    getShelfLife,
+  }: ColumnContext
 ) => {
   switch (column) {
+    case "caliber_raw":
+      return getCaliber(row, valueMode).toLowerCase();
+    case "pack_format_raw":
+      return getPackFormat(row, valueMode).toLowerCase();
     case "days_to_arrival":
-      return getDaysToArrival(row);
-    case "pre_allocated":
-      return preAllocatedMap[row.stableKey] ? 1 : 0;
+      return getDaysToArrival(row.etaDate, now);
+    case "status":
+      return STATUSES.indexOf(computeStatus(row, now));
+    case "allocation": {
+      const { allocatedKg } = getAllocation(row);
+      return row.line_weight_kg ? allocatedKg / row.line_weight_kg : 0;
+    }
+    case "qc":
+      return QC_STATUSES.findIndex((option) => option.value === getQc(row));
+    // Untracked lines sort after every line with a known shelf life.
+    case "shelf_life":
+      return getShelfLife(row).daysLeft ?? Infinity;
+    case "age":
+      return getShelfLife(row).age ?? -Infinity;
+    case "age_at_arrival":
+      return getShelfLife(row).ageAtArrival ?? -Infinity;
     case "pallet_pl_id":
       return (row.pallet_pl_id ?? "").toLowerCase();
+    case "notes":
+      return getNotes(row).length;
+    // Lines without a value sort below every priced line.
+    case "cost":
+      return getLineValue(row).cost ?? -Infinity;
+    case "revenue":
+      return getLineValue(row).revenue ?? -Infinity;
+    case "margin":
+      return getLineValue(row).margin ?? -Infinity;
+    case "margin_pct":
+      return getLineValue(row).marginPct ?? -Infinity;
+    case "etd":
+      return row.etdDate.getTime();
+    case "eta":
+      return row.etaDate.getTime();
     case "box_count":
     case "box_weight_kg":
     case "line_weight_kg":
       return row[column] ?? 0;
     default: {
-      const value = row[column as keyof PalletItem];
+      const value = row[column];
       if (typeof value === "number") return value;
       return (value ?? "").toString().toLowerCase();
     }
@@ -909,12 +2873,17 @@ function ViewToggle({
   viewMode,
   onChange,
 }: {
-  viewMode: "lines" | "summary";
-  onChange: (mode: "lines" | "summary") => void;
+  viewMode: ViewMode;
+  onChange: (mode: ViewMode) => void;
 }) {
-  const options: Array<{ id: "lines" | "summary"; label: string }> = [
+  const options: Array<{ id: ViewMode; label: string }> = [
     { id: "lines", label: "Lines view" },
+    { id: "hierarchy", label: "By shipment" },
     { id: "summary", label: "Arrivals summary" },
+    { id: "pivot", label: "Pivot" },
+    { id: "timeline", label: "Timeline" },
+    { id: "forecast", label: "Weekly forecast" },
+    { id: "reconciliation", label: "Weight reconciliation" },
   ];
   return (
     <div className="inline-flex rounded-full border border-slate-200 bg-white p-1 text-sm">
@@ -0,0 +1,245 @@
+"use client";
+
+import Link from "next/link";
+import { useMemo } from "react";
+import { RECONCILIATION_BADGE_STYLES } from "@/components/ReconciliationView";
+import { useReferenceTime } from "@/components/ReferenceClock";
+import ScheduleEditor from "@/components/ScheduleEditor";
+import { computeStatus, getDaysToArrival } from "@/lib/filters";
+import { formatInteger, formatKg, formatPercent } from "@/lib/format";
+import { groupByShipment } from "@/lib/hierarchy";
+import {
+  DEFAULT_TOLERANCE,
+  reconcileContainers,
+  type ReconciliationTolerance,
+} from "@/lib/reconciliation";
+import { delayBadgeClass, formatDelay } from "@/lib/schedule";
+import { usePalletDataset } from "@/lib/usePalletDataset";
+import { useStoredState } from "@/lib/useStoredState";
+import { useTraderName } from "@/lib/useTraderName";
+
+const formatDate = (iso: string) => iso.slice(0, 10);
+
+export default function ShipmentPage({
+  params,
+}: {
+  params: { shipment_id: string };
+}) {
+  const shipmentId = decodeURIComponent(params.shipment_id);
+  const { now } = useReferenceTime();
+  const dataset = usePalletDataset();
+  const [traderName] = useTraderName();
+  const [tolerance] = useStoredState<ReconciliationTolerance>(
+    "weight-tolerance",
+    DEFAULT_TOLERANCE
+  );
+
+  const shipmentRows = useMemo(
+    () => dataset.rows.filter((row) => row.shipment_id === shipmentId),
+    [dataset.rows, shipmentId]
+  );
+  const group = useMemo(
+    () =>
+      groupByShipment(shipmentRows, dataset.shipments, dataset.containers)[0],
+    [shipmentRows, dataset.shipments, dataset.containers]
+  );
+  const reconciliations = useMemo(
+    () =>
+      new Map(
+        reconcileContainers(dataset.containers, shipmentRows, tolerance).map(
+          (entry) => [entry.container_id, entry] as const
+        )
+      ),
+    [dataset.containers, shipmentRows, tolerance]
+  );
+
+  const shipment = group?.shipment ?? dataset.shipments.get(shipmentId);
+  const schedule = dataset.schedules.get(shipmentId);
+
+  if (!shipment) {
+    return (
+      <main className="mx-auto max-w-5xl space-y-6 px-6 py-10">
+        <Link
+          href="/"
+          className="text-sm font-medium text-emerald-600 hover:text-emerald-700"
+        >
+          ← Back to cockpit
+        </Link>
+        <p className="text-sm text-slate-600">
+          {dataset.loading
+            ? "Loading shipment…"
+            : `Shipment ${shipmentId} is not in dataset ${dataset.name ?? ""}.`}
+        </p>
+      </main>
+    );
+  }
+
+  const details = [
+    { label: "Booking", value: shipment.booking_reference },
+    { label: "Carrier", value: shipment.carrier_name },
+    { label: "Vessel", value: shipment.vessel_name },
+    { label: "Voyage", value: shipment.voyage_number },
+    { label: "Origin", value: shipment.port_origin || "—" },
+    { label: "Destination", value: shipment.port_destination },
+    { label: "ETD", value: formatDate(shipment.etd) },
+    {
+      label: "ETA",
+      value:
+        schedule && schedule.delayDays !== 0
+          ? `${formatDate(shipment.eta)} (original ${formatDate(
+              schedule.originalEta
+            )})`
+          : formatDate(shipment.eta),
+    },
+  ];
+
+  return (
+    <main className="mx-auto max-w-5xl space-y-6 px-6 py-10">
+      <Link
+        href="/"
+        className="text-sm font-medium text-emerald-600 hover:text-emerald-700"
+      >
+        ← Back to cockpit
+      </Link>
+
+      <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="mb-4 flex flex-wrap items-baseline justify-between gap-3">
+          <h1 className="text-2xl font-semibold text-slate-900">
+            Shipment {shipment.shipment_id}
+          </h1>
+          {shipmentRows[0] && (
+            <p className="text-sm text-slate-600">
+              {computeStatus(shipmentRows[0], now)} ·{" "}
+              {formatInteger(getDaysToArrival(shipmentRows[0].etaDate, now))}{" "}
+              days to arrival
+              {schedule && schedule.delayDays !== 0 && (
+                <span
+                  className={`ml-2 rounded-full px-2 py-0.5 text-xs font-semibold ${delayBadgeClass(
+                    schedule.delayDays
+                  )}`}
+                >
+                  {formatDelay(schedule.delayDays)}
+                </span>
+              )}
+            </p>
+          )}
+        </div>
+        <dl className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+          {details.map((detail) => (
+            <div key={detail.label}>
+              <dt className="text-xs uppercase tracking-wide text-slate-500">
+                {detail.label}
+              </dt>
+              <dd className="text-sm font-semibold text-slate-900">
+                {detail.value}
+              </dd>
+            </div>
+          ))}
+        </dl>
+      </section>
+
+      {schedule && (
+        <section className="space-y-3">
+          <h2 className="text-base font-semibold text-slate-900">Schedule</h2>
+          <ScheduleEditor
+            schedule={schedule}
+            onSave={(change) =>
+              dataset.recordScheduleChange(
+                change,
+                traderName.trim() || "anonymous"
+              )
+            }
+          />
+        </section>
+      )}
+
+      <section className="space-y-3">
+        <h2 className="text-base font-semibold text-slate-900">
+          Containers ({formatInteger(group?.containers.length ?? 0)})
+        </h2>
+        <div className="overflow-x-auto rounded-xl border border-slate-200 bg-white shadow-sm">
+          <table className="min-w-full text-left text-sm text-slate-700">
+            <thead className="bg-slate-50 text-xs uppercase tracking-wide text-slate-500">
+              <tr>
+                <th className="px-4 py-3 font-semibold">Container</th>
+                <th className="px-4 py-3 text-right font-semibold">Lines</th>
+                <th className="px-4 py-3 text-right font-semibold">Boxes</th>
+                <th className="px-4 py-3 text-right font-semibold">Packed</th>
+                <th className="px-4 py-3 text-right font-semibold">Declared</th>
+                <th className="px-4 py-3 font-semibold">Weight check</th>
+              </tr>
+            </thead>
+            <tbody>
+              {group?.containers.map((entry) => {
+                const check = reconciliations.get(entry.container.container_id);
+                return (
+                  <tr
+                    key={entry.container.container_id}
+                    className="border-t border-slate-100"
+                  >
+                    <td className="px-4 py-3 font-medium text-slate-900">
+                      {entry.container.container_code}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      {formatInteger(entry.rows.length)}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      {formatInteger(entry.boxes)}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      {formatKg(Math.round(entry.kg * 10) / 10)}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      {entry.container.gross_weight_kg !== undefined
+                        ? formatKg(entry.container.gross_weight_kg)
+                        : "—"}
+                    </td>
+                    <td className="px-4 py-3">
+                      {check?.variancePct !== undefined ? (
+                        <span
+                          className={`rounded-full px-2 py-0.5 text-xs font-semibold ${
+                            RECONCILIATION_BADGE_STYLES[check.status]
+                          }`}
+                        >
+                          {check.variancePct > 0 ? "+" : ""}
+                          {formatPercent(check.variancePct)}
+                        </span>
+                      ) : (
+                        "—"
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+              {group && (
+                <tr className="border-t border-slate-200 bg-slate-50 font-semibold text-slate-900">
+                  <td className="px-4 py-3">Total</td>
+                  <td className="px-4 py-3 text-right">
+                    {formatInteger(group.lines)}
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    {formatInteger(group.boxes)}
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    {formatKg(Math.round(group.kg * 10) / 10)}
+                  </td>
+                  <td className="px-4 py-3" colSpan={2} />
+                </tr>
+              )}
+              {!group && (
+                <tr>
+                  <td
+                    colSpan={6}
+                    className="px-4 py-6 text-center text-sm text-slate-500"
+                  >
+                    No pallet lines for this shipment in the current dataset.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,261 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  SNOOZE_OPTIONS,
+  fetchOutbox,
+  flushOutbox,
+  isAlertActive,
+} from "@/lib/alerts";
+import { formatDateTime } from "@/lib/format";
+import type { Alert, OutboxMessage } from "@/types";
+
+const OUTBOX_BADGE_STYLES: Record<OutboxMessage["status"], string> = {
+  queued: "bg-slate-100 text-slate-700",
+  sent: "bg-emerald-50 text-emerald-700",
+  failed: "bg-rose-50 text-rose-700",
+};
+
+const describeState = (alert: Alert, now: Date) => {
+  if (alert.resolvedAt) return `Resolved ${formatDateTime(alert.resolvedAt)}`;
+  if (alert.acknowledgedAt) {
+    return `Acknowledged by ${alert.acknowledgedBy} · ${formatDateTime(
+      alert.acknowledgedAt
+    )}`;
+  }
+  if (alert.snoozedUntil && Date.parse(alert.snoozedUntil) > now.getTime()) {
+    return `Snoozed until ${formatDateTime(alert.snoozedUntil)}`;
+  }
+  return null;
+};
+
+export default function AlertInbox({
+  alerts,
+  onAcknowledge,
+  onSnooze,
+  onEditRules,
+  onClose,
+}: {
+  alerts: Alert[];
+  onAcknowledge: (id: string) => Promise<void>;
+  onSnooze: (id: string, hours: number) => Promise<void>;
+  onEditRules: () => void;
+  onClose: () => void;
+}) {
+  const [showAll, setShowAll] = useState(false);
+  const [outbox, setOutbox] = useState<OutboxMessage[]>([]);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchOutbox()
+      .then(setOutbox)
+      .catch((loadError) => setError((loadError as Error).message));
+  }, [alerts]);
+
+  const now = new Date();
+  const listed = alerts
+    .filter((alert) => showAll || isAlertActive(alert, now))
+    .sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt));
+  const recentOutbox = [...outbox]
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, 50);
+  const undelivered = outbox.filter((message) => message.status !== "sent");
+
+  const run = async (key: string, action: () => Promise<void>) => {
+    setBusy(key);
+    setError(null);
+    try {
+      await action();
+    } catch (actionError) {
+      setError((actionError as Error).message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label="Alerts"
+      className="fixed inset-0 z-20 flex items-center justify-center bg-slate-900/40 p-4"
+    >
+      <div className="flex max-h-full w-full max-w-3xl flex-col gap-4 overflow-hidden rounded-2xl bg-white p-6 shadow-xl">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-base font-semibold text-slate-900">Alerts</h2>
+            <p className="text-sm text-slate-500">
+              Raised by the alert rules on saved datasets; an alert resolves by
+              itself once its rule no longer finds it.
+            </p>
+          </div>
+          <div className="flex items-center gap-4">
+            <button
+              type="button"
+              onClick={onEditRules}
+              className="text-sm font-medium text-emerald-600 hover:text-emerald-700"
+            >
+              Rules
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              className="text-sm font-medium text-slate-500 hover:text-slate-700"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+
+        <div className="space-y-6 overflow-y-auto">
+          <section className="space-y-2">
+            <label className="inline-flex items-center gap-2 text-sm text-slate-700">
+              <input
+                type="checkbox"
+                checked={showAll}
+                onChange={(event) => setShowAll(event.target.checked)}
+                className="h-4 w-4 rounded border-slate-300 text-emerald-600 focus:ring-emerald-500"
+              />
+              Show acknowledged, snoozed and resolved alerts
+            </label>
+            {listed.map((alert) => {
+              const state = describeState(alert, now);
+              return (
+                <div
+                  key={alert.id}
+                  className="space-y-2 rounded-lg border border-slate-200 p-3"
+                >
+                  <div className="flex flex-wrap items-center gap-2 text-xs text-slate-500">
+                    <span className="font-semibold text-slate-700">
+                      {alert.ruleName}
+                    </span>
+                    <span>· {alert.dataset}</span>
+                    <span>· since {formatDateTime(alert.firstSeenAt)}</span>
+                    {state && (
+                      <span className="font-medium text-slate-700">
+                        · {state}
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-sm text-slate-800">{alert.message}</p>
+                  {!alert.resolvedAt && !alert.acknowledgedAt && (
+                    <div className="flex flex-wrap items-center gap-2">
+                      <button
+                        type="button"
+                        disabled={busy === alert.id}
+                        onClick={() =>
+                          run(alert.id, () => onAcknowledge(alert.id))
+                        }
+                        className="rounded-lg border border-slate-300 px-2 py-1 text-xs font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-60"
+                      >
+                        Acknowledge
+                      </button>
+                      <select
+                        value=""
+                        disabled={busy === alert.id}
+                        onChange={(event) => {
+                          const hours = Number(event.target.value);
+                          if (!hours) return;
+                          run(alert.id, () => onSnooze(alert.id, hours));
+                        }}
+                        aria-label="Snooze"
+                        className="rounded-lg border border-slate-300 px-2 py-1 text-xs text-slate-700"
+                      >
+                        <option value="">Snooze…</option>
+                        {SNOOZE_OPTIONS.map((option) => (
+                          <option key={option.hours} value={option.hours}>
+                            {option.label}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+            {!listed.length && (
+              <p className="text-sm text-slate-500">
+                {showAll ? "No alerts yet." : "Nothing needs attention."}
+              </p>
+            )}
+          </section>
+
+          <section className="space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <h3 className="text-sm font-semibold text-slate-900">
+                Notifications
+              </h3>
+              {undelivered.length > 0 && (
+                <button
+                  type="button"
+                  disabled={busy === "outbox"}
+                  onClick={() =>
+                    run("outbox", async () => setOutbox(await flushOutbox()))
+                  }
+                  className="text-sm font-medium text-emerald-600 hover:text-emerald-700 disabled:opacity-60"
+                >
+                  Retry delivery ({undelivered.length})
+                </button>
+              )}
+            </div>
+            <table className="min-w-full text-left text-sm text-slate-700">
+              <thead className="bg-slate-50 text-xs uppercase tracking-wide text-slate-500">
+                <tr>
+                  <th className="px-3 py-2 font-semibold">Status</th>
+                  <th className="px-3 py-2 font-semibold">To</th>
+                  <th className="px-3 py-2 font-semibold">Subject</th>
+                  <th className="px-3 py-2 font-semibold">Queued</th>
+                </tr>
+              </thead>
+              <tbody>
+                {recentOutbox.map((message) => (
+                  <tr key={message.id} className="border-t border-slate-100">
+                    <td className="px-3 py-2">
+                      <span
+                        className={`rounded-full px-2 py-0.5 text-xs font-semibold ${
+                          OUTBOX_BADGE_STYLES[message.status]
+                        }`}
+                        title={message.lastError}
+                      >
+                        {message.status}
+                      </span>
+                    </td>
+                    <td className="break-all px-3 py-2">
+                      {message.channel === "email" ? "✉ " : "↗ "}
+                      {message.to}
+                    </td>
+                    <td className="px-3 py-2">
+                      {message.subject}
+                      {message.lastError && (
+                        <p className="text-xs text-rose-600">
+                          {message.lastError} (attempt {message.attempts})
+                        </p>
+                      )}
+                    </td>
+                    <td className="whitespace-nowrap px-3 py-2 text-xs text-slate-500">
+                      {formatDateTime(message.createdAt)}
+                    </td>
+                  </tr>
+                ))}
+                {!recentOutbox.length && (
+                  <tr>
+                    <td
+                      colSpan={4}
+                      className="px-3 py-4 text-center text-sm text-slate-500"
+                    >
+                      No notifications sent yet. Add a webhook or email
+                      addresses to a rule to be notified.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </section>
+        </div>
+
+        {error && <p className="text-sm text-rose-600">{error}</p>}
+      </div>
+    </div>
+  );
+}
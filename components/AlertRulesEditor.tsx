@@ -0,0 +1,325 @@
+"use client";
+
+import { useState } from "react";
+import { ALERT_RULE_KINDS, describeRule } from "@/lib/alerts";
+import { formatDateTime } from "@/lib/format";
+import type { AlertRule, AlertRuleKind } from "@/types";
+
+const inputClass =
+  "w-full rounded-lg border border-slate-300 px-2 py-1 text-sm text-slate-800";
+
+const labelClass =
+  "flex flex-col gap-1 text-xs font-medium uppercase tracking-wide text-slate-500";
+
+const THRESHOLDS: Record<
+  AlertRuleKind,
+  Array<{ key: "withinDays" | "minKg" | "graceDays" | "minPct"; label: string }>
+> = {
+  unallocated_arrivals: [
+    { key: "withinDays", label: "Arriving within (days)" },
+    { key: "minKg", label: "Unallocated above (kg)" },
+  ],
+  arrival_unconfirmed: [{ key: "graceDays", label: "Days past ETA" }],
+  weight_variance: [{ key: "minPct", label: "Variance above (%)" }],
+};
+
+interface DraftRule {
+  id?: string;
+  name: string;
+  kind: AlertRuleKind;
+  enabled: boolean;
+  port: string;
+  withinDays: string;
+  minKg: string;
+  graceDays: string;
+  minPct: string;
+  webhookUrl: string;
+  emails: string;
+}
+
+const toDraft = (rule: AlertRule): DraftRule => ({
+  id: rule.id,
+  name: rule.name,
+  kind: rule.kind,
+  enabled: rule.enabled,
+  port: rule.port ?? "",
+  withinDays: `${rule.withinDays ?? 7}`,
+  minKg: `${rule.minKg ?? 0}`,
+  graceDays: `${rule.graceDays ?? 2}`,
+  minPct: `${rule.minPct ?? 3}`,
+  webhookUrl: rule.webhookUrl ?? "",
+  emails: (rule.emails ?? []).join(", "),
+});
+
+const NEW_RULE: DraftRule = {
+  ...toDraft({ id: "", name: "", kind: "unallocated_arrivals", enabled: true }),
+  id: undefined,
+};
+
+export default function AlertRulesEditor({
+  rules,
+  ports,
+  onSave,
+  onClose,
+}: {
+  rules: AlertRule[];
+  ports: string[];
+  onSave: (rules: AlertRule[]) => Promise<void>;
+  onClose: () => void;
+}) {
+  const [drafts, setDrafts] = useState<DraftRule[]>(() => rules.map(toDraft));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const savedSummaries = new Map(
+    rules.map((rule) => [
+      rule.id,
+      rule.updatedBy && rule.updatedAt
+        ? `${describeRule(rule)} · ${rule.updatedBy}, ${formatDateTime(
+            rule.updatedAt
+          )}`
+        : describeRule(rule),
+    ])
+  );
+
+  const updateDraft = (index: number, patch: Partial<DraftRule>) =>
+    setDrafts((prev) =>
+      prev.map((draft, position) =>
+        position === index ? { ...draft, ...patch } : draft
+      )
+    );
+
+  const handleSave = async () => {
+    const nextRules: AlertRule[] = [];
+    for (const draft of drafts) {
+      const name = draft.name.trim();
+      if (!name) {
+        setError("Every rule needs a name.");
+        return;
+      }
+      const rule: AlertRule = {
+        id: draft.id ?? "",
+        name,
+        kind: draft.kind,
+        enabled: draft.enabled,
+      };
+      for (const { key, label } of THRESHOLDS[draft.kind]) {
+        const value = Number(draft[key]);
+        if (!draft[key].trim() || !Number.isFinite(value) || value < 0) {
+          setError(`${label} of ${name} must be zero or more.`);
+          return;
+        }
+        rule[key] = value;
+      }
+      if (draft.kind === "unallocated_arrivals" && draft.port.trim()) {
+        rule.port = draft.port.trim();
+      }
+      if (draft.webhookUrl.trim()) rule.webhookUrl = draft.webhookUrl.trim();
+      const emails = draft.emails
+        .split(",")
+        .map((email) => email.trim())
+        .filter(Boolean);
+      if (emails.length) rule.emails = emails;
+      nextRules.push(rule);
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave(nextRules);
+      onClose();
+    } catch (saveError) {
+      setError((saveError as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label="Alert rules"
+      className="fixed inset-0 z-30 flex items-center justify-center bg-slate-900/40 p-4"
+    >
+      <div className="flex max-h-full w-full max-w-3xl flex-col gap-4 overflow-hidden rounded-2xl bg-white p-6 shadow-xl">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-base font-semibold text-slate-900">
+              Alert rules
+            </h2>
+            <p className="text-sm text-slate-500">
+              Rules are shared by everyone and checked against the whole
+              dataset, whatever the filters. New alerts are posted to the
+              webhook and emailed to the listed addresses.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-sm font-medium text-slate-500 hover:text-slate-700"
+          >
+            Close
+          </button>
+        </div>
+
+        <datalist id="alert-rule-ports">
+          {ports.map((port) => (
+            <option key={port} value={port} />
+          ))}
+        </datalist>
+        <div className="space-y-4 overflow-y-auto">
+          {drafts.map((draft, index) => (
+            <div
+              key={draft.id ?? `new-${index}`}
+              className="space-y-3 rounded-lg border border-slate-200 p-3"
+            >
+              <div className="grid gap-3 sm:grid-cols-2">
+                <label className={labelClass}>
+                  Name
+                  <input
+                    value={draft.name}
+                    onChange={(event) =>
+                      updateDraft(index, { name: event.target.value })
+                    }
+                    className={inputClass}
+                  />
+                </label>
+                <label className={labelClass}>
+                  Alert when
+                  <select
+                    value={draft.kind}
+                    onChange={(event) =>
+                      updateDraft(index, {
+                        kind: event.target.value as AlertRuleKind,
+                      })
+                    }
+                    className={inputClass}
+                  >
+                    {ALERT_RULE_KINDS.map((option) => (
+                      <option key={option.kind} value={option.kind}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+              <div className="grid gap-3 sm:grid-cols-3">
+                {draft.kind === "unallocated_arrivals" && (
+                  <label className={labelClass}>
+                    Port
+                    <input
+                      value={draft.port}
+                      onChange={(event) =>
+                        updateDraft(index, { port: event.target.value })
+                      }
+                      list="alert-rule-ports"
+                      placeholder="Any"
+                      className={inputClass}
+                    />
+                  </label>
+                )}
+                {THRESHOLDS[draft.kind].map(({ key, label }) => (
+                  <label key={key} className={labelClass}>
+                    {label}
+                    <input
+                      value={draft[key]}
+                      onChange={(event) =>
+                        updateDraft(index, { [key]: event.target.value })
+                      }
+                      inputMode="decimal"
+                      className={`${inputClass} text-right`}
+                    />
+                  </label>
+                ))}
+              </div>
+              <div className="grid gap-3 sm:grid-cols-2">
+                <label className={labelClass}>
+                  Webhook URL
+                  <input
+                    value={draft.webhookUrl}
+                    onChange={(event) =>
+                      updateDraft(index, { webhookUrl: event.target.value })
+                    }
+                    placeholder="https://…"
+                    className={inputClass}
+                  />
+                </label>
+                <label className={labelClass}>
+                  Email to (comma-separated)
+                  <input
+                    value={draft.emails}
+                    onChange={(event) =>
+                      updateDraft(index, { emails: event.target.value })
+                    }
+                    placeholder="trader@example.com"
+                    className={inputClass}
+                  />
+                </label>
+              </div>
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <label className="inline-flex items-center gap-2 text-sm text-slate-700">
+                  <input
+                    type="checkbox"
+                    checked={draft.enabled}
+                    onChange={(event) =>
+                      updateDraft(index, { enabled: event.target.checked })
+                    }
+                    className="h-4 w-4 rounded border-slate-300 text-emerald-600 focus:ring-emerald-500"
+                  />
+                  Enabled
+                </label>
+                {draft.id && savedSummaries.has(draft.id) && (
+                  <span className="text-xs text-slate-500">
+                    Saved: {savedSummaries.get(draft.id)}
+                  </span>
+                )}
+                <button
+                  type="button"
+                  onClick={() =>
+                    setDrafts((prev) =>
+                      prev.filter((_, position) => position !== index)
+                    )
+                  }
+                  className="text-xs font-medium text-rose-600 hover:text-rose-700"
+                >
+                  Remove
+                </button>
+              </div>
+            </div>
+          ))}
+          {!drafts.length && (
+            <p className="text-sm text-slate-500">No alert rules yet.</p>
+          )}
+          <button
+            type="button"
+            onClick={() => setDrafts((prev) => [...prev, { ...NEW_RULE }])}
+            className="text-sm font-medium text-emerald-600 hover:text-emerald-700"
+          >
+            + Add rule
+          </button>
+        </div>
+
+        {error && <p className="text-sm text-rose-600">{error}</p>}
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-lg border border-slate-300 px-3 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={saving}
+            className="rounded-lg bg-emerald-600 px-3 py-2 text-sm font-medium text-white hover:bg-emerald-700 disabled:opacity-60"
+          >
+            {saving ? "Saving…" : "Save rules"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,321 @@
+"use client";
+
+import { useState } from "react";
+import { addsAllocatedBoxes, getKgPerBox } from "@/lib/allocations";
+import type {
+  AllocationInput,
+  LineAllocationRecord,
+  PalletItem,
+} from "@/types";
+
+interface DraftAllocation {
+  id?: string;
+  customer: string;
+  boxes: string;
+  price_per_box: string;
+  note: string;
+}
+
+const toDraft = (
+  item: PalletItem,
+  record: LineAllocationRecord | undefined
+): DraftAllocation[] => {
+  if (record?.preAllocated && !record.allocations?.length) {
+    return [
+      {
+        customer: "",
+        boxes: `${item.box_count}`,
+        price_per_box: "",
+        note: "Pre-allocated before customer split",
+      },
+    ];
+  }
+  return (record?.allocations ?? []).map((allocation) => ({
+    id: allocation.id,
+    customer: allocation.customer,
+    boxes: `${allocation.boxes}`,
+    price_per_box:
+      allocation.price_per_box === undefined
+        ? ""
+        : `${allocation.price_per_box}`,
+    note: allocation.note ?? "",
+  }));
+};
+
+const EMPTY_DRAFT: DraftAllocation = {
+  customer: "",
+  boxes: "",
+  price_per_box: "",
+  note: "",
+};
+
+const inputClass =
+  "w-full rounded-lg border border-slate-300 px-2 py-1 text-sm text-slate-800";
+
+export default function AllocationEditor({
+  item,
+  record,
+  blockedReason,
+  onSave,
+  onClose,
+}: {
+  item: PalletItem & { stableKey: string };
+  record: LineAllocationRecord | undefined;
+  /** Set while QC blocks new allocations; existing ones can still shrink. */
+  blockedReason?: string;
+  /** `expectedUpdatedAt` is the record's version when the editor opened. */
+  onSave: (
+    allocations: AllocationInput[],
+    expectedUpdatedAt: string | null
+  ) => Promise<void>;
+  onClose: () => void;
+}) {
+  // Refreshes of `record` while editing must not move the save's baseline.
+  const [opened] = useState(record);
+  const [drafts, setDrafts] = useState<DraftAllocation[]>(() =>
+    toDraft(item, opened)
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const kgPerBox = getKgPerBox(item);
+  const allocatedBoxes = drafts.reduce(
+    (sum, draft) => sum + (Number.parseInt(draft.boxes, 10) || 0),
+    0
+  );
+  const remainingBoxes = item.box_count - allocatedBoxes;
+
+  const updateDraft = (
+    index: number,
+    key: keyof DraftAllocation,
+    value: string
+  ) => {
+    setDrafts((prev) =>
+      prev.map((draft, position) =>
+        position === index ? { ...draft, [key]: value } : draft
+      )
+    );
+  };
+
+  const addDraft = () => {
+    setDrafts((prev) => [
+      ...prev,
+      { ...EMPTY_DRAFT, boxes: remainingBoxes > 0 ? `${remainingBoxes}` : "" },
+    ]);
+  };
+
+  const removeDraft = (index: number) => {
+    setDrafts((prev) => prev.filter((_, position) => position !== index));
+  };
+
+  const handleSave = async () => {
+    const allocations: AllocationInput[] = [];
+    for (const draft of drafts) {
+      const customer = draft.customer.trim();
+      const boxes = Number(draft.boxes);
+      if (!customer) {
+        setError("Every allocation needs a customer.");
+        return;
+      }
+      if (!Number.isInteger(boxes) || boxes <= 0) {
+        setError(`Boxes for ${customer} must be a positive whole number.`);
+        return;
+      }
+      const price = draft.price_per_box.trim()
+        ? Number(draft.price_per_box)
+        : undefined;
+      if (price !== undefined && (Number.isNaN(price) || price < 0)) {
+        setError(`Price for ${customer} must be a non-negative number.`);
+        return;
+      }
+      allocations.push({
+        id: draft.id,
+        customer,
+        boxes,
+        price_per_box: price,
+        note: draft.note.trim() || undefined,
+      });
+    }
+    if (blockedReason && addsAllocatedBoxes(opened, allocations)) {
+      setError(`${blockedReason}: allocations can only be reduced.`);
+      return;
+    }
+    if (remainingBoxes < 0) {
+      setError(
+        `Allocated ${allocatedBoxes} boxes but the line only has ${item.box_count}.`
+      );
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave(allocations, opened?.updatedAt ?? null);
+      onClose();
+    } catch (saveError) {
+      setError((saveError as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label={`Allocations for ${item.pallet_pl_id || item.stableKey}`}
+      className="fixed inset-0 z-20 flex items-center justify-center bg-slate-900/40 p-4"
+    >
+      <div className="w-full max-w-3xl space-y-4 rounded-2xl bg-white p-6 shadow-xl">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-base font-semibold text-slate-900">
+              Allocate {item.pallet_pl_id || item.container_code}
+            </h2>
+            <p className="text-sm text-slate-500">
+              {item.variety} · {item.caliber_raw} · {item.pack_format_raw} ·{" "}
+              {item.box_count.toLocaleString("en-US")} boxes
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-sm font-medium text-slate-500 hover:text-slate-700"
+          >
+            Close
+          </button>
+        </div>
+
+        {blockedReason && (
+          <p className="rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800">
+            {blockedReason}. Existing allocations can be reduced or removed, but
+            no boxes can be added.
+          </p>
+        )}
+
+        <table className="min-w-full text-left text-sm text-slate-700">
+          <thead className="bg-slate-50 text-xs uppercase tracking-wide text-slate-500">
+            <tr>
+              <th className="px-2 py-2 font-semibold">Customer</th>
+              <th className="px-2 py-2 font-semibold">Boxes</th>
+              <th className="px-2 py-2 font-semibold">Price / box</th>
+              <th className="px-2 py-2 font-semibold">Note</th>
+              <th className="px-2 py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {drafts.map((draft, index) => (
+              <tr key={draft.id ?? `new-${index}`} className="border-t">
+                <td className="px-2 py-2">
+                  <input
+                    className={inputClass}
+                    value={draft.customer}
+                    onChange={(event) =>
+                      updateDraft(index, "customer", event.target.value)
+                    }
+                  />
+                </td>
+                <td className="w-24 px-2 py-2">
+                  <input
+                    className={inputClass}
+                    inputMode="numeric"
+                    value={draft.boxes}
+                    onChange={(event) =>
+                      updateDraft(index, "boxes", event.target.value)
+                    }
+                  />
+                </td>
+                <td className="w-28 px-2 py-2">
+                  <input
+                    className={inputClass}
+                    inputMode="decimal"
+                    value={draft.price_per_box}
+                    onChange={(event) =>
+                      updateDraft(index, "price_per_box", event.target.value)
+                    }
+                  />
+                </td>
+                <td className="px-2 py-2">
+                  <input
+                    className={inputClass}
+                    value={draft.note}
+                    onChange={(event) =>
+                      updateDraft(index, "note", event.target.value)
+                    }
+                  />
+                </td>
+                <td className="px-2 py-2 text-right">
+                  <button
+                    type="button"
+                    onClick={() => removeDraft(index)}
+                    className="text-xs font-medium text-rose-600 hover:text-rose-700"
+                  >
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+            {!drafts.length && (
+              <tr>
+                <td
+                  colSpan={5}
+                  className="px-2 py-4 text-center text-sm text-slate-500"
+                >
+                  No allocations yet.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <button
+            type="button"
+            onClick={addDraft}
+            disabled={Boolean(blockedReason)}
+            className="text-sm font-medium text-emerald-600 hover:text-emerald-700 disabled:text-slate-400"
+          >
+            + Add customer
+          </button>
+          <p
+            className={`text-sm ${
+              remainingBoxes < 0 ? "text-rose-600" : "text-slate-600"
+            }`}
+          >
+            Remaining:{" "}
+            <span className="font-semibold">
+              {remainingBoxes.toLocaleString("en-US")}
+            </span>{" "}
+            boxes ·{" "}
+            <span className="font-semibold">
+              {(remainingBoxes * kgPerBox).toLocaleString("en-US", {
+                maximumFractionDigits: 1,
+              })}
+            </span>{" "}
+            kg
+          </p>
+        </div>
+
+        {error && <p className="text-sm text-rose-600">{error}</p>}
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-lg border border-slate-300 px-3 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={saving}
+            className="rounded-lg bg-emerald-600 px-3 py-2 text-sm font-medium text-white hover:bg-emerald-700 disabled:opacity-60"
+          >
+            {saving ? "Saving…" : "Save allocations"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+"use client";
+
+import { useState } from "react";
+import { formatInteger, formatKg } from "@/lib/format";
+import type { PriceUnit, UnitPrice } from "@/types";
+
+const inputClass =
+  "rounded-lg border border-slate-300 px-2 py-1 text-sm text-slate-800";
+const buttonClass =
+  "rounded-lg border border-slate-300 bg-white px-3 py-1 text-sm font-medium text-slate-800 hover:bg-slate-50 disabled:opacity-60";
+
+export default function BulkActionBar({
+  count,
+  boxes,
+  kg,
+  onAllocate,
+  onUnallocate,
+  onSetCost,
+  onAddNote,
+  onExport,
+  onClear,
+}: {
+  count: number;
+  boxes: number;
+  kg: number;
+  onAllocate: (customer: string) => Promise<void>;
+  onUnallocate: () => Promise<void>;
+  onSetCost: (cost: UnitPrice) => Promise<void>;
+  onAddNote: (note: string) => Promise<void>;
+  onExport: () => void;
+  onClear: () => void;
+}) {
+  const [customer, setCustomer] = useState("");
+  const [note, setNote] = useState("");
+  const [costAmount, setCostAmount] = useState("");
+  const [costUnit, setCostUnit] = useState<PriceUnit>("kg");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>, reset?: () => void) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      reset?.();
+    } catch (actionError) {
+      setError((actionError as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="sticky top-0 z-10 space-y-2 rounded-xl border border-emerald-200 bg-emerald-50 px-4 py-3 text-sm shadow-sm">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="font-semibold text-slate-900">
+          {formatInteger(count)} selected
+        </span>
+        <span className="text-slate-600">
+          {formatInteger(boxes)} boxes · {formatKg(Math.round(kg * 10) / 10)}
+        </span>
+        <form
+          onSubmit={(event) => {
+            event.preventDefault();
+            if (!customer.trim()) return;
+            run(
+              () => onAllocate(customer.trim()),
+              () => setCustomer("")
+            );
+          }}
+          className="flex items-center gap-2"
+        >
+          <input
+            value={customer}
+            onChange={(event) => setCustomer(event.target.value)}
+            placeholder="Customer"
+            aria-label="Customer"
+            className={inputClass}
+          />
+          <button
+            type="submit"
+            disabled={busy || !customer.trim()}
+            className={buttonClass}
+          >
+            Allocate remaining
+          </button>
+        </form>
+        <button
+          type="button"
+          onClick={() => run(onUnallocate)}
+          disabled={busy}
+          className={buttonClass}
+        >
+          Unallocate
+        </button>
+        <form
+          onSubmit={(event) => {
+            event.preventDefault();
+            const amount = Number(costAmount);
+            if (!costAmount.trim() || !Number.isFinite(amount) || amount < 0) {
+              setError(`"${costAmount}" is not a valid cost`);
+              return;
+            }
+            run(
+              () => onSetCost({ amount, unit: costUnit }),
+              () => setCostAmount("")
+            );
+          }}
+          className="flex items-center gap-2"
+        >
+          <input
+            value={costAmount}
+            onChange={(event) => setCostAmount(event.target.value)}
+            inputMode="decimal"
+            placeholder="Cost"
+            aria-label="Cost"
+            className={`${inputClass} w-24 text-right`}
+          />
+          <select
+            value={costUnit}
+            onChange={(event) => setCostUnit(event.target.value as PriceUnit)}
+            aria-label="Cost unit"
+            className={inputClass}
+          >
+            <option value="kg">/ kg</option>
+            <option value="box">/ box</option>
+          </select>
+          <button
+            type="submit"
+            disabled={busy || !costAmount.trim()}
+            className={buttonClass}
+          >
+            Set cost
+          </button>
+        </form>
+        <form
+          onSubmit={(event) => {
+            event.preventDefault();
+            if (!note.trim()) return;
+            run(
+              () => onAddNote(note.trim()),
+              () => setNote("")
+            );
+          }}
+          className="flex items-center gap-2"
+        >
+          <input
+            value={note}
+            onChange={(event) => setNote(event.target.value)}
+            placeholder="Note"
+            aria-label="Note"
+            className={inputClass}
+          />
+          <button
+            type="submit"
+            disabled={busy || !note.trim()}
+            className={buttonClass}
+          >
+            Add note
+          </button>
+        </form>
+        <button type="button" onClick={onExport} className={buttonClass}>
+          Export selection (CSV)
+        </button>
+        <button
+          type="button"
+          onClick={onClear}
+          className="ml-auto text-sm font-medium text-slate-500 hover:text-slate-700"
+        >
+          Clear selection
+        </button>
+      </div>
+      {error && <p className="text-rose-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import {
+  CODE_FIELDS,
+  fetchCodeMappings,
+  summarizeRawValues,
+} from "@/lib/codes";
+import { formatDateTime } from "@/lib/format";
+import type { CodeField, CodeMappings, PalletItem } from "@/types";
+
+const inputClass =
+  "w-full rounded-lg border border-slate-300 px-2 py-1 text-sm text-slate-800 disabled:bg-slate-50";
+
+type Draft = Pick<CodeMappings, CodeField>;
+
+export default function CodeMappingsEditor({
+  user,
+  rows,
+  mappings,
+  onSave,
+  onClose,
+}: {
+  user: string;
+  rows: PalletItem[];
+  mappings: CodeMappings;
+  onSave: (mappings: Draft, user: string) => Promise<void>;
+  onClose: () => void;
+}) {
+  const [draft, setDraft] = useState<Draft>({
+    caliber: { ...mappings.caliber },
+    pack_format: { ...mappings.pack_format },
+  });
+  const [canEdit, setCanEdit] = useState(false);
+  const [unmappedOnly, setUnmappedOnly] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchCodeMappings(user)
+      .then((result) => setCanEdit(result.canEdit))
+      .catch((loadError) => setError((loadError as Error).message));
+  }, [user]);
+
+  const usage = useMemo(() => summarizeRawValues(rows), [rows]);
+
+  // A code on the line itself (not from the table) is shown as a placeholder.
+  const allEntries = usage.map((entry) => ({
+    ...entry,
+    lineCode: mappings[entry.field][entry.key] ? null : entry.code,
+    mapped: draft[entry.field][entry.key] ?? "",
+  }));
+  const unmapped = allEntries.filter(
+    (entry) => !entry.mapped && !entry.lineCode
+  );
+  const entries = unmappedOnly ? unmapped : allEntries;
+  const unmappedCount = unmapped.length;
+
+  const updateCode = (field: CodeField, key: string, code: string) => {
+    setDraft((prev) => {
+      const table = { ...prev[field] };
+      if (code.trim()) table[key] = code;
+      else delete table[key];
+      return { ...prev, [field]: table };
+    });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave(draft, user);
+      onClose();
+    } catch (saveError) {
+      setError((saveError as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label="Code mappings"
+      className="fixed inset-0 z-20 flex items-center justify-center bg-slate-900/40 p-4"
+    >
+      <div className="flex max-h-full w-full max-w-3xl flex-col gap-4 overflow-hidden rounded-2xl bg-white p-6 shadow-xl">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-base font-semibold text-slate-900">
+              Caliber and pack-format codes
+            </h2>
+            <p className="text-sm text-slate-500">
+              Raw values are matched ignoring case and extra spaces.
+              {mappings.updatedBy && mappings.updatedAt && (
+                <>
+                  {" "}
+                  Last changed by {mappings.updatedBy} ·{" "}
+                  {formatDateTime(mappings.updatedAt)}.
+                </>
+              )}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-sm font-medium text-slate-500 hover:text-slate-700"
+          >
+            Close
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-3 text-sm">
+          <label className="inline-flex items-center gap-2 text-slate-700">
+            <input
+              type="checkbox"
+              checked={unmappedOnly}
+              onChange={(event) => setUnmappedOnly(event.target.checked)}
+              className="h-4 w-4 rounded border-slate-300 text-emerald-600 focus:ring-emerald-500"
+            />
+            Unmapped values only
+          </label>
+          <span
+            className={
+              unmappedCount ? "font-medium text-amber-700" : "text-slate-500"
+            }
+          >
+            {unmappedCount.toLocaleString("en-US")} unmapped value
+            {unmappedCount === 1 ? "" : "s"}
+          </span>
+        </div>
+        {!canEdit && (
+          <p className="rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800">
+            Only admins can change the mapping tables.
+          </p>
+        )}
+
+        <div className="overflow-y-auto">
+          <table className="min-w-full text-left text-sm text-slate-700">
+            <thead className="bg-slate-50 text-xs uppercase tracking-wide text-slate-500">
+              <tr>
+                <th className="px-3 py-2 font-semibold">Field</th>
+                <th className="px-3 py-2 font-semibold">Raw value</th>
+                <th className="px-3 py-2 text-right font-semibold">Lines</th>
+                <th className="px-3 py-2 font-semibold">Canonical code</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((entry) => (
+                <tr
+                  key={`${entry.field}|${entry.key}`}
+                  className="border-t border-slate-100"
+                >
+                  <td className="px-3 py-2 text-slate-500">
+                    {CODE_FIELDS.find((item) => item.field === entry.field)
+                      ?.label ?? entry.field}
+                  </td>
+                  <td className="px-3 py-2 font-medium text-slate-900">
+                    {entry.spellings.join(", ")}
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    {entry.lines.toLocaleString("en-US")}
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      value={entry.mapped}
+                      onChange={(event) =>
+                        updateCode(entry.field, entry.key, event.target.value)
+                      }
+                      placeholder={entry.lineCode ?? "Unmapped"}
+                      disabled={!canEdit}
+                      className={inputClass}
+                    />
+                  </td>
+                </tr>
+              ))}
+              {!entries.length && (
+                <tr>
+                  <td
+                    colSpan={4}
+                    className="px-3 py-6 text-center text-sm text-slate-500"
+                  >
+                    {unmappedOnly
+                      ? "Every value in this dataset has a code."
+                      : "No lines loaded."}
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {error && <p className="text-sm text-rose-600">{error}</p>}
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-lg border border-slate-300 px-3 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={!canEdit || saving}
+            className="rounded-lg bg-emerald-600 px-3 py-2 text-sm font-medium text-white hover:bg-emerald-700 disabled:opacity-60"
+          >
+            {saving ? "Saving…" : "Save mappings"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+"use client";
+
+import { useState } from "react";
+import { moveColumn } from "@/lib/columnLayout";
+import type { ColumnLayout } from "@/types";
+
+export default function ColumnChooser({
+  options,
+  layout,
+  onChange,
+  onReset,
+}: {
+  options: Array<{ key: string; label: string }>;
+  layout: ColumnLayout;
+  /** `persist: false` while a drag is still in progress. */
+  onChange: (layout: ColumnLayout, persist?: boolean) => void;
+  onReset: () => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [dragging, setDragging] = useState<string | null>(null);
+
+  const labelOf = (key: string) =>
+    options.find((option) => option.key === key)?.label ?? key;
+  const hidden = options.filter(
+    (option) => !layout.columns.includes(option.key)
+  );
+
+  const toggle = (key: string) =>
+    onChange({
+      ...layout,
+      columns: layout.columns.includes(key)
+        ? layout.columns.filter((column) => column !== key)
+        : [...layout.columns, key],
+    });
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen((value) => !value)}
+        aria-expanded={open}
+        className="inline-flex items-center rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm font-medium text-slate-800 hover:bg-slate-50"
+      >
+        Columns ({layout.columns.length}/{options.length})
+      </button>
+      {open && (
+        <div className="absolute right-0 z-10 mt-2 max-h-96 w-72 overflow-y-auto rounded-xl border border-slate-200 bg-white p-3 text-sm shadow-lg">
+          <div className="mb-2 flex items-center justify-between">
+            <span className="text-xs font-medium uppercase tracking-wide text-slate-500">
+              Shown · drag to reorder
+            </span>
+            <button
+              type="button"
+              onClick={onReset}
+              className="text-xs font-medium text-emerald-600 hover:text-emerald-700"
+            >
+              Reset
+            </button>
+          </div>
+          <ul className="space-y-1">
+            {layout.columns.map((key) => (
+              <li
+                key={key}
+                draggable
+                onDragStart={() => setDragging(key)}
+                onDragEnd={() => {
+                  setDragging(null);
+                  onChange(layout);
+                }}
+                onDragOver={(event) => {
+                  event.preventDefault();
+                  if (!dragging || dragging === key) return;
+                  onChange(
+                    {
+                      ...layout,
+                      columns: moveColumn(layout.columns, dragging, key),
+                    },
+                    false
+                  );
+                }}
+                className={`flex cursor-move items-center gap-2 rounded-lg border px-2 py-1 ${
+                  dragging === key
+                    ? "border-emerald-300 bg-emerald-50"
+                    : "border-slate-100"
+                }`}
+              >
+                <span aria-hidden className="text-slate-400">
+                  ⋮⋮
+                </span>
+                <label className="flex flex-1 items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked
+                    onChange={() => toggle(key)}
+                    disabled={layout.columns.length === 1}
+                    className="h-4 w-4 rounded border-slate-300 text-emerald-600 focus:ring-emerald-500"
+                  />
+                  {labelOf(key)}
+                </label>
+              </li>
+            ))}
+          </ul>
+          {hidden.length > 0 && (
+            <>
+              <p className="mb-2 mt-3 text-xs font-medium uppercase tracking-wide text-slate-500">
+                Hidden
+              </p>
+              <ul className="space-y-1">
+                {hidden.map((option) => (
+                  <li key={option.key} className="px-2 py-1">
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={false}
+                        onChange={() => toggle(option.key)}
+                        className="h-4 w-4 rounded border-slate-300 text-emerald-600 focus:ring-emerald-500"
+                      />
+                      {option.label}
+                    </label>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
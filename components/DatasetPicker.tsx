@@ -0,0 +1,183 @@
+"use client";
+
+import { useState } from "react";
+import {
+  saveDataset,
+  validatePalletDataset,
+  type DatasetValidation,
+} from "@/lib/dataset";
+import { UPLOAD_PREFIX } from "@/lib/usePalletDataset";
+import type { DatasetSummary, RejectedLine } from "@/types";
+
+const MAX_LISTED_REJECTIONS = 20;
+
+const toDatasetName = (fileName: string) =>
+  fileName
+    .replace(/\.json$/i, "")
+    .replace(/[^\w-]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+export default function DatasetPicker({
+  datasets,
+  selected,
+  rejected,
+  onSelect,
+  onUpload,
+  onSaved,
+}: {
+  datasets: DatasetSummary[];
+  selected: string | null;
+  rejected: RejectedLine[];
+  onSelect: (name: string) => void;
+  onUpload: (fileName: string, result: DatasetValidation) => void;
+  onSaved: (name: string) => void;
+}) {
+  const [dragging, setDragging] = useState(false);
+  const [upload, setUpload] = useState<{
+    fileName: string;
+    result: DatasetValidation;
+  } | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleFile = async (file: File) => {
+    setMessage(null);
+    let payload: unknown;
+    try {
+      payload = JSON.parse(await file.text());
+    } catch {
+      setUpload(null);
+      setMessage(`${file.name} is not valid JSON.`);
+      return;
+    }
+    const result = validatePalletDataset(payload);
+    setUpload({ fileName: file.name, result });
+    if (result.items.length) onUpload(file.name, result);
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setDragging(false);
+    const file = event.dataTransfer.files[0];
+    if (file) handleFile(file);
+  };
+
+  const handleSave = async () => {
+    if (!upload) return;
+    const name = toDatasetName(upload.fileName);
+    try {
+      await saveDataset(name, upload.result.items);
+      setMessage(`Saved as data/${name}.json.`);
+      setUpload(null);
+      onSaved(name);
+    } catch (error) {
+      setMessage((error as Error).message);
+    }
+  };
+
+  const isUpload = selected?.startsWith(UPLOAD_PREFIX) ?? false;
+  const report = upload?.result.rejected ?? (isUpload ? [] : rejected);
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="flex flex-col gap-1 text-xs font-medium uppercase tracking-wide text-slate-500">
+          Dataset
+          <select
+            value={selected ?? ""}
+            onChange={(event) => {
+              setUpload(null);
+              setMessage(null);
+              onSelect(event.target.value);
+            }}
+            className="rounded-lg border border-slate-300 px-3 py-2 text-sm font-normal normal-case tracking-normal text-slate-800"
+          >
+            {isUpload && selected && (
+              <option value={selected}>
+                {selected.slice(UPLOAD_PREFIX.length)} (uploaded)
+              </option>
+            )}
+            {datasets.map((dataset) => (
+              <option key={dataset.name} value={dataset.name}>
+                {dataset.name} ({dataset.lines.toLocaleString("en-US")} lines)
+              </option>
+            ))}
+          </select>
+        </label>
+        <div
+          onDragOver={(event) => {
+            event.preventDefault();
+            setDragging(true);
+          }}
+          onDragLeave={() => setDragging(false)}
+          onDrop={handleDrop}
+          className={`flex items-center gap-2 rounded-lg border border-dashed px-3 py-2 text-sm ${
+            dragging
+              ? "border-emerald-500 bg-emerald-50 text-emerald-700"
+              : "border-slate-300 text-slate-500"
+          }`}
+        >
+          Drop a JSON export or
+          <label className="cursor-pointer font-medium text-emerald-600 hover:text-emerald-700">
+            browse
+            <input
+              type="file"
+              accept="application/json,.json"
+              className="sr-only"
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                if (file) handleFile(file);
+                event.target.value = "";
+              }}
+            />
+          </label>
+        </div>
+      </div>
+
+      {upload && (
+        <p className="text-sm text-slate-600">
+          {upload.fileName}:{" "}
+          <span className="font-semibold text-slate-900">
+            {upload.result.items.length.toLocaleString("en-US")}
+          </span>{" "}
+          lines accepted ·{" "}
+          <span className="font-semibold text-slate-900">
+            {upload.result.rejected.length.toLocaleString("en-US")}
+          </span>{" "}
+          rejected
+          {upload.result.items.length > 0 && (
+            <>
+              {" "}
+              ·{" "}
+              <button
+                type="button"
+                onClick={handleSave}
+                className="font-medium text-emerald-600 hover:text-emerald-700"
+              >
+                Save to data/
+              </button>
+            </>
+          )}
+        </p>
+      )}
+      {message && <p className="text-sm text-slate-600">{message}</p>}
+      {report.length > 0 && (
+        <details className="rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800">
+          <summary className="cursor-pointer font-medium">
+            {report.length.toLocaleString("en-US")} rejected lines
+          </summary>
+          <ul className="mt-2 space-y-1">
+            {report.slice(0, MAX_LISTED_REJECTIONS).map((line) => (
+              <li key={line.index}>
+                {line.index >= 0 ? `Line ${line.index + 1}: ` : ""}
+                {line.reasons.join("; ")}
+              </li>
+            ))}
+            {report.length > MAX_LISTED_REJECTIONS && (
+              <li>…and {report.length - MAX_LISTED_REJECTIONS} more</li>
+            )}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+}
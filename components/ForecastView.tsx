@@ -0,0 +1,246 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { formatTons } from "@/lib/format";
+import { buildForecast, getWeekDeltas } from "@/lib/forecast";
+import type { EnrichedRow } from "@/types";
+
+const VARIETY_COLORS = [
+  "bg-emerald-500",
+  "bg-sky-500",
+  "bg-amber-500",
+  "bg-violet-500",
+  "bg-rose-500",
+  "bg-teal-500",
+  "bg-orange-500",
+  "bg-slate-500",
+];
+
+const selectClass =
+  "rounded-lg border border-slate-300 px-3 py-2 text-sm font-normal normal-case tracking-normal text-slate-800";
+const labelClass =
+  "flex flex-col gap-1 text-xs font-medium uppercase tracking-wide text-slate-500";
+
+const ALL_PORTS = "";
+
+// Changes under 50 kg round to 0.0 t and would only add noise.
+const Delta = ({ kg }: { kg: number | null }) => {
+  if (kg === null || Math.abs(kg) < 50) return null;
+  return (
+    <span
+      className={`block text-xs ${kg > 0 ? "text-emerald-600" : "text-rose-600"}`}
+    >
+      {kg > 0 ? "▲ +" : "▼ −"}
+      {formatTons(Math.abs(kg))}
+    </span>
+  );
+};
+
+export default function ForecastView({
+  rows,
+  now,
+  includeAllocated,
+  onIncludeAllocatedChange,
+  getUnallocatedKg,
+}: {
+  rows: EnrichedRow[];
+  now: Date;
+  includeAllocated: boolean;
+  onIncludeAllocatedChange: (include: boolean) => void;
+  getUnallocatedKg: (row: EnrichedRow) => number;
+}) {
+  const [chartPort, setChartPort] = useState(ALL_PORTS);
+
+  const forecast = useMemo(
+    () =>
+      buildForecast(rows, now, (row) =>
+        includeAllocated ? (row.line_weight_kg ?? 0) : getUnallocatedKg(row)
+      ),
+    [rows, now, includeAllocated, getUnallocatedKg]
+  );
+
+  const ports = Array.from(new Set(forecast.series.map((s) => s.port)));
+  const varieties = Array.from(
+    new Set(forecast.series.map((s) => s.variety))
+  ).sort((a, b) => a.localeCompare(b));
+  const colorOf = (variety: string) =>
+    VARIETY_COLORS[varieties.indexOf(variety) % VARIETY_COLORS.length];
+
+  // Chart stacks varieties per week, for one port or all of them.
+  const chart = forecast.weeks.map((week, index) => {
+    const segments = varieties.map((variety) => ({
+      variety,
+      kg: forecast.series
+        .filter(
+          (s) =>
+            s.variety === variety &&
+            (chartPort === ALL_PORTS || s.port === chartPort)
+        )
+        .reduce((sum, s) => sum + s.kg[index], 0),
+    }));
+    return {
+      week,
+      segments,
+      total: segments.reduce((sum, segment) => sum + segment.kg, 0),
+    };
+  });
+  const maxWeekKg = Math.max(...chart.map((column) => column.total), 0);
+  const totalDeltas = getWeekDeltas(forecast.totals);
+
+  return (
+    <div className="space-y-4 rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div className="flex flex-wrap items-end gap-3">
+          <label className={labelClass}>
+            Chart port
+            <select
+              value={chartPort}
+              onChange={(event) => setChartPort(event.target.value)}
+              className={selectClass}
+            >
+              <option value={ALL_PORTS}>All ports</option>
+              {ports.map((port) => (
+                <option key={port} value={port}>
+                  {port}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="inline-flex items-center gap-2 pb-2 text-sm text-slate-700">
+            <input
+              type="checkbox"
+              checked={includeAllocated}
+              onChange={(event) =>
+                onIncludeAllocatedChange(event.target.checked)
+              }
+              className="h-4 w-4 rounded border-slate-300 text-emerald-600 focus:ring-emerald-500"
+            />
+            Include allocated volume
+          </label>
+        </div>
+        <div className="flex flex-wrap gap-3 text-xs text-slate-600">
+          {varieties.map((variety) => (
+            <span key={variety} className="inline-flex items-center gap-1">
+              <span className={`h-3 w-3 rounded-sm ${colorOf(variety)}`} />
+              {variety}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex h-56 items-end gap-3 border-b border-slate-200 px-2">
+        {chart.map((column) => (
+          <div
+            key={column.week}
+            className="flex h-full flex-1 flex-col items-center justify-end gap-1"
+          >
+            <span className="text-xs font-medium text-slate-700">
+              {column.total ? `${formatTons(column.total)} t` : ""}
+            </span>
+            <div
+              className="flex w-full max-w-[56px] flex-col-reverse overflow-hidden rounded-t-md"
+              style={{
+                height: maxWeekKg
+                  ? `${(column.total / maxWeekKg) * 100}%`
+                  : "0%",
+              }}
+              title={column.segments
+                .filter((segment) => segment.kg > 0)
+                .map(
+                  (segment) => `${segment.variety}: ${formatTons(segment.kg)} t`
+                )
+                .join("\n")}
+            >
+              {column.segments.map((segment) =>
+                segment.kg > 0 ? (
+                  <div
+                    key={segment.variety}
+                    className={colorOf(segment.variety)}
+                    style={{ height: `${(segment.kg / column.total) * 100}%` }}
+                  />
+                ) : null
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-3 px-2 text-center text-xs text-slate-500">
+        {chart.map((column) => (
+          <span key={column.week} className="flex-1">
+            {column.week}
+          </span>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-left text-sm text-slate-700">
+          <thead className="bg-slate-50 text-xs uppercase tracking-wide text-slate-500">
+            <tr>
+              <th className="px-4 py-3 font-semibold">Port</th>
+              <th className="px-4 py-3 font-semibold">Variety</th>
+              {forecast.weeks.map((week) => (
+                <th key={week} className="px-4 py-3 text-right font-semibold">
+                  {week}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {forecast.series.map((series) => {
+              const deltas = getWeekDeltas(series.kg);
+              return (
+                <tr
+                  key={`${series.port}-${series.variety}`}
+                  className="border-t border-slate-100"
+                >
+                  <td className="px-4 py-3 font-medium text-slate-900">
+                    {series.port}
+                  </td>
+                  <td className="px-4 py-3">{series.variety}</td>
+                  {series.kg.map((kg, index) => (
+                    <td
+                      key={forecast.weeks[index]}
+                      className="px-4 py-3 text-right"
+                    >
+                      {kg ? `${formatTons(kg)} t` : "—"}
+                      <Delta kg={deltas[index]} />
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
+            {!forecast.series.length && (
+              <tr>
+                <td
+                  colSpan={forecast.weeks.length + 2}
+                  className="px-4 py-6 text-center text-sm text-slate-500"
+                >
+                  No arrivals in the next {forecast.weeks.length} weeks for the
+                  current filters.
+                </td>
+              </tr>
+            )}
+          </tbody>
+          {forecast.series.length > 0 && (
+            <tfoot className="border-t-2 border-slate-200 bg-slate-50 font-semibold text-slate-900">
+              <tr>
+                <td className="px-4 py-3" colSpan={2}>
+                  Total
+                </td>
+                {forecast.totals.map((kg, index) => (
+                  <td
+                    key={forecast.weeks[index]}
+                    className="px-4 py-3 text-right"
+                  >
+                    {formatTons(kg)} t
+                    <Delta kg={totalDeltas[index]} />
+                  </td>
+                ))}
+              </tr>
+            </tfoot>
+          )}
+        </table>
+      </div>
+    </div>
+  );
+}
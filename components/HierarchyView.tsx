@@ -0,0 +1,177 @@
+"use client";
+
+import Link from "next/link";
+import { useState } from "react";
+import { formatInteger, formatKg, formatWeight } from "@/lib/format";
+import type { ShipmentGroup } from "@/lib/hierarchy";
+
+const formatDate = (iso: string) => iso.slice(0, 10);
+
+const toggleKey = (set: Set<string>, key: string) => {
+  const next = new Set(set);
+  if (next.has(key)) next.delete(key);
+  else next.add(key);
+  return next;
+};
+
+export default function HierarchyView({ groups }: { groups: ShipmentGroup[] }) {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const allKeys = groups.flatMap((group) => [
+    group.shipment.shipment_id,
+    ...group.containers.map((entry) => entry.container.container_id),
+  ]);
+  const allExpanded =
+    allKeys.length > 0 && allKeys.every((key) => expanded.has(key));
+
+  return (
+    <div className="overflow-x-auto rounded-xl border border-slate-200 bg-white shadow-sm">
+      <div className="flex justify-end border-b border-slate-100 px-4 py-2">
+        <button
+          type="button"
+          onClick={() =>
+            setExpanded(allExpanded ? new Set() : new Set(allKeys))
+          }
+          className="text-sm font-medium text-emerald-600 hover:text-emerald-700"
+        >
+          {allExpanded ? "Collapse all" : "Expand all"}
+        </button>
+      </div>
+      <table className="min-w-full text-left text-sm text-slate-700">
+        <thead className="bg-slate-50 text-xs uppercase tracking-wide text-slate-500">
+          <tr>
+            <th className="px-4 py-3 font-semibold">Shipment / container</th>
+            <th className="px-4 py-3 font-semibold">Details</th>
+            <th className="px-4 py-3 text-right font-semibold">Lines</th>
+            <th className="px-4 py-3 text-right font-semibold">Boxes</th>
+            <th className="px-4 py-3 text-right font-semibold">Weight</th>
+          </tr>
+        </thead>
+        <tbody>
+          {groups.map((group) => {
+            const shipmentId = group.shipment.shipment_id;
+            const shipmentOpen = expanded.has(shipmentId);
+            return [
+              <tr
+                key={shipmentId}
+                className="border-t border-slate-200 bg-emerald-50/40"
+              >
+                <td className="px-4 py-3">
+                  <button
+                    type="button"
+                    aria-expanded={shipmentOpen}
+                    onClick={() =>
+                      setExpanded((prev) => toggleKey(prev, shipmentId))
+                    }
+                    className="mr-2 font-mono text-slate-500"
+                  >
+                    {shipmentOpen ? "▾" : "▸"}
+                  </button>
+                  <Link
+                    href={`/shipments/${encodeURIComponent(shipmentId)}`}
+                    className="font-semibold text-emerald-700 hover:underline"
+                  >
+                    {shipmentId}
+                  </Link>
+                </td>
+                <td className="px-4 py-3 text-slate-600">
+                  {group.shipment.vessel_name} ·{" "}
+                  {group.shipment.port_destination} · ETA{" "}
+                  {formatDate(group.shipment.eta)}
+                </td>
+                <td className="px-4 py-3 text-right">
+                  {formatInteger(group.lines)}
+                </td>
+                <td className="px-4 py-3 text-right font-semibold">
+                  {formatInteger(group.boxes)}
+                </td>
+                <td className="px-4 py-3 text-right font-semibold">
+                  {formatKg(Math.round(group.kg * 10) / 10)}
+                </td>
+              </tr>,
+              ...(shipmentOpen
+                ? group.containers.flatMap((entry) => {
+                    const containerId = entry.container.container_id;
+                    const containerOpen = expanded.has(containerId);
+                    return [
+                      <tr
+                        key={containerId}
+                        className="border-t border-slate-100"
+                      >
+                        <td className="py-3 pl-10 pr-4">
+                          <button
+                            type="button"
+                            aria-expanded={containerOpen}
+                            onClick={() =>
+                              setExpanded((prev) =>
+                                toggleKey(prev, containerId)
+                              )
+                            }
+                            className="mr-2 font-mono text-slate-500"
+                          >
+                            {containerOpen ? "▾" : "▸"}
+                          </button>
+                          <span className="font-medium text-slate-900">
+                            {entry.container.container_code}
+                          </span>
+                        </td>
+                        <td className="px-4 py-3 text-slate-500">
+                          {entry.container.gross_weight_kg !== undefined
+                            ? `Declared ${formatKg(
+                                entry.container.gross_weight_kg
+                              )}`
+                            : "No declared weight"}
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          {formatInteger(entry.rows.length)}
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          {formatInteger(entry.boxes)}
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          {formatKg(Math.round(entry.kg * 10) / 10)}
+                        </td>
+                      </tr>,
+                      ...(containerOpen
+                        ? entry.rows.map((row) => (
+                            <tr
+                              key={row.stableKey}
+                              className="border-t border-slate-100 text-slate-600"
+                            >
+                              <td className="py-2 pl-20 pr-4">
+                                {row.pallet_pl_id || `Line ${row.line_id}`}
+                              </td>
+                              <td className="px-4 py-2 uppercase">
+                                {row.variety} · {row.caliber_raw} ·{" "}
+                                {row.pack_format_raw}
+                              </td>
+                              <td className="px-4 py-2" />
+                              <td className="px-4 py-2 text-right">
+                                {formatInteger(row.box_count)}
+                              </td>
+                              <td className="px-4 py-2 text-right">
+                                {formatWeight(row.line_weight_kg)} kg
+                              </td>
+                            </tr>
+                          ))
+                        : []),
+                    ];
+                  })
+                : []),
+            ];
+          })}
+          {!groups.length && (
+            <tr>
+              <td
+                colSpan={5}
+                className="px-4 py-6 text-center text-sm text-slate-500"
+              >
+                No matching shipments
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+}
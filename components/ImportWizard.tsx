@@ -0,0 +1,304 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import type { DatasetValidation } from "@/lib/dataset";
+import {
+  PALLET_FIELDS,
+  applyColumnMapping,
+  fetchSupplierMappings,
+  guessMapping,
+  readSpreadsheet,
+  saveSupplierMapping,
+  type SheetData,
+} from "@/lib/packingList";
+import type { ColumnMapping, PalletItem, SupplierMapping } from "@/types";
+
+const CONSTANT_OPTION = "__constant__";
+const MAX_LISTED_REJECTIONS = 10;
+
+const inputClass =
+  "w-full rounded-lg border border-slate-300 px-2 py-1 text-sm text-slate-800";
+
+/** Keeps only the saved column choices that still exist in this file. */
+const reuseMapping = (saved: ColumnMapping, headers: string[]) => {
+  const mapping: ColumnMapping = {};
+  (Object.keys(saved) as Array<keyof PalletItem>).forEach((key) => {
+    const field = saved[key];
+    if (!field) return;
+    if (field.source === "constant" || headers.includes(field.column)) {
+      mapping[key] = field;
+    }
+  });
+  return mapping;
+};
+
+export default function ImportWizard({
+  user,
+  onImport,
+  onClose,
+}: {
+  user: string;
+  onImport: (fileName: string, result: DatasetValidation) => void;
+  onClose: () => void;
+}) {
+  const [suppliers, setSuppliers] = useState<SupplierMapping[]>([]);
+  const [supplier, setSupplier] = useState("");
+  const [fileName, setFileName] = useState("");
+  const [sheet, setSheet] = useState<SheetData | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSupplierMappings()
+      .then(setSuppliers)
+      .catch((loadError) => setError((loadError as Error).message));
+  }, []);
+
+  const result = useMemo(
+    () => (sheet ? applyColumnMapping(sheet, mapping) : null),
+    [sheet, mapping]
+  );
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    try {
+      const data = await readSpreadsheet(file);
+      if (!data.rows.length) {
+        setError(`${file.name} has no data rows.`);
+        return;
+      }
+      const saved = suppliers.find(
+        (entry) =>
+          entry.supplier.toLowerCase() === supplier.trim().toLowerCase()
+      );
+      setFileName(file.name);
+      setSheet(data);
+      setMapping(
+        saved
+          ? reuseMapping(saved.mapping, data.headers)
+          : guessMapping(data.headers)
+      );
+    } catch (readError) {
+      setError(`Could not read ${file.name}: ${(readError as Error).message}`);
+    }
+  };
+
+  const updateField = (key: keyof PalletItem, selection: string) => {
+    setMapping((prev) => {
+      const next = { ...prev };
+      if (!selection) {
+        delete next[key];
+      } else if (selection === CONSTANT_OPTION) {
+        next[key] = { source: "constant", value: "" };
+      } else {
+        next[key] = { source: "column", column: selection };
+      }
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    if (!result?.items.length) return;
+    try {
+      if (supplier.trim()) {
+        await saveSupplierMapping(supplier.trim(), mapping, user);
+      }
+      onImport(supplier.trim() || fileName, result);
+      onClose();
+    } catch (saveError) {
+      setError((saveError as Error).message);
+    }
+  };
+
+  const firstRow = sheet?.rows[0] ?? [];
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label="Import packing list"
+      className="fixed inset-0 z-20 flex items-center justify-center bg-slate-900/40 p-4"
+    >
+      <div className="flex max-h-full w-full max-w-4xl flex-col gap-4 overflow-hidden rounded-2xl bg-white p-6 shadow-xl">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-base font-semibold text-slate-900">
+              Import packing list
+            </h2>
+            <p className="text-sm text-slate-500">
+              CSV or XLSX; the first row must hold the column headers.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-sm font-medium text-slate-500 hover:text-slate-700"
+          >
+            Close
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="flex flex-col gap-1 text-xs font-medium uppercase tracking-wide text-slate-500">
+            Supplier
+            <input
+              list="import-suppliers"
+              value={supplier}
+              onChange={(event) => setSupplier(event.target.value)}
+              placeholder="Packer name"
+              className="rounded-lg border border-slate-300 px-3 py-2 text-sm font-normal normal-case tracking-normal text-slate-800"
+            />
+            <datalist id="import-suppliers">
+              {suppliers.map((entry) => (
+                <option key={entry.supplier} value={entry.supplier} />
+              ))}
+            </datalist>
+          </label>
+          <label className="flex flex-col gap-1 text-xs font-medium uppercase tracking-wide text-slate-500">
+            File
+            <input
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                if (file) handleFile(file);
+                event.target.value = "";
+              }}
+              className="text-sm font-normal normal-case tracking-normal text-slate-700"
+            />
+          </label>
+          {fileName && (
+            <p className="text-sm text-slate-600">
+              {fileName} · {sheet?.rows.length.toLocaleString("en-US")} rows
+            </p>
+          )}
+        </div>
+
+        {sheet && (
+          <div className="min-h-0 flex-1 overflow-y-auto rounded-xl border border-slate-200">
+            <table className="min-w-full text-left text-sm text-slate-700">
+              <thead className="sticky top-0 bg-slate-50 text-xs uppercase tracking-wide text-slate-500">
+                <tr>
+                  <th className="px-3 py-2 font-semibold">Field</th>
+                  <th className="px-3 py-2 font-semibold">Source</th>
+                  <th className="px-3 py-2 font-semibold">First row</th>
+                </tr>
+              </thead>
+              <tbody>
+                {PALLET_FIELDS.map((field) => {
+                  const fieldMapping = mapping[field.key];
+                  const selection = !fieldMapping
+                    ? ""
+                    : fieldMapping.source === "constant"
+                      ? CONSTANT_OPTION
+                      : fieldMapping.column;
+                  const sample =
+                    fieldMapping?.source === "column"
+                      ? firstRow[sheet.headers.indexOf(fieldMapping.column)]
+                      : undefined;
+                  return (
+                    <tr key={field.key} className="border-t border-slate-100">
+                      <td className="px-3 py-2">
+                        <span className="font-medium text-slate-900">
+                          {field.label}
+                        </span>
+                        {(field.optional || field.derived) && (
+                          <span className="ml-2 text-xs text-slate-400">
+                            {field.derived ? "derived if empty" : "optional"}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-3 py-2">
+                        <div className="flex gap-2">
+                          <select
+                            value={selection}
+                            onChange={(event) =>
+                              updateField(field.key, event.target.value)
+                            }
+                            className={inputClass}
+                          >
+                            <option value="">— not mapped —</option>
+                            {sheet.headers.map((header) => (
+                              <option key={header} value={header}>
+                                {header}
+                              </option>
+                            ))}
+                            <option value={CONSTANT_OPTION}>
+                              Fixed value…
+                            </option>
+                          </select>
+                          {fieldMapping?.source === "constant" && (
+                            <input
+                              value={fieldMapping.value}
+                              onChange={(event) =>
+                                setMapping((prev) => ({
+                                  ...prev,
+                                  [field.key]: {
+                                    source: "constant",
+                                    value: event.target.value,
+                                  },
+                                }))
+                              }
+                              className={inputClass}
+                            />
+                          )}
+                        </div>
+                      </td>
+                      <td className="px-3 py-2 text-slate-500">
+                        {sample || "—"}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {result && (
+          <div className="space-y-2 text-sm text-slate-600">
+            <p>
+              <span className="font-semibold text-slate-900">
+                {result.items.length.toLocaleString("en-US")}
+              </span>{" "}
+              lines ready ·{" "}
+              <span className="font-semibold text-slate-900">
+                {result.rejected.length.toLocaleString("en-US")}
+              </span>{" "}
+              rejected
+            </p>
+            {result.rejected.length > 0 && (
+              <ul className="max-h-24 space-y-1 overflow-y-auto text-amber-800">
+                {result.rejected.slice(0, MAX_LISTED_REJECTIONS).map((line) => (
+                  <li key={line.index}>
+                    Row {line.index + 2}: {line.reasons.join("; ")}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {error && <p className="text-sm text-rose-600">{error}</p>}
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-lg border border-slate-300 px-3 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleImport}
+            disabled={!result?.items.length}
+            className="rounded-lg bg-emerald-600 px-3 py-2 text-sm font-medium text-white hover:bg-emerald-700 disabled:opacity-60"
+          >
+            Import {result?.items.length.toLocaleString("en-US") ?? 0} lines
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,331 @@
+"use client";
+
+import Image from "next/image";
+import { useState } from "react";
+import { formatDateTime } from "@/lib/format";
+import {
+  MAX_PHOTOS,
+  MAX_PHOTO_BYTES,
+  PHOTO_TYPES,
+  QC_STATUSES,
+  getPhotoUrl,
+} from "@/lib/inspections";
+import type {
+  EnrichedRow,
+  Inspection,
+  InspectionInput,
+  InspectionTarget,
+  QcDecision,
+  QcStatus,
+} from "@/types";
+
+export const QC_BADGE_STYLES: Record<QcStatus, string> = {
+  pass: "bg-emerald-50 text-emerald-700",
+  hold: "bg-amber-50 text-amber-700",
+  reject: "bg-rose-50 text-rose-700",
+  pending: "bg-slate-100 text-slate-700",
+  not_due: "text-slate-400",
+};
+
+const QC_LABELS = Object.fromEntries(
+  QC_STATUSES.map((option) => [option.value, option.label])
+) as Record<QcStatus, string>;
+
+const DECISIONS: QcDecision[] = ["pass", "hold", "reject"];
+
+const MEASUREMENTS = [
+  { key: "brix", label: "Brix (°Bx)" },
+  { key: "firmness", label: "Firmness (g/mm)" },
+  { key: "defectsPct", label: "Defects (%)" },
+  { key: "temperatureC", label: "Pulp temp. (°C)" },
+] as const;
+
+type MeasurementKey = (typeof MEASUREMENTS)[number]["key"];
+
+const inputClass =
+  "w-full rounded-lg border border-slate-300 px-2 py-1 text-sm text-slate-800";
+
+export default function InspectionPanel({
+  row,
+  containerLineKeys,
+  inspections,
+  onSave,
+  onClose,
+}: {
+  row: EnrichedRow;
+  /** Every line in the row's container, covered by a container inspection. */
+  containerLineKeys: string[];
+  /** Inspections covering the line, newest first. */
+  inspections: Inspection[];
+  onSave: (inspection: InspectionInput, photos: File[]) => Promise<void>;
+  onClose: () => void;
+}) {
+  const [target, setTarget] = useState<InspectionTarget>("line");
+  const [values, setValues] = useState<Record<MeasurementKey, string>>({
+    brix: "",
+    firmness: "",
+    defectsPct: "",
+    temperatureC: "",
+  });
+  const [decision, setDecision] = useState<QcDecision>("pass");
+  const [comment, setComment] = useState("");
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    const inspection: InspectionInput = {
+      target,
+      targetId: target === "container" ? row.container_id : row.stableKey,
+      lineKeys: target === "container" ? containerLineKeys : [row.stableKey],
+      decision,
+      comment: comment.trim() || undefined,
+    };
+    for (const { key, label } of MEASUREMENTS) {
+      if (!values[key].trim()) continue;
+      const value = Number(values[key]);
+      if (!Number.isFinite(value)) {
+        setError(`${label} must be a number.`);
+        return;
+      }
+      inspection[key] = value;
+    }
+    if (photos.length > MAX_PHOTOS) {
+      setError(`Attach at most ${MAX_PHOTOS} photos.`);
+      return;
+    }
+    const unsupported = photos.find(
+      (photo) => !(PHOTO_TYPES as readonly string[]).includes(photo.type)
+    );
+    if (unsupported) {
+      setError(`${unsupported.name} must be a JPEG, PNG or WebP image.`);
+      return;
+    }
+    const tooLarge = photos.find((photo) => photo.size > MAX_PHOTO_BYTES);
+    if (tooLarge) {
+      setError(
+        `${tooLarge.name} is larger than ${MAX_PHOTO_BYTES / 1024 / 1024} MB.`
+      );
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave(inspection, photos);
+      onClose();
+    } catch (saveError) {
+      setError((saveError as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label="Quality inspection"
+      className="fixed inset-0 z-20 flex items-center justify-center bg-slate-900/40 p-4"
+    >
+      <div className="flex max-h-full w-full max-w-3xl flex-col gap-4 overflow-hidden rounded-2xl bg-white p-6 shadow-xl">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-base font-semibold text-slate-900">
+              Quality inspection
+            </h2>
+            <p className="text-sm text-slate-500">
+              {row.pallet_pl_id || row.stableKey} · {row.container_code} ·{" "}
+              {row.variety}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-sm font-medium text-slate-500 hover:text-slate-700"
+          >
+            Close
+          </button>
+        </div>
+
+        <div className="space-y-4 overflow-y-auto">
+          {inspections.map((inspection, index) => (
+            <div
+              key={inspection.id}
+              className="space-y-2 rounded-lg border border-slate-200 p-3"
+            >
+              <div className="flex flex-wrap items-center gap-2 text-xs text-slate-500">
+                <span
+                  className={`rounded-full px-2 py-0.5 font-semibold ${
+                    QC_BADGE_STYLES[inspection.decision]
+                  }`}
+                >
+                  {QC_LABELS[inspection.decision]}
+                </span>
+                <span>
+                  {inspection.target === "container"
+                    ? `Container ${row.container_code}`
+                    : "This line"}
+                </span>
+                <span>
+                  · {inspection.inspectedBy} ·{" "}
+                  {formatDateTime(inspection.inspectedAt)}
+                </span>
+                {index === 0 && (
+                  <span className="font-medium text-slate-700">· Current</span>
+                )}
+              </div>
+              <dl className="grid grid-cols-2 gap-2 text-sm sm:grid-cols-4">
+                {MEASUREMENTS.map(({ key, label }) => (
+                  <div key={key}>
+                    <dt className="text-xs text-slate-500">{label}</dt>
+                    <dd className="font-medium text-slate-900">
+                      {inspection[key] ?? "—"}
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+              {inspection.comment && (
+                <p className="whitespace-pre-wrap text-sm text-slate-800">
+                  {inspection.comment}
+                </p>
+              )}
+              {inspection.photos.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {inspection.photos.map((photo) => (
+                    <a
+                      key={photo.id}
+                      href={getPhotoUrl(photo)}
+                      target="_blank"
+                      rel="noreferrer"
+                      title={photo.fileName}
+                    >
+                      <Image
+                        src={getPhotoUrl(photo)}
+                        alt={photo.fileName}
+                        width={80}
+                        height={80}
+                        unoptimized
+                        className="h-20 w-20 rounded-lg border border-slate-200 object-cover"
+                      />
+                    </a>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+          {!inspections.length && (
+            <p className="text-sm text-slate-500">
+              No inspection recorded for this line or its container yet.
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-3 border-t border-slate-100 pt-4">
+          <div className="flex flex-wrap gap-4 text-sm text-slate-700">
+            <label className="inline-flex items-center gap-1">
+              <input
+                type="radio"
+                name="inspection-target"
+                checked={target === "line"}
+                onChange={() => setTarget("line")}
+                className="h-4 w-4 border-slate-300 text-emerald-600 focus:ring-emerald-500"
+              />
+              This line
+            </label>
+            <label className="inline-flex items-center gap-1">
+              <input
+                type="radio"
+                name="inspection-target"
+                checked={target === "container"}
+                onChange={() => setTarget("container")}
+                className="h-4 w-4 border-slate-300 text-emerald-600 focus:ring-emerald-500"
+              />
+              Whole container {row.container_code} (
+              {containerLineKeys.length.toLocaleString("en-US")} lines)
+            </label>
+          </div>
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+            {MEASUREMENTS.map(({ key, label }) => (
+              <label
+                key={key}
+                className="flex flex-col gap-1 text-xs font-medium uppercase tracking-wide text-slate-500"
+              >
+                {label}
+                <input
+                  value={values[key]}
+                  onChange={(event) =>
+                    setValues((prev) => ({
+                      ...prev,
+                      [key]: event.target.value,
+                    }))
+                  }
+                  inputMode="decimal"
+                  className={inputClass}
+                />
+              </label>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-4 text-sm text-slate-700">
+            {DECISIONS.map((option) => (
+              <label key={option} className="inline-flex items-center gap-1">
+                <input
+                  type="radio"
+                  name="inspection-decision"
+                  checked={decision === option}
+                  onChange={() => setDecision(option)}
+                  className="h-4 w-4 border-slate-300 text-emerald-600 focus:ring-emerald-500"
+                />
+                {QC_LABELS[option]}
+              </label>
+            ))}
+          </div>
+          <textarea
+            value={comment}
+            onChange={(event) => setComment(event.target.value)}
+            placeholder="Comment"
+            aria-label="Comment"
+            rows={2}
+            className={inputClass}
+          />
+          <label className="flex flex-col gap-1 text-xs font-medium uppercase tracking-wide text-slate-500">
+            Photos (up to {MAX_PHOTOS})
+            <input
+              type="file"
+              accept={PHOTO_TYPES.join(",")}
+              multiple
+              onChange={(event) =>
+                setPhotos(Array.from(event.target.files ?? []))
+              }
+              className="text-sm normal-case text-slate-700"
+            />
+          </label>
+          {decision !== "pass" && (
+            <p className="text-sm text-amber-700">
+              Lines on hold or rejected cannot take new allocations until a
+              later inspection passes them.
+            </p>
+          )}
+          {error && <p className="text-sm text-rose-600">{error}</p>}
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="rounded-lg border border-slate-300 px-3 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={saving}
+              className="rounded-lg bg-emerald-600 px-3 py-2 text-sm font-medium text-white hover:bg-emerald-700 disabled:opacity-60"
+            >
+              {saving ? "Saving…" : "Record inspection"}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
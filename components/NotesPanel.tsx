@@ -0,0 +1,226 @@
+"use client";
+
+import { useState } from "react";
+import { formatDateTime } from "@/lib/format";
+import { NOTE_TARGETS, getNoteTargetId, toThreads } from "@/lib/notes";
+import type { EnrichedRow, Note, NoteInput, NoteTarget } from "@/types";
+
+const inputClass =
+  "w-full rounded-lg border border-slate-300 px-2 py-1 text-sm text-slate-800";
+
+const NoteBody = ({ note }: { note: Note }) => (
+  <div>
+    <p className="text-xs text-slate-500">
+      <span className="font-medium text-slate-700">{note.author}</span> ·{" "}
+      {formatDateTime(note.createdAt)}
+    </p>
+    <p className="whitespace-pre-wrap text-sm text-slate-800">{note.body}</p>
+  </div>
+);
+
+export default function NotesPanel({
+  row,
+  notes,
+  onAdd,
+  onClose,
+}: {
+  row: EnrichedRow;
+  /** Every note on the line, its container and its shipment. */
+  notes: Note[];
+  onAdd: (note: NoteInput) => Promise<void>;
+  onClose: () => void;
+}) {
+  const [target, setTarget] = useState<NoteTarget>("line");
+  const [body, setBody] = useState("");
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [reply, setReply] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (input: NoteInput, reset: () => void) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await onAdd(input);
+      reset();
+    } catch (saveError) {
+      setError((saveError as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const targetLabel = (item: NoteTarget) => {
+    if (item === "container") return `Container ${row.container_code}`;
+    if (item === "shipment") return `Shipment ${row.shipment_id}`;
+    return `Line ${row.pallet_pl_id || row.line_id}`;
+  };
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label="Notes"
+      className="fixed inset-0 z-20 flex items-center justify-center bg-slate-900/40 p-4"
+    >
+      <div className="flex max-h-full w-full max-w-2xl flex-col gap-4 overflow-hidden rounded-2xl bg-white p-6 shadow-xl">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-base font-semibold text-slate-900">Notes</h2>
+            <p className="text-sm text-slate-500">
+              {row.booking_reference} · {row.container_code} · {row.variety}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-sm font-medium text-slate-500 hover:text-slate-700"
+          >
+            Close
+          </button>
+        </div>
+
+        <div className="space-y-4 overflow-y-auto">
+          {NOTE_TARGETS.map(({ target: item }) => {
+            const threads = toThreads(
+              notes.filter(
+                (note) =>
+                  note.target === item &&
+                  note.targetId === getNoteTargetId(row, item)
+              )
+            );
+            if (!threads.length) return null;
+            return (
+              <section key={item} className="space-y-2">
+                <h3 className="text-xs font-medium uppercase tracking-wide text-slate-500">
+                  {targetLabel(item)}
+                </h3>
+                {threads.map((thread) => (
+                  <div
+                    key={thread.note.id}
+                    className="space-y-2 rounded-lg border border-slate-200 p-3"
+                  >
+                    <NoteBody note={thread.note} />
+                    {thread.replies.map((entry) => (
+                      <div
+                        key={entry.id}
+                        className="border-l-2 border-slate-200 pl-3"
+                      >
+                        <NoteBody note={entry} />
+                      </div>
+                    ))}
+                    {replyTo === thread.note.id ? (
+                      <form
+                        onSubmit={(event) => {
+                          event.preventDefault();
+                          if (!reply.trim()) return;
+                          submit(
+                            {
+                              target: item,
+                              targetId: thread.note.targetId,
+                              body: reply.trim(),
+                              parentId: thread.note.id,
+                            },
+                            () => {
+                              setReply("");
+                              setReplyTo(null);
+                            }
+                          );
+                        }}
+                        className="flex gap-2 pl-3"
+                      >
+                        <input
+                          value={reply}
+                          onChange={(event) => setReply(event.target.value)}
+                          placeholder="Reply"
+                          aria-label="Reply"
+                          autoFocus
+                          className={inputClass}
+                        />
+                        <button
+                          type="submit"
+                          disabled={saving || !reply.trim()}
+                          className="rounded-lg bg-emerald-600 px-3 py-1 text-sm font-medium text-white hover:bg-emerald-700 disabled:opacity-60"
+                        >
+                          Reply
+                        </button>
+                      </form>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setReplyTo(thread.note.id);
+                          setReply("");
+                        }}
+                        className="text-xs font-medium text-emerald-600 hover:text-emerald-700"
+                      >
+                        Reply
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </section>
+            );
+          })}
+          {!notes.length && (
+            <p className="text-sm text-slate-500">
+              No notes on this line, its container or its shipment yet.
+            </p>
+          )}
+        </div>
+
+        <form
+          onSubmit={(event) => {
+            event.preventDefault();
+            if (!body.trim()) return;
+            submit(
+              {
+                target,
+                targetId: getNoteTargetId(row, target),
+                body: body.trim(),
+              },
+              () => setBody("")
+            );
+          }}
+          className="space-y-2 border-t border-slate-100 pt-4"
+        >
+          <div className="flex flex-wrap gap-2">
+            {NOTE_TARGETS.map(({ target: item }) => (
+              <label
+                key={item}
+                className="inline-flex items-center gap-1 text-sm text-slate-700"
+              >
+                <input
+                  type="radio"
+                  name="note-target"
+                  checked={target === item}
+                  onChange={() => setTarget(item)}
+                  className="h-4 w-4 border-slate-300 text-emerald-600 focus:ring-emerald-500"
+                />
+                {targetLabel(item)}
+              </label>
+            ))}
+          </div>
+          <textarea
+            value={body}
+            onChange={(event) => setBody(event.target.value)}
+            placeholder="Add a note"
+            aria-label="New note"
+            rows={3}
+            className={inputClass}
+          />
+          {error && <p className="text-sm text-rose-600">{error}</p>}
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={saving || !body.trim()}
+              className="rounded-lg bg-emerald-600 px-3 py-2 text-sm font-medium text-white hover:bg-emerald-700 disabled:opacity-60"
+            >
+              {saving ? "Saving…" : "Add note"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
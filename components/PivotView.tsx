@@ -0,0 +1,206 @@
+"use client";
+
+import { useMemo } from "react";
+import { downloadCsv, formatCsv } from "@/lib/csv";
+import { formatInteger, formatKg, formatMoney } from "@/lib/format";
+import {
+  PIVOT_DIMENSIONS,
+  PIVOT_MEASURES,
+  buildPivot,
+  pivotToMatrix,
+  type PivotConfig,
+  type PivotContext,
+  type PivotDimension,
+  type PivotMeasure,
+} from "@/lib/pivot";
+import type { EnrichedRow } from "@/types";
+
+const selectClass =
+  "rounded-lg border border-slate-300 px-3 py-2 text-sm font-normal normal-case tracking-normal text-slate-800";
+const labelClass =
+  "flex flex-col gap-1 text-xs font-medium uppercase tracking-wide text-slate-500";
+
+export default function PivotView({
+  rows,
+  config,
+  context,
+  onConfigChange,
+}: {
+  rows: EnrichedRow[];
+  config: PivotConfig;
+  context: PivotContext;
+  onConfigChange: (config: PivotConfig) => void;
+}) {
+  const table = useMemo(
+    () => buildPivot(rows, config, context),
+    [rows, config, context]
+  );
+  const format = (value: number) => {
+    if (config.measure === "kg") return formatKg(value);
+    if (config.measure === "value" || config.measure === "margin") {
+      return formatMoney(value, context.currency);
+    }
+    return formatInteger(value);
+  };
+
+  const handleExport = () => {
+    const columns = config.columns ?? "total";
+    downloadCsv(
+      formatCsv(pivotToMatrix(table, config)),
+      `lading-cockpit-pivot-${config.rows}-by-${columns}-${config.measure}.csv`
+    );
+  };
+
+  return (
+    <div className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+      <div className="mb-4 flex flex-wrap items-end justify-between gap-4">
+        <div className="flex flex-wrap gap-3">
+          <label className={labelClass}>
+            Rows
+            <select
+              value={config.rows}
+              onChange={(event) =>
+                onConfigChange({
+                  ...config,
+                  rows: event.target.value as PivotDimension,
+                })
+              }
+              className={selectClass}
+            >
+              {PIVOT_DIMENSIONS.map((dimension) => (
+                <option key={dimension.id} value={dimension.id}>
+                  {dimension.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className={labelClass}>
+            Columns
+            <select
+              value={config.columns ?? ""}
+              onChange={(event) =>
+                onConfigChange({
+                  ...config,
+                  columns: (event.target.value ||
+                    null) as PivotDimension | null,
+                })
+              }
+              className={selectClass}
+            >
+              <option value="">None</option>
+              {PIVOT_DIMENSIONS.map((dimension) => (
+                <option key={dimension.id} value={dimension.id}>
+                  {dimension.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className={labelClass}>
+            Measure
+            <select
+              value={config.measure}
+              onChange={(event) =>
+                onConfigChange({
+                  ...config,
+                  measure: event.target.value as PivotMeasure,
+                })
+              }
+              className={selectClass}
+            >
+              {PIVOT_MEASURES.map((measure) => (
+                <option key={measure.id} value={measure.id}>
+                  {measure.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <button
+          type="button"
+          onClick={handleExport}
+          disabled={!table.rowKeys.length}
+          className={`inline-flex items-center rounded-lg border px-3 py-2 text-sm font-medium transition ${
+            table.rowKeys.length
+              ? "border-slate-300 bg-white text-slate-800 hover:bg-slate-50"
+              : "cursor-not-allowed border-slate-200 bg-slate-100 text-slate-400"
+          }`}
+        >
+          Export pivot (CSV)
+        </button>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-left text-sm text-slate-700">
+          <thead className="bg-slate-50 text-xs uppercase tracking-wide text-slate-500">
+            <tr>
+              <th className="px-4 py-3 font-semibold">
+                {
+                  PIVOT_DIMENSIONS.find(
+                    (dimension) => dimension.id === config.rows
+                  )?.label
+                }
+              </th>
+              {table.columnKeys.map((columnKey) => (
+                <th
+                  key={columnKey}
+                  className="px-4 py-3 text-right font-semibold"
+                >
+                  {columnKey}
+                </th>
+              ))}
+              <th className="px-4 py-3 text-right font-semibold">Total</th>
+            </tr>
+          </thead>
+          <tbody>
+            {table.rowKeys.map((rowKey) => (
+              <tr key={rowKey} className="border-t border-slate-100">
+                <td className="px-4 py-3 font-medium text-slate-900">
+                  {rowKey}
+                </td>
+                {table.columnKeys.map((columnKey) => {
+                  const value = table.cells.get(rowKey)?.get(columnKey);
+                  return (
+                    <td key={columnKey} className="px-4 py-3 text-right">
+                      {value === undefined ? (
+                        <span className="text-slate-300">—</span>
+                      ) : (
+                        format(value)
+                      )}
+                    </td>
+                  );
+                })}
+                <td className="px-4 py-3 text-right font-semibold text-slate-900">
+                  {format(table.rowTotals.get(rowKey) ?? 0)}
+                </td>
+              </tr>
+            ))}
+            {!table.rowKeys.length && (
+              <tr>
+                <td
+                  colSpan={table.columnKeys.length + 2}
+                  className="px-4 py-6 text-center text-sm text-slate-500"
+                >
+                  No lines match the current filters.
+                </td>
+              </tr>
+            )}
+          </tbody>
+          {table.rowKeys.length > 0 && (
+            <tfoot className="border-t-2 border-slate-200 bg-slate-50 font-semibold text-slate-900">
+              <tr>
+                <td className="px-4 py-3">Total</td>
+                {table.columnKeys.map((columnKey) => (
+                  <td key={columnKey} className="px-4 py-3 text-right">
+                    {format(table.columnTotals.get(columnKey) ?? 0)}
+                  </td>
+                ))}
+                <td className="px-4 py-3 text-right">
+                  {format(table.grandTotal)}
+                </td>
+              </tr>
+            </tfoot>
+          )}
+        </table>
+      </div>
+    </div>
+  );
+}
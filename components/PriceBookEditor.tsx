@@ -0,0 +1,415 @@
+"use client";
+
+import { useState } from "react";
+import { formatDateTime } from "@/lib/format";
+import type {
+  PriceBook,
+  PriceUnit,
+  Shipment,
+  TargetPrice,
+  UnitPrice,
+} from "@/types";
+
+const inputClass =
+  "w-full rounded-lg border border-slate-300 px-2 py-1 text-sm text-slate-800";
+
+interface DraftPrice {
+  amount: string;
+  unit: PriceUnit;
+}
+
+interface DraftTarget extends DraftPrice {
+  id?: string;
+  variety: string;
+  caliber: string;
+  pack_format: string;
+}
+
+const toDraftPrice = (price: UnitPrice | undefined): DraftPrice => ({
+  amount: price ? `${price.amount}` : "",
+  unit: price?.unit ?? "kg",
+});
+
+// Blank amounts mean "no price"; anything else must be a number.
+const parseDraftPrice = (draft: DraftPrice): UnitPrice | null | string => {
+  if (!draft.amount.trim()) return null;
+  const amount = Number(draft.amount);
+  if (!Number.isFinite(amount) || amount < 0) {
+    return `"${draft.amount}" is not a valid amount`;
+  }
+  return { amount, unit: draft.unit };
+};
+
+const PriceInputs = ({
+  value,
+  onChange,
+  label,
+}: {
+  value: DraftPrice;
+  onChange: (value: DraftPrice) => void;
+  label: string;
+}) => (
+  <div className="flex gap-2">
+    <input
+      value={value.amount}
+      onChange={(event) => onChange({ ...value, amount: event.target.value })}
+      inputMode="decimal"
+      placeholder="—"
+      aria-label={`${label} amount`}
+      className={`${inputClass} text-right`}
+    />
+    <select
+      value={value.unit}
+      onChange={(event) =>
+        onChange({ ...value, unit: event.target.value as PriceUnit })
+      }
+      aria-label={`${label} unit`}
+      className="rounded-lg border border-slate-300 px-2 py-1 text-sm text-slate-800"
+    >
+      <option value="kg">/ kg</option>
+      <option value="box">/ box</option>
+    </select>
+  </div>
+);
+
+export default function PriceBookEditor({
+  book,
+  shipments,
+  varieties,
+  onSave,
+  onClose,
+}: {
+  book: PriceBook;
+  /** Shipments in the current dataset, to attach landed costs to. */
+  shipments: Shipment[];
+  varieties: string[];
+  /** `expectedUpdatedAt` is the version the editor was opened on. */
+  onSave: (book: PriceBook, expectedUpdatedAt: string | null) => Promise<void>;
+  onClose: () => void;
+}) {
+  // The drafts start from the book as it was when the editor opened; later
+  // reloads of `book` must not change what a save is compared against.
+  const [opened] = useState(book);
+  const [currency, setCurrency] = useState(opened.currency);
+  const [targets, setTargets] = useState<DraftTarget[]>(() =>
+    opened.targetPrices.map((target) => ({
+      id: target.id,
+      variety: target.variety,
+      caliber: target.caliber ?? "",
+      pack_format: target.pack_format ?? "",
+      ...toDraftPrice(target.price),
+    }))
+  );
+  const [shipmentCosts, setShipmentCosts] = useState<
+    Record<string, DraftPrice>
+  >(() =>
+    Object.fromEntries(
+      shipments.map((shipment) => [
+        shipment.shipment_id,
+        toDraftPrice(opened.shipmentCosts[shipment.shipment_id]),
+      ])
+    )
+  );
+  const [clearLineCosts, setClearLineCosts] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const lineCostCount = Object.keys(opened.lineCosts).length;
+
+  const updateTarget = (index: number, patch: Partial<DraftTarget>) =>
+    setTargets((prev) =>
+      prev.map((target, position) =>
+        position === index ? { ...target, ...patch } : target
+      )
+    );
+
+  const handleSave = async () => {
+    const targetPrices: TargetPrice[] = [];
+    for (const target of targets) {
+      if (!target.variety.trim() && !target.amount.trim()) continue;
+      const price = parseDraftPrice(target);
+      if (typeof price === "string") {
+        setError(price);
+        return;
+      }
+      if (!target.variety.trim() || !price) {
+        setError("Every target price needs a variety and an amount.");
+        return;
+      }
+      targetPrices.push({
+        id: target.id ?? "",
+        variety: target.variety.trim(),
+        caliber: target.caliber.trim() || undefined,
+        pack_format: target.pack_format.trim() || undefined,
+        price,
+      });
+    }
+    // Costs of shipments outside the current dataset are kept as they were.
+    const nextShipmentCosts = { ...opened.shipmentCosts };
+    for (const [shipmentId, draft] of Object.entries(shipmentCosts)) {
+      const price = parseDraftPrice(draft);
+      if (typeof price === "string") {
+        setError(price);
+        return;
+      }
+      if (price) nextShipmentCosts[shipmentId] = price;
+      else delete nextShipmentCosts[shipmentId];
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave(
+        {
+          currency: currency.trim().toUpperCase(),
+          shipmentCosts: nextShipmentCosts,
+          lineCosts: clearLineCosts ? {} : opened.lineCosts,
+          targetPrices,
+        },
+        opened.updatedAt ?? null
+      );
+      onClose();
+    } catch (saveError) {
+      setError((saveError as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label="Prices and costs"
+      className="fixed inset-0 z-20 flex items-center justify-center bg-slate-900/40 p-4"
+    >
+      <div className="flex max-h-full w-full max-w-4xl flex-col gap-4 overflow-hidden rounded-2xl bg-white p-6 shadow-xl">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-base font-semibold text-slate-900">
+              Prices and costs
+            </h2>
+            <p className="text-sm text-slate-500">
+              Target prices match on variety, and optionally caliber and pack
+              format (raw value or code); the most specific one wins.
+              {opened.updatedBy && opened.updatedAt && (
+                <>
+                  {" "}
+                  Last changed by {opened.updatedBy} ·{" "}
+                  {formatDateTime(opened.updatedAt)}.
+                </>
+              )}
+            </p>
+            {book.updatedAt !== opened.updatedAt && (
+              <p className="text-sm text-amber-700">
+                {book.updatedBy ?? "Someone"} saved the prices since you opened
+                them; reopen the editor to start from their version.
+              </p>
+            )}
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-sm font-medium text-slate-500 hover:text-slate-700"
+          >
+            Close
+          </button>
+        </div>
+
+        <div className="space-y-6 overflow-y-auto">
+          <label className="flex w-40 flex-col gap-1 text-xs font-medium uppercase tracking-wide text-slate-500">
+            Currency
+            <input
+              value={currency}
+              onChange={(event) => setCurrency(event.target.value)}
+              maxLength={3}
+              className={`${inputClass} uppercase`}
+            />
+          </label>
+
+          <section className="space-y-2">
+            <h3 className="text-sm font-semibold text-slate-900">
+              Target selling prices
+            </h3>
+            <datalist id="price-book-varieties">
+              {varieties.map((variety) => (
+                <option key={variety} value={variety} />
+              ))}
+            </datalist>
+            <table className="min-w-full text-left text-sm text-slate-700">
+              <thead className="bg-slate-50 text-xs uppercase tracking-wide text-slate-500">
+                <tr>
+                  <th className="px-3 py-2 font-semibold">Variety</th>
+                  <th className="px-3 py-2 font-semibold">Caliber</th>
+                  <th className="px-3 py-2 font-semibold">Pack format</th>
+                  <th className="px-3 py-2 font-semibold">Price</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {targets.map((target, index) => (
+                  <tr
+                    key={target.id ?? `new-${index}`}
+                    className="border-t border-slate-100"
+                  >
+                    <td className="px-3 py-2">
+                      <input
+                        value={target.variety}
+                        onChange={(event) =>
+                          updateTarget(index, { variety: event.target.value })
+                        }
+                        list="price-book-varieties"
+                        aria-label="Variety"
+                        className={inputClass}
+                      />
+                    </td>
+                    <td className="px-3 py-2">
+                      <input
+                        value={target.caliber}
+                        onChange={(event) =>
+                          updateTarget(index, { caliber: event.target.value })
+                        }
+                        placeholder="Any"
+                        aria-label="Caliber"
+                        className={inputClass}
+                      />
+                    </td>
+                    <td className="px-3 py-2">
+                      <input
+                        value={target.pack_format}
+                        onChange={(event) =>
+                          updateTarget(index, {
+                            pack_format: event.target.value,
+                          })
+                        }
+                        placeholder="Any"
+                        aria-label="Pack format"
+                        className={inputClass}
+                      />
+                    </td>
+                    <td className="px-3 py-2">
+                      <PriceInputs
+                        label="Target price"
+                        value={target}
+                        onChange={(price) => updateTarget(index, price)}
+                      />
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setTargets((prev) =>
+                            prev.filter((_, position) => position !== index)
+                          )
+                        }
+                        className="text-xs font-medium text-rose-600 hover:text-rose-700"
+                      >
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <button
+              type="button"
+              onClick={() =>
+                setTargets((prev) => [
+                  ...prev,
+                  {
+                    variety: "",
+                    caliber: "",
+                    pack_format: "",
+                    amount: "",
+                    unit: "kg",
+                  },
+                ])
+              }
+              className="text-sm font-medium text-emerald-600 hover:text-emerald-700"
+            >
+              + Add target price
+            </button>
+          </section>
+
+          <section className="space-y-2">
+            <h3 className="text-sm font-semibold text-slate-900">
+              Landed cost per shipment
+            </h3>
+            <table className="min-w-full text-left text-sm text-slate-700">
+              <thead className="bg-slate-50 text-xs uppercase tracking-wide text-slate-500">
+                <tr>
+                  <th className="px-3 py-2 font-semibold">Shipment</th>
+                  <th className="px-3 py-2 font-semibold">Booking</th>
+                  <th className="px-3 py-2 font-semibold">Vessel</th>
+                  <th className="px-3 py-2 font-semibold">Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {shipments.map((shipment) => (
+                  <tr
+                    key={shipment.shipment_id}
+                    className="border-t border-slate-100"
+                  >
+                    <td className="px-3 py-2 font-medium text-slate-900">
+                      {shipment.shipment_id}
+                    </td>
+                    <td className="px-3 py-2">{shipment.booking_reference}</td>
+                    <td className="px-3 py-2">{shipment.vessel_name}</td>
+                    <td className="px-3 py-2">
+                      <PriceInputs
+                        label={`Cost for ${shipment.shipment_id}`}
+                        value={shipmentCosts[shipment.shipment_id]}
+                        onChange={(price) =>
+                          setShipmentCosts((prev) => ({
+                            ...prev,
+                            [shipment.shipment_id]: price,
+                          }))
+                        }
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-sm text-slate-500">
+              {lineCostCount.toLocaleString("en-US")} line
+              {lineCostCount === 1 ? "" : "s"} have their own cost, set from the
+              selection bar in the lines view.
+            </p>
+            {lineCostCount > 0 && (
+              <label className="inline-flex items-center gap-2 text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={clearLineCosts}
+                  onChange={(event) => setClearLineCosts(event.target.checked)}
+                  className="h-4 w-4 rounded border-slate-300 text-emerald-600 focus:ring-emerald-500"
+                />
+                Clear line costs so every line uses its shipment cost
+              </label>
+            )}
+          </section>
+        </div>
+
+        {error && <p className="text-sm text-rose-600">{error}</p>}
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-lg border border-slate-300 px-3 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={saving}
+            className="rounded-lg bg-emerald-600 px-3 py-2 text-sm font-medium text-white hover:bg-emerald-700 disabled:opacity-60"
+          >
+            {saving ? "Saving…" : "Save prices"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import { formatKg, formatPercent } from "@/lib/format";
+import type {
+  ContainerReconciliation,
+  ReconciliationStatus,
+  ReconciliationTolerance,
+} from "@/lib/reconciliation";
+
+export const RECONCILIATION_BADGE_STYLES: Record<ReconciliationStatus, string> =
+  {
+    ok: "bg-emerald-50 text-emerald-700",
+    warning: "bg-amber-50 text-amber-700",
+    critical: "bg-rose-50 text-rose-700",
+    undeclared: "bg-slate-100 text-slate-600",
+  };
+
+const STATUS_LABELS: Record<ReconciliationStatus, string> = {
+  ok: "Within tolerance",
+  warning: "Check",
+  critical: "Out of tolerance",
+  undeclared: "No declared weight",
+};
+
+const formatSignedKg = (value: number) =>
+  `${value > 0 ? "+" : ""}${formatKg(Math.round(value * 10) / 10)}`;
+
+export default function ReconciliationView({
+  reconciliations,
+  tolerance,
+  onToleranceChange,
+}: {
+  reconciliations: ContainerReconciliation[];
+  tolerance: ReconciliationTolerance;
+  onToleranceChange: (tolerance: ReconciliationTolerance) => void;
+}) {
+  const updateTolerance = (
+    key: keyof ReconciliationTolerance,
+    value: string
+  ) => {
+    const number = Number(value);
+    if (Number.isNaN(number) || number < 0) return;
+    onToleranceChange({ ...tolerance, [key]: number });
+  };
+
+  const outOfTolerance = reconciliations.filter(
+    (entry) => entry.status === "critical"
+  ).length;
+
+  return (
+    <div className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+      <div className="mb-4 flex flex-wrap items-end justify-between gap-4">
+        <p className="text-sm text-slate-600">
+          Containers:{" "}
+          <span className="font-semibold text-slate-900">
+            {reconciliations.length.toLocaleString("en-US")}
+          </span>{" "}
+          · Out of tolerance:{" "}
+          <span className="font-semibold text-slate-900">
+            {outOfTolerance.toLocaleString("en-US")}
+          </span>
+        </p>
+        <div className="flex flex-wrap gap-3">
+          {(
+            [
+              ["warningPct", "Warn above (%)"],
+              ["criticalPct", "Out of tolerance above (%)"],
+            ] as const
+          ).map(([key, label]) => (
+            <label
+              key={key}
+              className="flex flex-col gap-1 text-xs font-medium uppercase tracking-wide text-slate-500"
+            >
+              {label}
+              <input
+                type="number"
+                min={0}
+                step={0.5}
+                value={tolerance[key]}
+                onChange={(event) => updateTolerance(key, event.target.value)}
+                className="w-32 rounded-lg border border-slate-300 px-3 py-2 text-sm font-normal normal-case tracking-normal text-slate-800"
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-left text-sm text-slate-700">
+          <thead className="bg-slate-50 text-xs uppercase tracking-wide text-slate-500">
+            <tr>
+              <th className="px-4 py-3 font-semibold">Container</th>
+              <th className="px-4 py-3 font-semibold">Shipment</th>
+              <th className="px-4 py-3 text-right font-semibold">Lines</th>
+              <th className="px-4 py-3 text-right font-semibold">Declared</th>
+              <th className="px-4 py-3 text-right font-semibold">Packed</th>
+              <th className="px-4 py-3 text-right font-semibold">Variance</th>
+              <th className="px-4 py-3 text-right font-semibold">Variance %</th>
+              <th className="px-4 py-3 font-semibold">Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {reconciliations.map((entry) => (
+              <tr
+                key={entry.container_id}
+                className="border-t border-slate-100"
+              >
+                <td className="px-4 py-3 font-medium text-slate-900">
+                  {entry.container_code}
+                </td>
+                <td className="px-4 py-3">{entry.shipment_id || "—"}</td>
+                <td className="px-4 py-3 text-right">
+                  {entry.lines.toLocaleString("en-US")}
+                </td>
+                <td className="px-4 py-3 text-right">
+                  {entry.declaredKg !== undefined
+                    ? formatKg(entry.declaredKg)
+                    : "—"}
+                </td>
+                <td className="px-4 py-3 text-right">
+                  {formatKg(Math.round(entry.packedKg * 10) / 10)}
+                </td>
+                <td className="px-4 py-3 text-right">
+                  {entry.varianceKg !== undefined
+                    ? formatSignedKg(entry.varianceKg)
+                    : "—"}
+                </td>
+                <td className="px-4 py-3 text-right">
+                  {entry.variancePct !== undefined
+                    ? `${entry.variancePct > 0 ? "+" : ""}${formatPercent(
+                        entry.variancePct
+                      )}`
+                    : "—"}
+                </td>
+                <td className="px-4 py-3">
+                  <span
+                    className={`rounded-full px-2 py-0.5 text-xs font-semibold ${
+                      RECONCILIATION_BADGE_STYLES[entry.status]
+                    }`}
+                  >
+                    {STATUS_LABELS[entry.status]}
+                  </span>
+                </td>
+              </tr>
+            ))}
+            {!reconciliations.length && (
+              <tr>
+                <td
+                  colSpan={8}
+                  className="px-4 py-6 text-center text-sm text-slate-500"
+                >
+                  No containers in the current dataset.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
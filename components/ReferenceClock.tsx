@@ -0,0 +1,122 @@
+"use client";
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from "react";
+import {
+  REFERENCE_TIME_PARAM,
+  parseReferenceTime,
+  toDateInputValue,
+} from "@/lib/clock";
+
+const LIVE_TICK_MS = 60 * 1000;
+
+interface ReferenceClock {
+  /** Reference time every status, badge and days-to-arrival is computed against. */
+  now: Date;
+  /** True when time travelling to a pinned date rather than following the live clock. */
+  pinned: boolean;
+  setPinnedTime: (date: Date | null) => void;
+}
+
+const ReferenceClockContext = createContext<ReferenceClock | null>(null);
+
+const writeUrlParam = (date: Date | null) => {
+  const url = new URL(window.location.href);
+  if (date) {
+    url.searchParams.set(REFERENCE_TIME_PARAM, toDateInputValue(date));
+  } else {
+    url.searchParams.delete(REFERENCE_TIME_PARAM);
+  }
+  window.history.replaceState(window.history.state, "", url);
+};
+
+export function ReferenceClockProvider({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const [liveNow, setLiveNow] = useState(() => new Date());
+  const [pinnedTime, setPinnedTimeState] = useState<Date | null>(null);
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    setPinnedTimeState(parseReferenceTime(params.get(REFERENCE_TIME_PARAM)));
+  }, []);
+
+  useEffect(() => {
+    if (pinnedTime) return;
+    const timer = window.setInterval(
+      () => setLiveNow(new Date()),
+      LIVE_TICK_MS
+    );
+    return () => window.clearInterval(timer);
+  }, [pinnedTime]);
+
+  const setPinnedTime = useCallback((date: Date | null) => {
+    setPinnedTimeState(date);
+    if (!date) setLiveNow(new Date());
+    writeUrlParam(date);
+  }, []);
+
+  const value = useMemo<ReferenceClock>(
+    () => ({
+      now: pinnedTime ?? liveNow,
+      pinned: pinnedTime !== null,
+      setPinnedTime,
+    }),
+    [pinnedTime, liveNow, setPinnedTime]
+  );
+
+  return (
+    <ReferenceClockContext.Provider value={value}>
+      {children}
+    </ReferenceClockContext.Provider>
+  );
+}
+
+export const useReferenceTime = () => {
+  const clock = useContext(ReferenceClockContext);
+  if (!clock) {
+    throw new Error(
+      "useReferenceTime must be used inside ReferenceClockProvider"
+    );
+  }
+  return clock;
+};
+
+export function ReferenceClockControl() {
+  const { now, pinned, setPinnedTime } = useReferenceTime();
+  return (
+    <div className="flex flex-col gap-1 text-xs font-medium uppercase tracking-wide text-slate-500">
+      Reference date
+      <div className="flex items-center gap-2">
+        <input
+          type="date"
+          value={toDateInputValue(now)}
+          onChange={(event) =>
+            setPinnedTime(parseReferenceTime(event.target.value))
+          }
+          className={`rounded-lg border px-3 py-2 text-sm font-normal normal-case tracking-normal ${
+            pinned
+              ? "border-amber-300 bg-amber-50 text-amber-800"
+              : "border-slate-300 text-slate-800"
+          }`}
+        />
+        <button
+          type="button"
+          onClick={() => setPinnedTime(null)}
+          disabled={!pinned}
+          className="text-sm font-medium normal-case tracking-normal text-emerald-600 hover:text-emerald-700 disabled:cursor-default disabled:text-slate-400"
+        >
+          {pinned ? "Back to live" : "Live"}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import type { ReferentialIssue, ReferentialIssueKind } from "@/types";
+
+const MAX_LISTED_ISSUES = 20;
+
+const KIND_LABELS: Record<ReferentialIssueKind, string> = {
+  missing_shipment: "Unknown shipment",
+  missing_container: "Unknown container",
+  container_shipment_mismatch: "Container on other shipment",
+  field_mismatch: "Differs from shipment",
+};
+
+export default function ReferentialIssues({
+  issues,
+}: {
+  issues: ReferentialIssue[];
+}) {
+  if (!issues.length) return null;
+  return (
+    <details className="rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800">
+      <summary className="cursor-pointer font-medium">
+        {issues.length.toLocaleString("en-US")} referential issues between
+        pallet lines, shipments and containers
+      </summary>
+      <ul className="mt-2 space-y-1">
+        {issues.slice(0, MAX_LISTED_ISSUES).map((issue) => (
+          <li
+            key={`${issue.kind}-${issue.shipment_id}-${issue.container_id}-${issue.message}`}
+          >
+            <span className="font-semibold">{KIND_LABELS[issue.kind]}</span> ·{" "}
+            {issue.shipment_id} · {issue.message} (
+            {issue.lines.length.toLocaleString("en-US")} lines)
+          </li>
+        ))}
+        {issues.length > MAX_LISTED_ISSUES && (
+          <li>…and {issues.length - MAX_LISTED_ISSUES} more</li>
+        )}
+      </ul>
+    </details>
+  );
+}
@@ -0,0 +1,155 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { deleteView, fetchSavedViews, saveView } from "@/lib/viewState";
+import type { SavedView, SavedViewScope } from "@/types";
+
+const controlClass =
+  "rounded-lg border border-slate-300 bg-white px-2 py-1 text-sm text-slate-800";
+
+export default function SavedViewsMenu({
+  user,
+  currentQuery,
+  onApply,
+}: {
+  user: string;
+  currentQuery: string;
+  onApply: (query: string) => void;
+}) {
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [selectedId, setSelectedId] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [name, setName] = useState("");
+  const [scope, setScope] = useState<SavedViewScope>("personal");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSavedViews(user)
+      .then((loaded) => {
+        setViews(loaded);
+        setError(null);
+      })
+      .catch((loadError: Error) => setError(loadError.message));
+  }, [user]);
+
+  const teamViews = views.filter((view) => view.scope === "team");
+  const personalViews = views.filter((view) => view.scope === "personal");
+  const selected = views.find((view) => view.id === selectedId);
+
+  const handleSelect = (id: string) => {
+    setSelectedId(id);
+    const view = views.find((item) => item.id === id);
+    if (view) onApply(view.query);
+  };
+
+  const handleSave = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!name.trim()) return;
+    try {
+      const next = await saveView(
+        { name: name.trim(), scope, query: currentQuery },
+        user
+      );
+      setViews(next);
+      setSelectedId(next[next.length - 1]?.id ?? "");
+      setName("");
+      setSaving(false);
+      setError(null);
+    } catch (saveError) {
+      setError((saveError as Error).message);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected) return;
+    try {
+      setViews(await deleteView(selected.id, user));
+      setSelectedId("");
+      setError(null);
+    } catch (deleteError) {
+      setError((deleteError as Error).message);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        value={selectedId}
+        onChange={(event) => handleSelect(event.target.value)}
+        className={controlClass}
+        aria-label="Saved views"
+      >
+        <option value="">Saved views…</option>
+        {teamViews.length > 0 && (
+          <optgroup label="Team">
+            {teamViews.map((view) => (
+              <option key={view.id} value={view.id}>
+                {view.name} ({view.owner})
+              </option>
+            ))}
+          </optgroup>
+        )}
+        {personalViews.length > 0 && (
+          <optgroup label="Mine">
+            {personalViews.map((view) => (
+              <option key={view.id} value={view.id}>
+                {view.name}
+              </option>
+            ))}
+          </optgroup>
+        )}
+      </select>
+      {selected && selected.owner === user && (
+        <button
+          type="button"
+          onClick={handleDelete}
+          className="text-sm font-medium text-rose-600 hover:text-rose-700"
+        >
+          Delete
+        </button>
+      )}
+      {saving ? (
+        <form onSubmit={handleSave} className="flex items-center gap-2">
+          <input
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            placeholder="View name"
+            className={controlClass}
+            autoFocus
+          />
+          <select
+            value={scope}
+            onChange={(event) => setScope(event.target.value as SavedViewScope)}
+            className={controlClass}
+          >
+            <option value="personal">Personal</option>
+            <option value="team">Team</option>
+          </select>
+          <button
+            type="submit"
+            disabled={!name.trim()}
+            className="text-sm font-medium text-emerald-600 hover:text-emerald-700 disabled:text-slate-400"
+          >
+            Save
+          </button>
+          <button
+            type="button"
+            onClick={() => setSaving(false)}
+            className="text-sm font-medium text-slate-500 hover:text-slate-700"
+          >
+            Cancel
+          </button>
+        </form>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setSaving(true)}
+          className="text-sm font-medium text-emerald-600 hover:text-emerald-700"
+        >
+          Save view
+        </button>
+      )}
+      {error && <span className="text-sm text-rose-600">{error}</span>}
+    </div>
+  );
+}
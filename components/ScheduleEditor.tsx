@@ -0,0 +1,179 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toDateInputValue } from "@/lib/clock";
+import { formatDateTime } from "@/lib/format";
+import {
+  SCHEDULE_SOURCES,
+  formatDelay,
+  type ScheduleChangeInput,
+  type ShipmentSchedule,
+} from "@/lib/schedule";
+
+const inputClass =
+  "rounded-lg border border-slate-300 px-3 py-2 text-sm font-normal normal-case tracking-normal text-slate-800";
+const labelClass =
+  "flex flex-col gap-1 text-xs font-medium uppercase tracking-wide text-slate-500";
+
+const formatDate = (iso: string) => iso.slice(0, 10);
+
+export default function ScheduleEditor({
+  schedule,
+  onSave,
+}: {
+  schedule: ShipmentSchedule;
+  onSave: (change: ScheduleChangeInput) => Promise<void>;
+}) {
+  const [etd, setEtd] = useState(toDateInputValue(new Date(schedule.etd)));
+  const [eta, setEta] = useState(toDateInputValue(new Date(schedule.eta)));
+  const [source, setSource] = useState(SCHEDULE_SOURCES[0]);
+  const [reason, setReason] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setEtd(toDateInputValue(new Date(schedule.etd)));
+    setEta(toDateInputValue(new Date(schedule.eta)));
+  }, [schedule.etd, schedule.eta]);
+
+  const unchanged =
+    etd === toDateInputValue(new Date(schedule.etd)) &&
+    eta === toDateInputValue(new Date(schedule.eta));
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!reason.trim()) {
+      setError("Give a reason so the team knows why the schedule moved.");
+      return;
+    }
+    if (eta < etd) {
+      setError("ETA cannot be before ETD.");
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave({
+        shipment_id: schedule.shipment_id,
+        etd: `${etd}T00:00:00Z`,
+        eta: `${eta}T00:00:00Z`,
+        source,
+        reason: reason.trim(),
+      });
+      setReason("");
+    } catch (saveError) {
+      setError((saveError as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <form
+        onSubmit={handleSubmit}
+        className="flex flex-wrap items-end gap-3 rounded-xl border border-slate-200 bg-white p-4 shadow-sm"
+      >
+        <label className={labelClass}>
+          ETD
+          <input
+            type="date"
+            value={etd}
+            onChange={(event) => setEtd(event.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <label className={labelClass}>
+          ETA
+          <input
+            type="date"
+            value={eta}
+            onChange={(event) => setEta(event.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <label className={labelClass}>
+          Source
+          <select
+            value={source}
+            onChange={(event) => setSource(event.target.value)}
+            className={inputClass}
+          >
+            {SCHEDULE_SOURCES.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className={`${labelClass} min-w-[16rem] flex-1`}>
+          Reason
+          <input
+            value={reason}
+            onChange={(event) => setReason(event.target.value)}
+            placeholder="e.g. Vessel rolled to next sailing"
+            className={inputClass}
+          />
+        </label>
+        <button
+          type="submit"
+          disabled={saving || unchanged}
+          className="rounded-lg bg-emerald-600 px-3 py-2 text-sm font-medium text-white hover:bg-emerald-700 disabled:opacity-60"
+        >
+          {saving ? "Saving…" : "Update schedule"}
+        </button>
+        {error && <p className="w-full text-sm text-rose-600">{error}</p>}
+      </form>
+
+      <div className="overflow-x-auto rounded-xl border border-slate-200 bg-white shadow-sm">
+        <table className="min-w-full text-left text-sm text-slate-700">
+          <thead className="bg-slate-50 text-xs uppercase tracking-wide text-slate-500">
+            <tr>
+              <th className="px-4 py-3 font-semibold">When</th>
+              <th className="px-4 py-3 font-semibold">By</th>
+              <th className="px-4 py-3 font-semibold">Source</th>
+              <th className="px-4 py-3 font-semibold">ETD</th>
+              <th className="px-4 py-3 font-semibold">ETA</th>
+              <th className="px-4 py-3 font-semibold">Reason</th>
+            </tr>
+          </thead>
+          <tbody>
+            {[...schedule.history].reverse().map((change) => (
+              <tr key={change.id} className="border-t border-slate-100">
+                <td className="px-4 py-3">
+                  {formatDateTime(change.changedAt)}
+                </td>
+                <td className="px-4 py-3">{change.changedBy}</td>
+                <td className="px-4 py-3">{change.source}</td>
+                <td className="px-4 py-3">
+                  {formatDate(change.previous_etd)} → {formatDate(change.etd)}
+                </td>
+                <td className="px-4 py-3">
+                  {formatDate(change.previous_eta)} → {formatDate(change.eta)}
+                </td>
+                <td className="px-4 py-3 text-slate-600">{change.reason}</td>
+              </tr>
+            ))}
+            {!schedule.history.length && (
+              <tr>
+                <td
+                  colSpan={6}
+                  className="px-4 py-6 text-center text-sm text-slate-500"
+                >
+                  No schedule changes recorded. Original ETA{" "}
+                  {formatDate(schedule.originalEta)}.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+      {schedule.delayDays !== 0 && (
+        <p className="text-sm text-slate-600">
+          {formatDelay(schedule.delayDays)} against the original ETA of{" "}
+          {formatDate(schedule.originalEta)}.
+        </p>
+      )}
+    </div>
+  );
+}
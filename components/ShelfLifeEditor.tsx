@@ -0,0 +1,308 @@
+"use client";
+
+import { useState } from "react";
+import { formatDateTime } from "@/lib/format";
+import type { ShelfLifeConfig, ShelfLifeRule } from "@/types";
+
+const inputClass =
+  "w-full rounded-lg border border-slate-300 px-2 py-1 text-sm text-slate-800";
+
+interface DraftRule {
+  id?: string;
+  product: string;
+  variety: string;
+  days: string;
+}
+
+// Blank means "not set"; anything else must be a whole number of days.
+const parseDays = (value: string, label: string): number | null | string => {
+  if (!value.trim()) return null;
+  const days = Number(value);
+  if (!Number.isInteger(days) || days < 0) {
+    return `${label} must be a whole number of days.`;
+  }
+  return days;
+};
+
+export default function ShelfLifeEditor({
+  config,
+  products,
+  varieties,
+  onSave,
+  onClose,
+}: {
+  config: ShelfLifeConfig;
+  products: string[];
+  varieties: string[];
+  onSave: (config: ShelfLifeConfig) => Promise<void>;
+  onClose: () => void;
+}) {
+  const [defaultDays, setDefaultDays] = useState(
+    config.defaultDays === null ? "" : `${config.defaultDays}`
+  );
+  const [watchDays, setWatchDays] = useState(`${config.watchDays}`);
+  const [urgentDays, setUrgentDays] = useState(`${config.urgentDays}`);
+  const [rules, setRules] = useState<DraftRule[]>(() =>
+    config.rules.map((rule) => ({
+      id: rule.id,
+      product: rule.product ?? "",
+      variety: rule.variety ?? "",
+      days: `${rule.days}`,
+    }))
+  );
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateRule = (index: number, patch: Partial<DraftRule>) =>
+    setRules((prev) =>
+      prev.map((rule, position) =>
+        position === index ? { ...rule, ...patch } : rule
+      )
+    );
+
+  const handleSave = async () => {
+    const parsedDefault = parseDays(defaultDays, "Default shelf life");
+    const parsedWatch = parseDays(watchDays, "Watch threshold");
+    const parsedUrgent = parseDays(urgentDays, "Sell-first threshold");
+    for (const parsed of [parsedDefault, parsedWatch, parsedUrgent]) {
+      if (typeof parsed === "string") {
+        setError(parsed);
+        return;
+      }
+    }
+    if (parsedWatch === null || parsedUrgent === null) {
+      setError("Both urgency thresholds are required.");
+      return;
+    }
+    if (parsedUrgent > parsedWatch) {
+      setError("The sell-first threshold must not exceed the watch threshold.");
+      return;
+    }
+
+    const nextRules: ShelfLifeRule[] = [];
+    for (const rule of rules) {
+      const product = rule.product.trim();
+      const variety = rule.variety.trim();
+      if (!product && !variety && !rule.days.trim()) continue;
+      const days = parseDays(rule.days, `Shelf life of ${variety || product}`);
+      if (typeof days === "string") {
+        setError(days);
+        return;
+      }
+      if ((!product && !variety) || !days) {
+        setError(
+          "Every rule needs a product or a variety and a number of days."
+        );
+        return;
+      }
+      nextRules.push({
+        id: rule.id ?? "",
+        product: product || undefined,
+        variety: variety || undefined,
+        days,
+      });
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave({
+        defaultDays: parsedDefault as number | null,
+        watchDays: parsedWatch as number,
+        urgentDays: parsedUrgent as number,
+        rules: nextRules,
+      });
+      onClose();
+    } catch (saveError) {
+      setError((saveError as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label="Shelf life"
+      className="fixed inset-0 z-20 flex items-center justify-center bg-slate-900/40 p-4"
+    >
+      <div className="flex max-h-full w-full max-w-3xl flex-col gap-4 overflow-hidden rounded-2xl bg-white p-6 shadow-xl">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-base font-semibold text-slate-900">
+              Shelf life
+            </h2>
+            <p className="text-sm text-slate-500">
+              Maximum days from pack date, per product and variety; the most
+              specific rule wins. Lines without a pack date are not tracked.
+              {config.updatedBy && config.updatedAt && (
+                <>
+                  {" "}
+                  Last changed by {config.updatedBy} ·{" "}
+                  {formatDateTime(config.updatedAt)}.
+                </>
+              )}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-sm font-medium text-slate-500 hover:text-slate-700"
+          >
+            Close
+          </button>
+        </div>
+
+        <div className="space-y-6 overflow-y-auto">
+          <div className="grid gap-4 sm:grid-cols-3">
+            {(
+              [
+                ["Default shelf life (days)", defaultDays, setDefaultDays],
+                ["Watch at days left", watchDays, setWatchDays],
+                ["Sell first at days left", urgentDays, setUrgentDays],
+              ] as const
+            ).map(([label, value, setValue]) => (
+              <label
+                key={label}
+                className="flex flex-col gap-1 text-xs font-medium uppercase tracking-wide text-slate-500"
+              >
+                {label}
+                <input
+                  value={value}
+                  onChange={(event) => setValue(event.target.value)}
+                  inputMode="numeric"
+                  placeholder="—"
+                  className={inputClass}
+                />
+              </label>
+            ))}
+          </div>
+
+          <section className="space-y-2">
+            <h3 className="text-sm font-semibold text-slate-900">Rules</h3>
+            <datalist id="shelf-life-products">
+              {products.map((product) => (
+                <option key={product} value={product} />
+              ))}
+            </datalist>
+            <datalist id="shelf-life-varieties">
+              {varieties.map((variety) => (
+                <option key={variety} value={variety} />
+              ))}
+            </datalist>
+            <table className="min-w-full text-left text-sm text-slate-700">
+              <thead className="bg-slate-50 text-xs uppercase tracking-wide text-slate-500">
+                <tr>
+                  <th className="px-3 py-2 font-semibold">Product</th>
+                  <th className="px-3 py-2 font-semibold">Variety</th>
+                  <th className="px-3 py-2 font-semibold">Days</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {rules.map((rule, index) => (
+                  <tr
+                    key={rule.id ?? `new-${index}`}
+                    className="border-t border-slate-100"
+                  >
+                    <td className="px-3 py-2">
+                      <input
+                        value={rule.product}
+                        onChange={(event) =>
+                          updateRule(index, { product: event.target.value })
+                        }
+                        list="shelf-life-products"
+                        placeholder="Any"
+                        aria-label="Product"
+                        className={inputClass}
+                      />
+                    </td>
+                    <td className="px-3 py-2">
+                      <input
+                        value={rule.variety}
+                        onChange={(event) =>
+                          updateRule(index, { variety: event.target.value })
+                        }
+                        list="shelf-life-varieties"
+                        placeholder="Any"
+                        aria-label="Variety"
+                        className={inputClass}
+                      />
+                    </td>
+                    <td className="w-28 px-3 py-2">
+                      <input
+                        value={rule.days}
+                        onChange={(event) =>
+                          updateRule(index, { days: event.target.value })
+                        }
+                        inputMode="numeric"
+                        aria-label="Days"
+                        className={`${inputClass} text-right`}
+                      />
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setRules((prev) =>
+                            prev.filter((_, position) => position !== index)
+                          )
+                        }
+                        className="text-xs font-medium text-rose-600 hover:text-rose-700"
+                      >
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+                {!rules.length && (
+                  <tr>
+                    <td
+                      colSpan={4}
+                      className="px-3 py-4 text-center text-sm text-slate-500"
+                    >
+                      No rules yet; every line uses the default.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+            <button
+              type="button"
+              onClick={() =>
+                setRules((prev) => [
+                  ...prev,
+                  { product: "", variety: "", days: "" },
+                ])
+              }
+              className="text-sm font-medium text-emerald-600 hover:text-emerald-700"
+            >
+              + Add rule
+            </button>
+          </section>
+        </div>
+
+        {error && <p className="text-sm text-rose-600">{error}</p>}
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-lg border border-slate-300 px-3 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={saving}
+            className="rounded-lg bg-emerald-600 px-3 py-2 text-sm font-medium text-white hover:bg-emerald-700 disabled:opacity-60"
+          >
+            {saving ? "Saving…" : "Save shelf life"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+"use client";
+
+import { useMemo } from "react";
+import { formatTons } from "@/lib/format";
+import type { ShipmentGroup } from "@/lib/hierarchy";
+import {
+  buildTimeline,
+  getWeekTicks,
+  toTimelinePercent,
+  type TimelineGranularity,
+  type TimelineGrouping,
+} from "@/lib/timeline";
+
+const selectClass =
+  "rounded-lg border border-slate-300 px-3 py-2 text-sm font-normal normal-case tracking-normal text-slate-800";
+const labelClass =
+  "flex flex-col gap-1 text-xs font-medium uppercase tracking-wide text-slate-500";
+
+const MIN_BAR_PX = 10;
+const MAX_BAR_PX = 32;
+
+const formatTick = (date: Date) =>
+  date.toLocaleDateString("en-GB", {
+    day: "2-digit",
+    month: "short",
+    timeZone: "UTC",
+  });
+
+export interface TimelineSettings {
+  grouping: TimelineGrouping;
+  granularity: TimelineGranularity;
+}
+
+export default function TimelineView({
+  groups,
+  now,
+  settings,
+  onSettingsChange,
+  onSelectShipment,
+}: {
+  groups: ShipmentGroup[];
+  now: Date;
+  settings: TimelineSettings;
+  onSettingsChange: (settings: TimelineSettings) => void;
+  onSelectShipment: (shipmentId: string) => void;
+}) {
+  const timeline = useMemo(
+    () => buildTimeline(groups, settings.grouping, settings.granularity),
+    [groups, settings.grouping, settings.granularity]
+  );
+  const nowPercent = timeline ? toTimelinePercent(timeline, now) : -1;
+
+  return (
+    <div className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+      <div className="mb-4 flex flex-wrap items-end justify-between gap-4">
+        <div className="flex flex-wrap gap-3">
+          <label className={labelClass}>
+            Lanes
+            <select
+              value={settings.grouping}
+              onChange={(event) =>
+                onSettingsChange({
+                  ...settings,
+                  grouping: event.target.value as TimelineGrouping,
+                })
+              }
+              className={selectClass}
+            >
+              <option value="port">By destination port</option>
+              <option value="carrier">By carrier</option>
+            </select>
+          </label>
+          <label className={labelClass}>
+            Bars
+            <select
+              value={settings.granularity}
+              onChange={(event) =>
+                onSettingsChange({
+                  ...settings,
+                  granularity: event.target.value as TimelineGranularity,
+                })
+              }
+              className={selectClass}
+            >
+              <option value="shipment">One per shipment</option>
+              <option value="container">One per container</option>
+            </select>
+          </label>
+        </div>
+        <p className="text-xs text-slate-500">
+          Bar thickness follows kg. Click a bar to list its shipment&apos;s
+          lines.
+        </p>
+      </div>
+
+      {!timeline ? (
+        <p className="px-4 py-6 text-center text-sm text-slate-500">
+          No shipments match the current filters.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <div className="min-w-[720px]">
+            <div className="flex border-b border-slate-200 pb-1 text-xs text-slate-500">
+              <div className="w-40 shrink-0" />
+              <div className="relative h-4 flex-1">
+                {getWeekTicks(timeline).map((tick) => (
+                  <span
+                    key={tick.toISOString()}
+                    className="absolute -translate-x-1/2 whitespace-nowrap"
+                    style={{ left: `${toTimelinePercent(timeline, tick)}%` }}
+                  >
+                    {formatTick(tick)}
+                  </span>
+                ))}
+              </div>
+            </div>
+            {timeline.lanes.map((lane) => (
+              <div
+                key={lane.key}
+                className="flex border-b border-slate-100 py-2 last:border-b-0"
+              >
+                <div className="w-40 shrink-0 pr-3">
+                  <p className="text-sm font-medium text-slate-900">
+                    {lane.key}
+                  </p>
+                  <p className="text-xs text-slate-500">
+                    {formatTons(lane.kg)} t
+                  </p>
+                </div>
+                <div className="relative flex-1 space-y-1">
+                  {nowPercent >= 0 && nowPercent <= 100 && (
+                    <div
+                      className="pointer-events-none absolute inset-y-0 z-10 w-px bg-rose-500"
+                      style={{ left: `${nowPercent}%` }}
+                    />
+                  )}
+                  {lane.bars.map((bar) => {
+                    const left = toTimelinePercent(timeline, bar.start);
+                    const width = Math.max(
+                      toTimelinePercent(timeline, bar.end) - left,
+                      0.5
+                    );
+                    const height =
+                      MIN_BAR_PX +
+                      (timeline.maxKg
+                        ? (bar.kg / timeline.maxKg) * (MAX_BAR_PX - MIN_BAR_PX)
+                        : 0);
+                    return (
+                      <div
+                        key={bar.id}
+                        className="relative"
+                        style={{ height: `${height}px` }}
+                      >
+                        <button
+                          type="button"
+                          onClick={() => onSelectShipment(bar.shipment_id)}
+                          title={`${bar.label}: ${bar.start
+                            .toISOString()
+                            .slice(0, 10)} → ${bar.end
+                            .toISOString()
+                            .slice(0, 10)}, ${formatTons(bar.kg)} t`}
+                          className="absolute inset-y-0 overflow-hidden whitespace-nowrap rounded-md bg-emerald-500/80 px-2 text-left text-xs font-medium text-white hover:bg-emerald-600"
+                          style={{ left: `${left}%`, width: `${width}%` }}
+                        >
+                          {bar.label} · {formatTons(bar.kg)} t
+                        </button>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+            {nowPercent >= 0 && nowPercent <= 100 && (
+              <div className="flex text-xs font-semibold text-rose-600">
+                <div className="w-40 shrink-0" />
+                <div className="relative h-4 flex-1">
+                  <span
+                    className="absolute -translate-x-1/2"
+                    style={{ left: `${nowPercent}%` }}
+                  >
+                    Now
+                  </span>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
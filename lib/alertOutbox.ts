@@ -0,0 +1,119 @@
+import { randomUUID } from "crypto";
+import { readStore, updateStore } from "@/lib/store";
+import type { Alert, AlertRule, OutboxMessage } from "@/types";
+
+// Server-only delivery of alert notifications. Webhooks are posted to the
+// rule's URL; emails are posted as JSON to ALERT_EMAIL_RELAY_URL, e.g. a
+// local stand-in that forwards them or just logs them.
+export const OUTBOX_STORE = "alert-outbox";
+
+const MAX_ATTEMPTS = 5;
+const TIMEOUT_MS = 5000;
+const MAX_SENT_KEPT = 500;
+
+/** One message per channel and recipient of the rule. */
+export const buildNotifications = (
+  alert: Alert,
+  rule: AlertRule
+): OutboxMessage[] => {
+  const subject = `[${rule.name}] ${alert.subject}`;
+  const targets = [
+    ...(rule.webhookUrl
+      ? [{ channel: "webhook" as const, to: rule.webhookUrl }]
+      : []),
+    ...(rule.emails ?? []).map((to) => ({ channel: "email" as const, to })),
+  ];
+  return targets.map(({ channel, to }) => ({
+    id: randomUUID(),
+    alertId: alert.id,
+    channel,
+    to,
+    subject,
+    body: alert.message,
+    status: "queued",
+    attempts: 0,
+    createdAt: alert.firstSeenAt,
+  }));
+};
+
+const send = async (message: OutboxMessage): Promise<string | null> => {
+  const url =
+    message.channel === "webhook"
+      ? message.to
+      : process.env.ALERT_EMAIL_RELAY_URL;
+  if (!url) return "ALERT_EMAIL_RELAY_URL is not set";
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        alertId: message.alertId,
+        ...(message.channel === "email" ? { to: message.to } : {}),
+        subject: message.subject,
+        text: message.body,
+      }),
+      signal: AbortSignal.timeout(TIMEOUT_MS),
+    });
+    return response.ok ? null : `HTTP ${response.status}`;
+  } catch (error) {
+    return (error as Error).message;
+  }
+};
+
+const deliverPending = async (retryExhausted: boolean) => {
+  const messages = await readStore<OutboxMessage[]>(OUTBOX_STORE, []);
+  const pending = messages.filter(
+    (message) =>
+      message.status !== "sent" &&
+      (retryExhausted || message.attempts < MAX_ATTEMPTS)
+  );
+  const errors = new Map(
+    await Promise.all(
+      pending.map(async (message) => [message.id, await send(message)] as const)
+    )
+  );
+  const now = new Date().toISOString();
+  return updateStore<OutboxMessage[]>(OUTBOX_STORE, [], (current) => {
+    const next = current.map((message): OutboxMessage => {
+      if (!errors.has(message.id)) return message;
+      const error = errors.get(message.id);
+      return error
+        ? {
+            ...message,
+            status: "failed",
+            attempts: message.attempts + 1,
+            lastError: error,
+          }
+        : {
+            ...message,
+            status: "sent",
+            attempts: message.attempts + 1,
+            lastError: undefined,
+            sentAt: now,
+          };
+    });
+    // Keep undelivered messages and the most recent deliveries.
+    const sent = next.filter((message) => message.status === "sent");
+    const dropped = new Set(
+      sent.slice(0, Math.max(sent.length - MAX_SENT_KEPT, 0))
+    );
+    return next.filter((message) => !dropped.has(message));
+  });
+};
+
+let running: Promise<unknown> = Promise.resolve();
+
+/**
+ * Tries every message that is not delivered yet and has attempts left, or
+ * every undelivered message with `retryExhausted`. Runs are serialized so a
+ * message is never sent twice concurrently.
+ */
+export const deliverOutbox = (
+  retryExhausted = false
+): Promise<OutboxMessage[]> => {
+  const next = running
+    .catch(() => undefined)
+    .then(() => deliverPending(retryExhausted));
+  running = next;
+  return next;
+};
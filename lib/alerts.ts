@@ -0,0 +1,243 @@
+import { getDaysToArrival } from "@/lib/filters";
+import { formatKg } from "@/lib/format";
+import type { ContainerReconciliation } from "@/lib/reconciliation";
+import type {
+  Alert,
+  AlertRule,
+  AlertRuleKind,
+  EnrichedRow,
+  FiredAlert,
+  OutboxMessage,
+} from "@/types";
+
+const ENDPOINT = "/api/alerts";
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+export const ALERT_RULE_KINDS: Array<{ kind: AlertRuleKind; label: string }> = [
+  { kind: "unallocated_arrivals", label: "Unallocated kg arriving soon" },
+  { kind: "arrival_unconfirmed", label: "ETA passed, arrival not confirmed" },
+  { kind: "weight_variance", label: "Container weight variance" },
+];
+
+export const SNOOZE_OPTIONS = [
+  { hours: 1, label: "1 hour" },
+  { hours: 4, label: "4 hours" },
+  { hours: 24, label: "1 day" },
+  { hours: 24 * 7, label: "1 week" },
+];
+
+export interface AlertInputs {
+  rows: EnrichedRow[];
+  now: Date;
+  getRemainingKg: (row: EnrichedRow) => number;
+  reconciliations: ContainerReconciliation[];
+  /** Arrival is confirmed by a QC inspection on any line of the container. */
+  isContainerInspected: (containerId: string) => boolean;
+}
+
+export const describeRule = (rule: AlertRule) => {
+  switch (rule.kind) {
+    case "unallocated_arrivals":
+      return `Unallocated kg arriving at ${rule.port || "any port"} in ≤ ${
+        rule.withinDays ?? 0
+      } days > ${formatKg(rule.minKg ?? 0)}`;
+    case "arrival_unconfirmed":
+      return `ETA passed ${rule.graceDays ?? 0}+ days ago without a QC inspection`;
+    case "weight_variance":
+      return `Container weight variance > ${rule.minPct ?? 0} %`;
+  }
+};
+
+const sameText = (a: string, b: string) =>
+  a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const evaluateUnallocated = (
+  rule: AlertRule,
+  { rows, now, getRemainingKg }: AlertInputs
+): FiredAlert[] => {
+  const withinDays = rule.withinDays ?? 0;
+  const byPort = new Map<string, number>();
+  rows.forEach((row) => {
+    if (row.etaDate.getTime() <= now.getTime()) return;
+    if (getDaysToArrival(row.etaDate, now) > withinDays) return;
+    if (rule.port && !sameText(rule.port, row.port_destination)) return;
+    byPort.set(
+      row.port_destination,
+      (byPort.get(row.port_destination) ?? 0) + getRemainingKg(row)
+    );
+  });
+  return Array.from(byPort.entries())
+    .filter(([, kg]) => kg > (rule.minKg ?? 0))
+    .map(([port, kg]) => ({
+      ruleId: rule.id,
+      subject: port,
+      message: `${formatKg(Math.round(kg))} unallocated arriving at ${port} within ${withinDays} days`,
+    }));
+};
+
+const evaluateUnconfirmed = (
+  rule: AlertRule,
+  { rows, now, isContainerInspected }: AlertInputs
+): FiredAlert[] => {
+  const due = new Map<string, EnrichedRow>();
+  rows.forEach((row) => {
+    const daysLate = (now.getTime() - row.etaDate.getTime()) / ONE_DAY_MS;
+    if (daysLate < (rule.graceDays ?? 0) || daysLate <= 0) return;
+    if (!due.has(row.container_id)) due.set(row.container_id, row);
+  });
+  return Array.from(due.values())
+    .filter((row) => !isContainerInspected(row.container_id))
+    .map((row) => ({
+      ruleId: rule.id,
+      subject: row.container_id,
+      message: `Container ${row.container_code} (${row.booking_reference}) was due at ${
+        row.port_destination
+      } on ${row.etaDate.toISOString().slice(0, 10)} and has no QC inspection`,
+    }));
+};
+
+const evaluateVariance = (
+  rule: AlertRule,
+  { reconciliations }: AlertInputs
+): FiredAlert[] =>
+  reconciliations
+    .filter(
+      (entry) =>
+        entry.variancePct !== undefined &&
+        Math.abs(entry.variancePct) > (rule.minPct ?? 0)
+    )
+    .map((entry) => ({
+      ruleId: rule.id,
+      subject: entry.container_id,
+      message: `Container ${entry.container_code} packs ${formatKg(
+        Math.round(entry.packedKg)
+      )} against ${formatKg(entry.declaredKg ?? 0)} declared (${(
+        entry.variancePct ?? 0
+      ).toFixed(1)} %)`,
+    }));
+
+/** Runs every enabled rule against the whole dataset, ignoring filters. */
+export const evaluateAlertRules = (
+  rules: AlertRule[],
+  inputs: AlertInputs
+): FiredAlert[] =>
+  rules
+    .filter((rule) => rule.enabled)
+    .flatMap((rule) => {
+      switch (rule.kind) {
+        case "unallocated_arrivals":
+          return evaluateUnallocated(rule, inputs);
+        case "arrival_unconfirmed":
+          return evaluateUnconfirmed(rule, inputs);
+        case "weight_variance":
+          return evaluateVariance(rule, inputs);
+      }
+    });
+
+/** Unresolved, not acknowledged and not snoozed at `now`. */
+export const isAlertActive = (alert: Alert, now: Date) =>
+  !alert.resolvedAt &&
+  !alert.acknowledgedAt &&
+  !(alert.snoozedUntil && Date.parse(alert.snoozedUntil) > now.getTime());
+
+export const fetchAlertRules = async (): Promise<AlertRule[]> => {
+  const response = await fetch(`${ENDPOINT}/rules`, { cache: "no-store" });
+  if (!response.ok) {
+    throw new Error(`Failed to load alert rules (${response.status})`);
+  }
+  const payload = (await response.json()) as { rules: AlertRule[] };
+  return payload.rules ?? [];
+};
+
+export const saveAlertRules = async (
+  rules: AlertRule[],
+  user: string
+): Promise<AlertRule[]> => {
+  const response = await fetch(`${ENDPOINT}/rules`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ rules, user }),
+  });
+  if (!response.ok) {
+    const payload = await response.json().catch(() => null);
+    throw new Error(
+      payload?.error ?? `Failed to save alert rules (${response.status})`
+    );
+  }
+  const payload = (await response.json()) as { rules: AlertRule[] };
+  return payload.rules;
+};
+
+export const fetchAlerts = async (): Promise<Alert[]> => {
+  const response = await fetch(ENDPOINT, { cache: "no-store" });
+  if (!response.ok) {
+    throw new Error(`Failed to load alerts (${response.status})`);
+  }
+  const payload = (await response.json()) as { alerts: Alert[] };
+  return payload.alerts ?? [];
+};
+
+/**
+ * Reports what the rules currently find in `dataset`. New alerts are queued
+ * for notification; alerts of the dataset no longer found are resolved.
+ */
+export const reportAlerts = async (
+  dataset: string,
+  fired: FiredAlert[]
+): Promise<Alert[]> => {
+  const response = await fetch(ENDPOINT, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ dataset, fired }),
+  });
+  if (!response.ok) {
+    const payload = await response.json().catch(() => null);
+    throw new Error(
+      payload?.error ?? `Failed to report alerts (${response.status})`
+    );
+  }
+  const payload = (await response.json()) as { alerts: Alert[] };
+  return payload.alerts;
+};
+
+export const updateAlert = async (
+  id: string,
+  update: { action: "acknowledge" } | { action: "snooze"; hours: number },
+  user: string
+): Promise<Alert[]> => {
+  const response = await fetch(ENDPOINT, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ id, ...update, user }),
+  });
+  if (!response.ok) {
+    const payload = await response.json().catch(() => null);
+    throw new Error(
+      payload?.error ?? `Failed to update alert (${response.status})`
+    );
+  }
+  const payload = (await response.json()) as { alerts: Alert[] };
+  return payload.alerts;
+};
+
+export const fetchOutbox = async (): Promise<OutboxMessage[]> => {
+  const response = await fetch(`${ENDPOINT}/outbox`, { cache: "no-store" });
+  if (!response.ok) {
+    throw new Error(`Failed to load the outbox (${response.status})`);
+  }
+  const payload = (await response.json()) as { messages: OutboxMessage[] };
+  return payload.messages ?? [];
+};
+
+/** Retries every undelivered message and returns the outbox. */
+export const flushOutbox = async (): Promise<OutboxMessage[]> => {
+  const response = await fetch(`${ENDPOINT}/outbox`, { method: "POST" });
+  if (!response.ok) {
+    const payload = await response.json().catch(() => null);
+    throw new Error(
+      payload?.error ?? `Failed to deliver the outbox (${response.status})`
+    );
+  }
+  const payload = (await response.json()) as { messages: OutboxMessage[] };
+  return payload.messages;
+};
@@ -0,0 +1,179 @@
+import type {
+  AllocationInput,
+  AllocationState,
+  LineAllocationMap,
+  LineAllocationRecord,
+  LineAllocationUpdate,
+  PalletItem,
+} from "@/types";
+
+const ENDPOINT = "/api/allocations";
+
+export interface LineAllocationSummary {
+  allocatedBoxes: number;
+  remainingBoxes: number;
+  allocatedKg: number;
+  remainingKg: number;
+  state: AllocationState;
+}
+
+export const fetchAllocations = async (): Promise<LineAllocationMap> => {
+  const response = await fetch(ENDPOINT, { cache: "no-store" });
+  if (!response.ok) {
+    throw new Error(`Failed to load allocations (${response.status})`);
+  }
+  const payload = (await response.json()) as { allocations: LineAllocationMap };
+  return payload.allocations ?? {};
+};
+
+/**
+ * Replaces one line's allocations. `boxCount` is the line's box count, which
+ * the allocations may not exceed; the write is refused when the line no
+ * longer has the `updatedAt` it was loaded with (null for a new record).
+ */
+export const saveAllocations = async (
+  key: string,
+  allocations: AllocationInput[],
+  boxCount: number,
+  expectedUpdatedAt: string | null,
+  user: string
+): Promise<LineAllocationMap> => {
+  const response = await fetch(ENDPOINT, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      key,
+      allocations,
+      boxCount,
+      expectedUpdatedAt,
+      user,
+    }),
+  });
+  if (!response.ok) {
+    const payload = await response.json().catch(() => null);
+    throw new Error(
+      payload?.error ?? `Failed to save allocations (${response.status})`
+    );
+  }
+  const payload = (await response.json()) as {
+    record: LineAllocationRecord;
+    allocations: LineAllocationMap;
+  };
+  return payload.allocations;
+};
+
+export const saveAllocationUpdates = async (
+  updates: LineAllocationUpdate[],
+  user: string
+): Promise<LineAllocationMap> => {
+  const response = await fetch(ENDPOINT, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ updates, user }),
+  });
+  if (!response.ok) {
+    const payload = await response.json().catch(() => null);
+    throw new Error(
+      payload?.error ?? `Failed to save allocations (${response.status})`
+    );
+  }
+  const payload = (await response.json()) as {
+    allocations: LineAllocationMap;
+  };
+  return payload.allocations;
+};
+
+export type BulkAllocationAction =
+  { kind: "allocate"; customer: string } | { kind: "unallocate" };
+
+/**
+ * The write a bulk action needs for one line, or null when the line is
+ * already in the requested state. Allocating gives every remaining box to
+ * the customer and keeps existing allocations. The update is pinned to
+ * `record`, so it is refused if a teammate changed the line meanwhile.
+ */
+export const planBulkUpdate = (
+  item: PalletItem & { stableKey: string },
+  record: LineAllocationRecord | undefined,
+  action: BulkAllocationAction
+): LineAllocationUpdate | null => {
+  const key = item.stableKey;
+  switch (action.kind) {
+    case "allocate": {
+      // A legacy pre-allocation has no boxes of its own, so the customer
+      // takes the whole line.
+      const current = record?.allocations ?? [];
+      const allocated = current.reduce((sum, entry) => sum + entry.boxes, 0);
+      const remaining = (item.box_count ?? 0) - allocated;
+      if (remaining <= 0) return null;
+      return {
+        key,
+        allocations: [
+          ...current,
+          { customer: action.customer, boxes: remaining },
+        ],
+        expectedUpdatedAt: record?.updatedAt ?? null,
+      };
+    }
+    case "unallocate":
+      return record?.allocations?.length || record?.preAllocated
+        ? { key, allocations: [], expectedUpdatedAt: record.updatedAt }
+        : null;
+  }
+};
+
+/**
+ * Whether saving `inputs` over `previous` adds boxes: a new allocation or more
+ * boxes on an existing one. Removing and shrinking allocations does not.
+ */
+export const addsAllocatedBoxes = (
+  previous: LineAllocationRecord | undefined,
+  inputs: AllocationInput[]
+) => {
+  const existing = new Map(
+    (previous?.allocations ?? []).map((item) => [item.id, item.boxes])
+  );
+  return inputs.some((input) => {
+    const boxes = input.id ? existing.get(input.id) : undefined;
+    return boxes === undefined || input.boxes > boxes;
+  });
+};
+
+export const getKgPerBox = (item: PalletItem) => {
+  if (item.box_weight_kg > 0) return item.box_weight_kg;
+  return item.box_count > 0 ? item.line_weight_kg / item.box_count : 0;
+};
+
+export const summarizeLineAllocation = (
+  item: PalletItem,
+  record: LineAllocationRecord | undefined
+): LineAllocationSummary => {
+  const boxCount = item.box_count ?? 0;
+  // Records from the boolean toggle have no allocations but meant "whole line".
+  const allocatedBoxes =
+    record?.preAllocated && !record.allocations?.length
+      ? boxCount
+      : (record?.allocations ?? []).reduce(
+          (sum, allocation) => sum + allocation.boxes,
+          0
+        );
+  const cappedBoxes = Math.min(allocatedBoxes, boxCount);
+  const kgPerBox = getKgPerBox(item);
+  const allocatedKg = Math.min(
+    cappedBoxes * kgPerBox,
+    item.line_weight_kg ?? 0
+  );
+  const remainingBoxes = boxCount - cappedBoxes;
+
+  let state: AllocationState = "partial";
+  if (cappedBoxes <= 0) state = "unallocated";
+  else if (remainingBoxes <= 0) state = "allocated";
+
+  return {
+    allocatedBoxes,
+    remainingBoxes,
+    allocatedKg,
+    remainingKg: Math.max((item.line_weight_kg ?? 0) - allocatedKg, 0),
+    state,
+  };
+};
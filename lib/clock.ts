@@ -0,0 +1,34 @@
+/** Query parameter that pins the reference time, e.g. `?asOf=2025-11-07`. */
+export const REFERENCE_TIME_PARAM = "asOf";
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Parses a pinned reference time. Plain dates are read as midnight UTC, the
+ * same convention the dataset uses for ETD/ETA.
+ */
+export const parseReferenceTime = (value: string | null | undefined) => {
+  if (!value) return null;
+  const trimmed = value.trim();
+  const date = new Date(
+    DATE_ONLY.test(trimmed) ? `${trimmed}T00:00:00Z` : trimmed
+  );
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+/** `YYYY-MM-DD` in UTC, as used by the URL parameter and the date picker. */
+export const toDateInputValue = (date: Date) => date.toISOString().slice(0, 10);
+
+/** ISO 8601 week of a UTC date, e.g. `2025-W45` (weeks start on Monday). */
+export const toIsoWeek = (date: Date) => {
+  const thursday = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  );
+  // The ISO year is the one that contains the Thursday of this week.
+  thursday.setUTCDate(thursday.getUTCDate() + 3 - ((date.getUTCDay() + 6) % 7));
+  const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+  const week = Math.ceil(
+    ((thursday.getTime() - yearStart) / 86_400_000 + 1) / 7
+  );
+  return `${thursday.getUTCFullYear()}-W${String(week).padStart(2, "0")}`;
+};
@@ -0,0 +1,144 @@
+import type { CodeField, CodeMappings, PalletItem } from "@/types";
+
+const ENDPOINT = "/api/code-mappings";
+
+/** Whether filters, pivots and exports use raw strings or canonical codes. */
+export type ValueMode = "raw" | "canonical";
+
+export const EMPTY_CODE_MAPPINGS: CodeMappings = {
+  caliber: {},
+  pack_format: {},
+};
+
+export const CODE_FIELDS: Array<{
+  field: CodeField;
+  label: string;
+  raw: "caliber_raw" | "pack_format_raw";
+  code: "caliber_code" | "pack_format_code";
+}> = [
+  {
+    field: "caliber",
+    label: "Caliber",
+    raw: "caliber_raw",
+    code: "caliber_code",
+  },
+  {
+    field: "pack_format",
+    label: "Pack format",
+    raw: "pack_format_raw",
+    code: "pack_format_code",
+  },
+];
+
+/** Case and spacing differences ("12a+" vs "12A+ ") share one mapping entry. */
+export const normalizeRawValue = (raw: string) =>
+  raw.trim().replace(/\s+/g, " ").toUpperCase();
+
+/**
+ * Fills `caliber_code`/`pack_format_code` from the mapping tables. A mapping
+ * wins over a code already on the line; lines without either keep theirs
+ * empty and show up in the unmapped report.
+ */
+export const applyCodeMappings = <T extends PalletItem>(
+  rows: T[],
+  mappings: CodeMappings
+): T[] =>
+  rows.map((row) => {
+    const caliber = mappings.caliber[normalizeRawValue(row.caliber_raw)];
+    const packFormat =
+      mappings.pack_format[normalizeRawValue(row.pack_format_raw)];
+    if (!caliber && !packFormat) return row;
+    return {
+      ...row,
+      caliber_code: caliber ?? row.caliber_code,
+      pack_format_code: packFormat ?? row.pack_format_code,
+    };
+  });
+
+// Unmapped values fall back to the raw string so no line disappears from a
+// canonical view.
+export const getCaliber = (row: PalletItem, mode: ValueMode) =>
+  mode === "canonical" ? row.caliber_code || row.caliber_raw : row.caliber_raw;
+
+export const getPackFormat = (row: PalletItem, mode: ValueMode) =>
+  mode === "canonical"
+    ? row.pack_format_code || row.pack_format_raw
+    : row.pack_format_raw;
+
+export interface RawValueUsage {
+  field: CodeField;
+  /** Normalized raw value, the key used in `CodeMappings`. */
+  key: string;
+  /** Spellings seen in the data, e.g. `12a+` and `12A+`. */
+  spellings: string[];
+  lines: number;
+  code: string | null;
+}
+
+/** Every raw caliber and pack-format value in `rows` with its current code. */
+export const summarizeRawValues = (rows: PalletItem[]): RawValueUsage[] => {
+  const usage = new Map<string, RawValueUsage & { seen: Set<string> }>();
+  rows.forEach((row) => {
+    CODE_FIELDS.forEach(({ field, raw, code }) => {
+      const key = normalizeRawValue(row[raw]);
+      const id = `${field}|${key}`;
+      let entry = usage.get(id);
+      if (!entry) {
+        entry = {
+          field,
+          key,
+          spellings: [],
+          lines: 0,
+          code: null,
+          seen: new Set(),
+        };
+        usage.set(id, entry);
+      }
+      entry.seen.add(row[raw]);
+      entry.lines += 1;
+      entry.code = entry.code ?? (row[code] || null);
+    });
+  });
+  return Array.from(usage.values())
+    .map(({ seen, ...entry }) => ({
+      ...entry,
+      spellings: Array.from(seen).sort((a, b) => a.localeCompare(b)),
+    }))
+    .sort(
+      (a, b) => a.field.localeCompare(b.field) || a.key.localeCompare(b.key)
+    );
+};
+
+export const fetchCodeMappings = async (
+  user = "anonymous"
+): Promise<{ mappings: CodeMappings; canEdit: boolean }> => {
+  const response = await fetch(`${ENDPOINT}?${new URLSearchParams({ user })}`, {
+    cache: "no-store",
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to load code mappings (${response.status})`);
+  }
+  return (await response.json()) as {
+    mappings: CodeMappings;
+    canEdit: boolean;
+  };
+};
+
+export const saveCodeMappings = async (
+  mappings: Pick<CodeMappings, CodeField>,
+  user: string
+): Promise<CodeMappings> => {
+  const response = await fetch(ENDPOINT, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ...mappings, user }),
+  });
+  if (!response.ok) {
+    const payload = await response.json().catch(() => null);
+    throw new Error(
+      payload?.error ?? `Failed to save code mappings (${response.status})`
+    );
+  }
+  const payload = (await response.json()) as { mappings: CodeMappings };
+  return payload.mappings;
+};
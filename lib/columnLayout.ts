@@ -0,0 +1,43 @@
+import type { ColumnLayout } from "@/types";
+
+const ENDPOINT = "/api/column-layouts";
+
+export const MIN_COLUMN_WIDTH = 60;
+
+/** Moves `key` to the position currently held by `target`. */
+export const moveColumn = (columns: string[], key: string, target: string) => {
+  const from = columns.indexOf(key);
+  const to = columns.indexOf(target);
+  if (from === -1 || to === -1 || from === to) return columns;
+  const next = [...columns];
+  next.splice(from, 1);
+  next.splice(to, 0, key);
+  return next;
+};
+
+export const fetchColumnLayout = async (
+  user: string
+): Promise<ColumnLayout | null> => {
+  const response = await fetch(`${ENDPOINT}?${new URLSearchParams({ user })}`, {
+    cache: "no-store",
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to load column layout (${response.status})`);
+  }
+  const payload = (await response.json()) as { layout: ColumnLayout | null };
+  return payload.layout;
+};
+
+export const saveColumnLayout = async (layout: ColumnLayout, user: string) => {
+  const response = await fetch(ENDPOINT, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ...layout, user }),
+  });
+  if (!response.ok) {
+    const payload = await response.json().catch(() => null);
+    throw new Error(
+      payload?.error ?? `Failed to save column layout (${response.status})`
+    );
+  }
+};
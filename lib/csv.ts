@@ -0,0 +1,73 @@
+import { downloadBlob } from "@/lib/download";
+
+export const detectDelimiter = (text: string) => {
+  const newline = text.indexOf("\n");
+  const firstLine = newline === -1 ? text : text.slice(0, newline);
+  const counts = [",", ";", "\t"].map((delimiter) => ({
+    delimiter,
+    count: firstLine.split(delimiter).length,
+  }));
+  counts.sort((a, b) => b.count - a.count);
+  return counts[0].delimiter;
+};
+
+/**
+ * Minimal RFC 4180 parser (quoted fields, escaped quotes, CRLF). The delimiter
+ * is sniffed from the header line because European exports often use `;`.
+ */
+export const parseCsv = (text: string, delimiter = detectDelimiter(text)) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  const source = text.replace(/^\uFEFF/, "");
+
+  for (let index = 0; index < source.length; index += 1) {
+    const char = source[index];
+    if (inQuotes) {
+      if (char === '"' && source[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[index + 1] === "\n") index += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+};
+
+const escapeCsvField = (value: string | number) => {
+  const text = `${value ?? ""}`;
+  if (text.includes(",") || text.includes('"') || text.includes("\n")) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+};
+
+export const formatCsv = (rows: Array<Array<string | number>>) =>
+  rows.map((row) => row.map(escapeCsvField).join(",")).join("\n");
+
+export const downloadCsv = (content: string, fileName: string) =>
+  downloadBlob(
+    new Blob([content], { type: "text/csv;charset=utf-8;" }),
+    fileName
+  );
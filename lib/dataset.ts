@@ -0,0 +1,191 @@
+import type {
+  DatasetSummary,
+  EnrichedRow,
+  PalletItem,
+  RejectedLine,
+} from "@/types";
+
+export interface DatasetValidation {
+  items: PalletItem[];
+  rejected: RejectedLine[];
+}
+
+const REQUIRED_STRING_FIELDS = [
+  "booking_reference",
+  "shipment_id",
+  "container_id",
+  "container_code",
+  "carrier_name",
+  "port_destination",
+  "vessel_name",
+  "voyage_number",
+  "product",
+  "variety",
+  "caliber_raw",
+  "pack_format_raw",
+] as const;
+
+const OPTIONAL_STRING_FIELDS = [
+  "port_origin",
+  "brand",
+  "pack_format_code",
+  "caliber_code",
+  "pallet_pl_id",
+  "pl_document_id",
+] as const;
+
+const DATE_FIELDS = ["etd", "eta"] as const;
+
+const OPTIONAL_DATE_FIELDS = ["pack_date"] as const;
+
+const NUMBER_FIELDS = ["box_weight_kg", "line_weight_kg"] as const;
+
+const INTEGER_FIELDS = ["box_count", "line_id"] as const;
+
+export const getStableKey = (item: PalletItem, index: number) =>
+  `${item.shipment_id}-${item.container_id ?? item.container_code}-${
+    item.line_id ?? index
+  }`;
+
+/** Adds parsed dates and the key allocations and notes are stored under. */
+export const enrichPalletItems = (items: PalletItem[]): EnrichedRow[] =>
+  items.map((item, index) => ({
+    ...item,
+    etaDate: new Date(item.eta),
+    etdDate: new Date(item.etd),
+    stableKey: getStableKey(item, index),
+  }));
+
+const validateLine = (value: unknown): string[] => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return ["line is not an object"];
+  }
+  const line = value as Record<string, unknown>;
+  const reasons: string[] = [];
+
+  REQUIRED_STRING_FIELDS.forEach((field) => {
+    if (typeof line[field] !== "string" || !(line[field] as string).trim()) {
+      reasons.push(`${field} is missing`);
+    }
+  });
+  OPTIONAL_STRING_FIELDS.forEach((field) => {
+    if (line[field] !== undefined && typeof line[field] !== "string") {
+      reasons.push(`${field} must be a string`);
+    }
+  });
+  DATE_FIELDS.forEach((field) => {
+    if (
+      typeof line[field] !== "string" ||
+      Number.isNaN(new Date(line[field] as string).getTime())
+    ) {
+      reasons.push(`${field} is not a valid date`);
+    }
+  });
+  OPTIONAL_DATE_FIELDS.forEach((field) => {
+    if (
+      line[field] !== undefined &&
+      (typeof line[field] !== "string" ||
+        Number.isNaN(new Date(line[field] as string).getTime()))
+    ) {
+      reasons.push(`${field} is not a valid date`);
+    }
+  });
+  NUMBER_FIELDS.forEach((field) => {
+    const number = line[field];
+    if (typeof number !== "number" || !Number.isFinite(number) || number < 0) {
+      reasons.push(`${field} must be a non-negative number`);
+    }
+  });
+  INTEGER_FIELDS.forEach((field) => {
+    const number = line[field];
+    if (typeof number !== "number" || !Number.isInteger(number) || number < 0) {
+      reasons.push(`${field} must be a non-negative integer`);
+    }
+  });
+  if (
+    reasons.length === 0 &&
+    Date.parse(line.eta as string) < Date.parse(line.etd as string)
+  ) {
+    reasons.push("eta is before etd");
+  }
+  return reasons;
+};
+
+/**
+ * Checks an untrusted payload against `PalletDataset`. Valid lines are kept,
+ * invalid or duplicated ones are reported with the reasons they were dropped.
+ */
+export const validatePalletDataset = (payload: unknown): DatasetValidation => {
+  const palletitems =
+    payload && typeof payload === "object"
+      ? (payload as { palletitems?: unknown }).palletitems
+      : undefined;
+  if (!Array.isArray(palletitems)) {
+    return {
+      items: [],
+      rejected: [{ index: -1, reasons: ["payload has no palletitems array"] }],
+    };
+  }
+
+  const items: PalletItem[] = [];
+  const rejected: RejectedLine[] = [];
+  const seenKeys = new Set<string>();
+
+  palletitems.forEach((value, index) => {
+    const reasons = validateLine(value);
+    if (!reasons.length) {
+      const key = getStableKey(value as PalletItem, index);
+      if (seenKeys.has(key)) {
+        reasons.push(`duplicate line ${key}`);
+      } else {
+        seenKeys.add(key);
+      }
+    }
+    if (reasons.length) {
+      rejected.push({ index, reasons });
+    } else {
+      items.push(value as PalletItem);
+    }
+  });
+
+  return { items, rejected };
+};
+
+export const fetchDatasets = async (): Promise<DatasetSummary[]> => {
+  const response = await fetch("/api/datasets", { cache: "no-store" });
+  if (!response.ok) {
+    throw new Error(`Failed to list datasets (${response.status})`);
+  }
+  const payload = (await response.json()) as { datasets: DatasetSummary[] };
+  return payload.datasets ?? [];
+};
+
+export const fetchDataset = async (
+  name: string
+): Promise<DatasetValidation> => {
+  const response = await fetch(`/api/datasets/${encodeURIComponent(name)}`, {
+    cache: "no-store",
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to load dataset ${name} (${response.status})`);
+  }
+  const payload = (await response.json()) as {
+    palletitems: PalletItem[];
+    rejected: RejectedLine[];
+  };
+  return { items: payload.palletitems ?? [], rejected: payload.rejected ?? [] };
+};
+
+export const saveDataset = async (name: string, items: PalletItem[]) => {
+  const response = await fetch("/api/datasets", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ name, palletitems: items }),
+  });
+  if (!response.ok) {
+    const payload = await response.json().catch(() => null);
+    throw new Error(
+      payload?.error ?? `Failed to save dataset (${response.status})`
+    );
+  }
+};
@@ -0,0 +1,113 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { storeFolder } from "@/lib/store";
+import type { DatasetSummary, PalletItem } from "@/types";
+
+// Server-only access to the JSON datasets: the ones shipped in `data/` and
+// the ones saved from an upload, kept under the store directory so the
+// checked-in files are never written to. A shipped file wins a name clash.
+const DATA_DIR = path.join(process.cwd(), "data");
+const UPLOADS_DIR = storeFolder("datasets");
+const DATASET_DIRS = [DATA_DIR, UPLOADS_DIR];
+
+const DATASET_NAME = /^[\w-]+$/;
+
+export const isValidDatasetName = (name: string) => DATASET_NAME.test(name);
+
+const fileName = (name: string) => `${name}.json`;
+
+const listJsonFiles = async (dir: string) => {
+  try {
+    return (await fs.readdir(dir)).filter((file) => file.endsWith(".json"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+};
+
+/** The path of an existing dataset file, or null. */
+const findDatasetPath = async (name: string) => {
+  if (!isValidDatasetName(name)) return null;
+  for (const dir of DATASET_DIRS) {
+    const candidate = path.join(dir, fileName(name));
+    try {
+      await fs.access(candidate);
+      return candidate;
+    } catch {
+      // Not in this directory; try the next one.
+    }
+  }
+  return null;
+};
+
+/**
+ * The parsed dataset file, or null when there is none. A file that is not
+ * valid JSON throws a `SyntaxError`, so callers can skip it or report it.
+ */
+export const readDatasetFile = async (name: string): Promise<unknown> => {
+  const filePath = await findDatasetPath(name);
+  if (!filePath) return null;
+  try {
+    return JSON.parse(await fs.readFile(filePath, "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+};
+
+/** Lists the shipped and uploaded files that carry a `palletitems` array. */
+export const listDatasets = async (): Promise<DatasetSummary[]> => {
+  const names = new Set(
+    (await Promise.all(DATASET_DIRS.map(listJsonFiles)))
+      .flat()
+      .map((file) => file.replace(/\.json$/, ""))
+  );
+  const summaries = await Promise.all(
+    Array.from(names).map(async (name) => {
+      const filePath = await findDatasetPath(name);
+      if (!filePath) return null;
+      const payload = await readDatasetFile(name).catch(() => null);
+      const palletitems = (payload as { palletitems?: unknown } | null)
+        ?.palletitems;
+      if (!Array.isArray(palletitems)) return null;
+      const stats = await fs.stat(filePath);
+      return {
+        name,
+        lines: palletitems.length,
+        updatedAt: stats.mtime.toISOString(),
+      };
+    })
+  );
+  return summaries
+    .filter((summary): summary is DatasetSummary => summary !== null)
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const datasetExists = async (name: string) =>
+  (await findDatasetPath(name)) !== null;
+
+/**
+ * Saves an upload under a new name. The file is created exclusively, so two
+ * uploads racing for one name cannot overwrite each other: the loser gets
+ * false. The write goes through a temporary file so a reader never sees a
+ * half-written dataset.
+ */
+export const writeDatasetFile = async (name: string, items: PalletItem[]) => {
+  await fs.mkdir(UPLOADS_DIR, { recursive: true });
+  const target = path.join(UPLOADS_DIR, fileName(name));
+  const temp = `${target}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(
+    temp,
+    `${JSON.stringify({ palletitems: items }, null, 2)}\n`
+  );
+  try {
+    // `link` fails with EEXIST instead of replacing an existing file.
+    await fs.link(temp, target);
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "EEXIST") return false;
+    throw error;
+  } finally {
+    await fs.unlink(temp).catch(() => undefined);
+  }
+};
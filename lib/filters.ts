@@ -1,17 +1,53 @@
+import { getCaliber, getPackFormat, type ValueMode } from "@/lib/codes";
 import { PalletRow, Status } from "@/types";
 
-export const FIXED_NOW_ISO = "2025-11-01T00:00:00Z";
 const ONE_DAY_MS = 24 * 60 * 60 * 1000;
 
 export type ArrivalWindow = "gte_7" | "lte_7" | "lte_2" | "lte_1";
 
+/** Statuses in shipment lifecycle order, also used to sort the status column. */
+export const STATUSES: Status[] = ["Scheduled", "At sea", "Arrived"];
+
+/** Inclusive bounds; `null` leaves that side open. */
+export interface NumberRange {
+  min: number | null;
+  max: number | null;
+}
+
+/** Inclusive UTC calendar days as `YYYY-MM-DD`; `null` leaves that side open. */
+export interface DateRange {
+  from: string | null;
+  to: string | null;
+}
+
+export const OPEN_NUMBER_RANGE: NumberRange = { min: null, max: null };
+export const OPEN_DATE_RANGE: DateRange = { from: null, to: null };
+
+/** Fields matched by the free-text search box. */
+export const SEARCH_FIELDS = [
+  "booking_reference",
+  "container_code",
+  "vessel_name",
+  "voyage_number",
+  "pallet_pl_id",
+] as const satisfies ReadonlyArray<keyof PalletRow>;
+
 export interface FilterCriteria {
   ports: string[];
   varieties: string[];
   calibers: string[];
   packFormats: string[];
+  /** Whether `calibers`/`packFormats` hold raw strings or canonical codes. */
+  valueMode: ValueMode;
   arrivalWindows: ArrivalWindow[];
+  statuses: Status[];
+  /** Narrows to specific shipments, e.g. after clicking a timeline bar. */
+  shipments: string[];
   nextArrivalsOnly: boolean;
+  search: string;
+  boxCount: NumberRange;
+  lineWeightKg: NumberRange;
+  etaRange: DateRange;
 }
 
 export const applyFilters = <T extends PalletRow>(
@@ -21,6 +57,10 @@ export const applyFilters = <T extends PalletRow>(
 ): T[] => {
   const windowEnd = new Date(now);
   windowEnd.setUTCDate(windowEnd.getUTCDate() + 7);
+  const searchTerms = criteria.search
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean);
 
   return items.filter((item) => {
     if (
@@ -30,14 +70,14 @@ export const applyFilters = <T extends PalletRow>(
       return false;
     if (
       criteria.packFormats.length &&
-      !criteria.packFormats.includes(item.pack_format_raw)
+      !criteria.packFormats.includes(getPackFormat(item, criteria.valueMode))
     )
       return false;
     if (criteria.varieties.length && !criteria.varieties.includes(item.variety))
       return false;
     if (
       criteria.calibers.length &&
-      !criteria.calibers.includes(item.caliber_raw)
+      !criteria.calibers.includes(getCaliber(item, criteria.valueMode))
     )
       return false;
     if (
@@ -45,21 +85,37 @@ export const applyFilters = <T extends PalletRow>(
       !matchesArrivalWindow(item.etaDate, now, criteria.arrivalWindows)
     )
       return false;
+    if (
+      criteria.statuses.length &&
+      !criteria.statuses.includes(computeStatus(item, now))
+    )
+      return false;
+    if (
+      criteria.shipments.length &&
+      !criteria.shipments.includes(item.shipment_id)
+    )
+      return false;
     if (criteria.nextArrivalsOnly) {
       if (!(item.etaDate > now && item.etaDate <= windowEnd)) return false;
     }
+    if (searchTerms.length && !matchesSearch(item, searchTerms)) return false;
+    if (!isInRange(item.box_count, criteria.boxCount)) return false;
+    if (!isInRange(item.line_weight_kg, criteria.lineWeightKg)) return false;
+    if (!isInDateRange(item.etaDate, criteria.etaRange)) return false;
     return true;
   });
 };
 
+/** Whole days between the reference time and the ETA (negative once passed). */
+export const getDaysToArrival = (etaDate: Date, now: Date) =>
+  Math.round((etaDate.getTime() - now.getTime()) / ONE_DAY_MS);
+
 const matchesArrivalWindow = (
   etaDate: Date,
   now: Date,
   windows: ArrivalWindow[]
 ) => {
-  const daysToArrival = Math.round(
-    (etaDate.getTime() - now.getTime()) / ONE_DAY_MS
-  );
+  const daysToArrival = getDaysToArrival(etaDate, now);
   return windows.some((window) => {
     switch (window) {
       case "gte_7":
@@ -76,6 +132,30 @@ const matchesArrivalWindow = (
   });
 };
 
+// Every term has to appear in at least one search field, so "MSC 24" narrows
+// to a vessel and voyage rather than widening to either.
+const matchesSearch = (item: PalletRow, terms: string[]) => {
+  const haystack = SEARCH_FIELDS.map((field) =>
+    (item[field] ?? "").toLowerCase()
+  );
+  return terms.every((term) => haystack.some((value) => value.includes(term)));
+};
+
+const isInRange = (value: number, range: NumberRange) =>
+  (range.min === null || value >= range.min) &&
+  (range.max === null || value <= range.max);
+
+const isInDateRange = (date: Date, range: DateRange) => {
+  if (range.from && date.getTime() < Date.parse(`${range.from}T00:00:00Z`))
+    return false;
+  if (
+    range.to &&
+    date.getTime() >= Date.parse(`${range.to}T00:00:00Z`) + ONE_DAY_MS
+  )
+    return false;
+  return true;
+};
+
 export const computeStatus = (item: PalletRow, now: Date): Status => {
   const etaTime = item.etaDate.getTime();
   const etdTime = item.etdDate.getTime();
@@ -88,8 +168,7 @@ export const computeStatus = (item: PalletRow, now: Date): Status => {
 
 export const isEtaWithinSevenDays = (etaDate: Date, now: Date) => {
   const diff = etaDate.getTime() - now.getTime();
-  const sevenDaysMs = 7 * 24 * 60 * 60 * 1000;
-  return diff > 0 && diff <= sevenDaysMs;
+  return diff > 0 && diff <= 7 * ONE_DAY_MS;
 };
 
 export const hasEtaPassed = (etaDate: Date, now: Date) =>
@@ -0,0 +1,72 @@
+import { toIsoWeek } from "@/lib/clock";
+import type { EnrichedRow } from "@/types";
+
+const ONE_WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const FORECAST_WEEKS = 8;
+
+export interface ForecastSeries {
+  port: string;
+  variety: string;
+  /** Kg per week, aligned with `Forecast.weeks`. */
+  kg: number[];
+}
+
+export interface Forecast {
+  /** ISO weeks, starting with the week of the reference time. */
+  weeks: string[];
+  series: ForecastSeries[];
+  totals: number[];
+}
+
+/** Week-over-week change; the first week has nothing to compare against. */
+export const getWeekDeltas = (values: number[]) =>
+  values.map((value, index) =>
+    index === 0 ? null : value - values[index - 1]
+  );
+
+/**
+ * Inbound kg per ISO week of ETA, destination port and variety for lines
+ * arriving from `now` onwards. `getKg` decides how much of a line counts, so
+ * callers can exclude volume that is already allocated.
+ */
+export const buildForecast = (
+  rows: EnrichedRow[],
+  now: Date,
+  getKg: (row: EnrichedRow) => number
+): Forecast => {
+  const weeks = Array.from({ length: FORECAST_WEEKS }, (_, index) =>
+    toIsoWeek(new Date(now.getTime() + index * ONE_WEEK_MS))
+  );
+  const weekIndex = new Map(weeks.map((week, index) => [week, index]));
+  const series = new Map<string, ForecastSeries>();
+  const totals = weeks.map(() => 0);
+
+  rows.forEach((row) => {
+    if (row.etaDate.getTime() < now.getTime()) return;
+    const index = weekIndex.get(toIsoWeek(row.etaDate));
+    if (index === undefined) return;
+    const key = `${row.port_destination}__${row.variety}`;
+    let entry = series.get(key);
+    if (!entry) {
+      entry = {
+        port: row.port_destination,
+        variety: row.variety,
+        kg: weeks.map(() => 0),
+      };
+      series.set(key, entry);
+    }
+    const kg = getKg(row);
+    entry.kg[index] += kg;
+    totals[index] += kg;
+  });
+
+  return {
+    weeks,
+    series: Array.from(series.values()).sort(
+      (a, b) =>
+        a.port.localeCompare(b.port) || a.variety.localeCompare(b.variety)
+    ),
+    totals,
+  };
+};
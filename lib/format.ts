@@ -0,0 +1,45 @@
+export const formatInteger = (value: number | null | undefined) => {
+  if (value === null || value === undefined) return "—";
+  return value.toLocaleString("en-US");
+};
+
+export const formatWeight = (value: number | null | undefined) => {
+  if (value === null || value === undefined) return "—";
+  return value.toLocaleString("en-US", {
+    minimumFractionDigits: 1,
+    maximumFractionDigits: 1,
+  });
+};
+
+export const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString("en-GB", {
+    day: "2-digit",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+export function formatKg(value: number) {
+  const hasFraction = !Number.isInteger(value);
+  return `${value.toLocaleString("en-US", {
+    minimumFractionDigits: hasFraction ? 1 : 0,
+    maximumFractionDigits: hasFraction ? 1 : 0,
+  })} kg`;
+}
+
+export function formatTons(value: number) {
+  const tons = value / 1000;
+  return tons.toLocaleString("en-US", {
+    minimumFractionDigits: 1,
+    maximumFractionDigits: 1,
+  });
+}
+
+export const formatPercent = (value: number) => `${value.toFixed(1)} %`;
+
+export const formatMoney = (value: number, currency: string) =>
+  value.toLocaleString("en-US", {
+    style: "currency",
+    currency,
+    maximumFractionDigits: 0,
+  });
@@ -0,0 +1,113 @@
+import type { Container, EnrichedRow, Shipment } from "@/types";
+
+export interface ContainerGroup {
+  container: Container;
+  rows: EnrichedRow[];
+  boxes: number;
+  kg: number;
+}
+
+export interface ShipmentGroup {
+  shipment: Shipment;
+  containers: ContainerGroup[];
+  lines: number;
+  boxes: number;
+  kg: number;
+}
+
+/**
+ * Groups pallet lines into shipment → container → lines, keeping the order
+ * in which shipments and containers first appear in `rows`.
+ */
+export const groupByShipment = (
+  rows: EnrichedRow[],
+  shipments: Map<string, Shipment>,
+  containers: Map<string, Container>
+): ShipmentGroup[] => {
+  const groups = new Map<
+    string,
+    ShipmentGroup & { containerMap: Map<string, ContainerGroup> }
+  >();
+
+  rows.forEach((row) => {
+    let group = groups.get(row.shipment_id);
+    if (!group) {
+      group = {
+        shipment: shipments.get(row.shipment_id) ?? {
+          shipment_id: row.shipment_id,
+          booking_reference: row.booking_reference,
+          carrier_name: row.carrier_name,
+          etd: row.etd,
+          eta: row.eta,
+          port_origin: row.port_origin,
+          port_destination: row.port_destination,
+          vessel_name: row.vessel_name,
+          voyage_number: row.voyage_number,
+        },
+        containers: [],
+        containerMap: new Map(),
+        lines: 0,
+        boxes: 0,
+        kg: 0,
+      };
+      groups.set(row.shipment_id, group);
+    }
+
+    let containerGroup = group.containerMap.get(row.container_id);
+    if (!containerGroup) {
+      containerGroup = {
+        container: containers.get(row.container_id) ?? {
+          container_id: row.container_id,
+          shipment_id: row.shipment_id,
+          container_code: row.container_code,
+        },
+        rows: [],
+        boxes: 0,
+        kg: 0,
+      };
+      group.containerMap.set(row.container_id, containerGroup);
+      group.containers.push(containerGroup);
+    }
+
+    containerGroup.rows.push(row);
+    containerGroup.boxes += row.box_count ?? 0;
+    containerGroup.kg += row.line_weight_kg ?? 0;
+    group.lines += 1;
+    group.boxes += row.box_count ?? 0;
+    group.kg += row.line_weight_kg ?? 0;
+  });
+
+  return Array.from(groups.values()).map(
+    ({ containerMap: _containerMap, ...group }) => group
+  );
+};
+
+export interface LineGroup {
+  key: string;
+  rows: EnrichedRow[];
+  boxes: number;
+  kg: number;
+}
+
+/**
+ * Groups pallet lines by `getKey` for subtotals, keeping the order in which
+ * groups first appear so an existing sort decides the group order.
+ */
+export const groupLines = (
+  rows: EnrichedRow[],
+  getKey: (row: EnrichedRow) => string
+): LineGroup[] => {
+  const groups = new Map<string, LineGroup>();
+  rows.forEach((row) => {
+    const key = getKey(row);
+    let group = groups.get(key);
+    if (!group) {
+      group = { key, rows: [], boxes: 0, kg: 0 };
+      groups.set(key, group);
+    }
+    group.rows.push(row);
+    group.boxes += row.box_count ?? 0;
+    group.kg += row.line_weight_kg ?? 0;
+  });
+  return Array.from(groups.values());
+};
@@ -0,0 +1,105 @@
+import { computeStatus } from "@/lib/filters";
+import type {
+  EnrichedRow,
+  Inspection,
+  InspectionInput,
+  InspectionPhoto,
+  QcStatus,
+} from "@/types";
+
+const ENDPOINT = "/api/inspections";
+
+export const QC_STATUSES: Array<{ value: QcStatus; label: string }> = [
+  { value: "pass", label: "Passed" },
+  { value: "hold", label: "On hold" },
+  { value: "reject", label: "Rejected" },
+  { value: "pending", label: "Awaiting QC" },
+  { value: "not_due", label: "Not arrived" },
+];
+
+export const MAX_PHOTOS = 6;
+export const MAX_PHOTO_BYTES = 5 * 1024 * 1024;
+
+/** Photos are served from the app's origin, so only raster formats are let in. */
+export const PHOTO_TYPES = ["image/jpeg", "image/png", "image/webp"] as const;
+
+export type PhotoType = (typeof PHOTO_TYPES)[number];
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((byte, index) => bytes[offset + index] === byte);
+
+/** The photo type from the file's magic bytes, whatever the upload claimed. */
+export const sniffPhotoType = (bytes: Uint8Array): PhotoType | null => {
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return "image/png";
+  }
+  // "RIFF" <size> "WEBP"
+  if (
+    startsWith(bytes, [0x52, 0x49, 0x46, 0x46]) &&
+    startsWith(bytes, [0x57, 0x45, 0x42, 0x50], 8)
+  ) {
+    return "image/webp";
+  }
+  return null;
+};
+
+/** Lines on hold or rejected cannot take new or larger allocations. */
+export const isAllocationBlocked = (status: QcStatus) =>
+  status === "hold" || status === "reject";
+
+/** The latest inspection covering each line, by line stable key. */
+export const latestInspectionByLine = (inspections: Inspection[]) => {
+  const latest = new Map<string, Inspection>();
+  inspections.forEach((inspection) => {
+    inspection.lineKeys.forEach((key) => {
+      const current = latest.get(key);
+      if (!current || current.inspectedAt < inspection.inspectedAt) {
+        latest.set(key, inspection);
+      }
+    });
+  });
+  return latest;
+};
+
+export const getQcStatus = (
+  row: EnrichedRow,
+  latest: Inspection | undefined,
+  now: Date
+): QcStatus => {
+  if (latest) return latest.decision;
+  return computeStatus(row, now) === "Arrived" ? "pending" : "not_due";
+};
+
+export const getPhotoUrl = (photo: InspectionPhoto) =>
+  `${ENDPOINT}/photos/${photo.id}`;
+
+export const fetchInspections = async (): Promise<Inspection[]> => {
+  const response = await fetch(ENDPOINT, { cache: "no-store" });
+  if (!response.ok) {
+    throw new Error(`Failed to load inspections (${response.status})`);
+  }
+  const payload = (await response.json()) as { inspections: Inspection[] };
+  return payload.inspections ?? [];
+};
+
+/** Records an inspection with its photos and returns every inspection. */
+export const saveInspection = async (
+  inspection: InspectionInput,
+  photos: File[],
+  user: string
+): Promise<Inspection[]> => {
+  const body = new FormData();
+  body.set("inspection", JSON.stringify(inspection));
+  body.set("user", user);
+  photos.forEach((photo) => body.append("photos", photo));
+  const response = await fetch(ENDPOINT, { method: "POST", body });
+  if (!response.ok) {
+    const payload = await response.json().catch(() => null);
+    throw new Error(
+      payload?.error ?? `Failed to save inspection (${response.status})`
+    );
+  }
+  const payload = (await response.json()) as { inspections: Inspection[] };
+  return payload.inspections;
+};
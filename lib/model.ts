@@ -0,0 +1,224 @@
+import { EMPTY_CODE_MAPPINGS, applyCodeMappings } from "@/lib/codes";
+import { enrichPalletItems } from "@/lib/dataset";
+import { buildSchedules, type ShipmentSchedule } from "@/lib/schedule";
+import type {
+  CodeMappings,
+  Container,
+  EnrichedRow,
+  PalletItem,
+  ReferentialIssue,
+  ScheduleChange,
+  Shipment,
+} from "@/types";
+
+export interface CockpitModel {
+  /** Shipments with their current ETD/ETA, after recorded schedule changes. */
+  shipments: Map<string, Shipment>;
+  containers: Map<string, Container>;
+  schedules: Map<string, ShipmentSchedule>;
+  /** Pallet lines with shipment and container fields taken from the join. */
+  rows: EnrichedRow[];
+  issues: ReferentialIssue[];
+}
+
+/** Shipment-level fields duplicated on every pallet line. */
+const SHIPMENT_FIELDS = [
+  "booking_reference",
+  "carrier_name",
+  "etd",
+  "eta",
+  "port_origin",
+  "port_destination",
+  "vessel_name",
+  "voyage_number",
+] as const;
+
+const DATE_FIELDS = new Set<string>(["etd", "eta"]);
+
+const sameValue = (field: string, a?: string, b?: string) => {
+  if (DATE_FIELDS.has(field) && a && b) return Date.parse(a) === Date.parse(b);
+  return (a ?? "") === (b ?? "");
+};
+
+const shipmentFromLine = (line: PalletItem): Shipment => ({
+  shipment_id: line.shipment_id,
+  booking_reference: line.booking_reference,
+  carrier_name: line.carrier_name,
+  etd: line.etd,
+  eta: line.eta,
+  port_origin: line.port_origin,
+  port_destination: line.port_destination,
+  vessel_name: line.vessel_name,
+  voyage_number: line.voyage_number,
+});
+
+const containerFromLine = (line: PalletItem): Container => ({
+  container_id: line.container_id,
+  shipment_id: line.shipment_id,
+  container_code: line.container_code,
+});
+
+/** Groups issues of the same kind and subject so each is reported once. */
+const createIssueCollector = () => {
+  const issues = new Map<string, ReferentialIssue>();
+  return {
+    add: (issue: Omit<ReferentialIssue, "lines">, lineKey: string) => {
+      const id = `${issue.kind}|${issue.shipment_id}|${
+        issue.container_id ?? ""
+      }|${issue.message}`;
+      const existing = issues.get(id);
+      if (existing) {
+        existing.lines.push(lineKey);
+      } else {
+        issues.set(id, { ...issue, lines: [lineKey] });
+      }
+    },
+    list: () => Array.from(issues.values()),
+  };
+};
+
+/**
+ * Joins pallet lines to their shipment and container. Shipment fields win over
+ * the copies on each line, so a change to a shipment reaches all its lines;
+ * lines without a known shipment or container keep their own values and are
+ * reported. Recorded schedule changes are applied after the consistency
+ * checks, which always compare against the dataset as loaded, and canonical
+ * caliber/pack-format codes are filled in from the mapping tables.
+ */
+export const buildModel = ({
+  items,
+  shipments,
+  containers,
+  scheduleChanges = [],
+  codeMappings = EMPTY_CODE_MAPPINGS,
+}: {
+  items: PalletItem[];
+  shipments: Shipment[];
+  containers: Container[];
+  scheduleChanges?: ScheduleChange[];
+  codeMappings?: CodeMappings;
+}): CockpitModel => {
+  const shipmentMap = new Map(
+    shipments.map((shipment) => [shipment.shipment_id, shipment])
+  );
+  const containerMap = new Map(
+    containers.map((container) => [container.container_id, container])
+  );
+  const issues = createIssueCollector();
+
+  const joinedRows = enrichPalletItems(items).map((line) => {
+    let shipment = shipmentMap.get(line.shipment_id);
+    if (!shipment) {
+      issues.add(
+        {
+          kind: "missing_shipment",
+          shipment_id: line.shipment_id,
+          message: `Shipment ${line.shipment_id} is not in shipments.json`,
+        },
+        line.stableKey
+      );
+      shipment = shipmentFromLine(line);
+      shipmentMap.set(shipment.shipment_id, shipment);
+    } else {
+      SHIPMENT_FIELDS.forEach((field) => {
+        if (!sameValue(field, line[field], shipment?.[field])) {
+          issues.add(
+            {
+              kind: "field_mismatch",
+              shipment_id: line.shipment_id,
+              message: `${field} on line is ${line[field] || "empty"}, shipment has ${
+                shipment?.[field] || "empty"
+              }`,
+            },
+            line.stableKey
+          );
+        }
+      });
+    }
+
+    let container = containerMap.get(line.container_id);
+    if (!container) {
+      issues.add(
+        {
+          kind: "missing_container",
+          shipment_id: line.shipment_id,
+          container_id: line.container_id,
+          message: `Container ${line.container_code} is not in containers.json`,
+        },
+        line.stableKey
+      );
+      container = containerFromLine(line);
+      containerMap.set(container.container_id, container);
+    } else if (container.shipment_id !== line.shipment_id) {
+      issues.add(
+        {
+          kind: "container_shipment_mismatch",
+          shipment_id: line.shipment_id,
+          container_id: line.container_id,
+          message: `Container ${container.container_code} belongs to ${container.shipment_id}`,
+        },
+        line.stableKey
+      );
+    }
+
+    const joined: EnrichedRow = {
+      ...line,
+      ...shipment,
+      shipment_id: line.shipment_id,
+      port_origin: shipment.port_origin ?? line.port_origin,
+      container_code: container.container_code || line.container_code,
+      etaDate: new Date(shipment.eta),
+      etdDate: new Date(shipment.etd),
+    };
+    return joined;
+  });
+
+  const schedules = buildSchedules(shipmentMap.values(), scheduleChanges);
+  const currentShipments = new Map(
+    Array.from(shipmentMap.values()).map((shipment) => {
+      const schedule = schedules.get(shipment.shipment_id);
+      return [
+        shipment.shipment_id,
+        schedule
+          ? { ...shipment, etd: schedule.etd, eta: schedule.eta }
+          : shipment,
+      ] as const;
+    })
+  );
+  const scheduledRows = joinedRows.map((row) => {
+    const schedule = schedules.get(row.shipment_id);
+    if (!schedule?.history.length) return row;
+    return {
+      ...row,
+      etd: schedule.etd,
+      eta: schedule.eta,
+      etdDate: new Date(schedule.etd),
+      etaDate: new Date(schedule.eta),
+    };
+  });
+
+  return {
+    shipments: currentShipments,
+    containers: containerMap,
+    schedules,
+    rows: applyCodeMappings(scheduledRows, codeMappings),
+    issues: issues.list(),
+  };
+};
+
+export interface EntitySets {
+  shipments: Shipment[];
+  containers: Container[];
+}
+
+export const fetchEntities = async (): Promise<EntitySets> => {
+  const response = await fetch("/api/entities", { cache: "no-store" });
+  if (!response.ok) {
+    throw new Error(`Failed to load shipments (${response.status})`);
+  }
+  const payload = (await response.json()) as Partial<EntitySets>;
+  return {
+    shipments: payload.shipments ?? [],
+    containers: payload.containers ?? [],
+  };
+};
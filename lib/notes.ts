@@ -0,0 +1,100 @@
+import type { EnrichedRow, Note, NoteInput, NoteTarget } from "@/types";
+
+const ENDPOINT = "/api/notes";
+
+export const NOTE_TARGETS: Array<{ target: NoteTarget; label: string }> = [
+  { target: "line", label: "Line" },
+  { target: "container", label: "Container" },
+  { target: "shipment", label: "Shipment" },
+];
+
+export interface NoteThread {
+  note: Note;
+  replies: Note[];
+}
+
+export const fetchNotes = async (): Promise<Note[]> => {
+  const response = await fetch(ENDPOINT, { cache: "no-store" });
+  if (!response.ok) {
+    throw new Error(`Failed to load notes (${response.status})`);
+  }
+  const payload = (await response.json()) as { notes: Note[] };
+  return payload.notes ?? [];
+};
+
+/** Adds the notes and returns every stored note. */
+export const addNotes = async (
+  notes: NoteInput[],
+  user: string
+): Promise<Note[]> => {
+  const response = await fetch(ENDPOINT, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ notes, user }),
+  });
+  if (!response.ok) {
+    const payload = await response.json().catch(() => null);
+    throw new Error(
+      payload?.error ?? `Failed to save notes (${response.status})`
+    );
+  }
+  const payload = (await response.json()) as { notes: Note[] };
+  return payload.notes;
+};
+
+/** The ID a line's notes are filed under for each kind of target. */
+export const getNoteTargetId = (row: EnrichedRow, target: NoteTarget) => {
+  if (target === "container") return row.container_id;
+  if (target === "shipment") return row.shipment_id;
+  return row.stableKey;
+};
+
+const indexKey = (target: NoteTarget, targetId: string) =>
+  `${target}:${targetId}`;
+
+export const indexNotes = (notes: Note[]) => {
+  const index = new Map<string, Note[]>();
+  notes.forEach((note) => {
+    const key = indexKey(note.target, note.targetId);
+    index.set(key, [...(index.get(key) ?? []), note]);
+  });
+  return index;
+};
+
+/** Notes on the line itself, its container and its shipment. */
+export const getRowNotes = (index: Map<string, Note[]>, row: EnrichedRow) =>
+  NOTE_TARGETS.flatMap(
+    ({ target }) =>
+      index.get(indexKey(target, getNoteTargetId(row, target))) ?? []
+  );
+
+/** Groups notes into threads, oldest first. */
+export const toThreads = (notes: Note[]): NoteThread[] => {
+  const sorted = [...notes].sort((a, b) =>
+    a.createdAt.localeCompare(b.createdAt)
+  );
+  const threads = new Map<string, NoteThread>();
+  sorted.forEach((note) => {
+    if (!note.parentId) threads.set(note.id, { note, replies: [] });
+  });
+  sorted.forEach((note) => {
+    if (note.parentId) threads.get(note.parentId)?.replies.push(note);
+  });
+  return Array.from(threads.values());
+};
+
+/** One-cell summary for exports: `Shipment · alice 2024-05-02: text | ↳ …`. */
+export const formatNotes = (notes: Note[]) =>
+  toThreads(notes)
+    .flatMap(({ note, replies }) => {
+      const label =
+        NOTE_TARGETS.find((item) => item.target === note.target)?.label ??
+        note.target;
+      const format = (entry: Note) =>
+        `${entry.author} ${entry.createdAt.slice(0, 10)}: ${entry.body}`;
+      return [
+        `${label} · ${format(note)}`,
+        ...replies.map((reply) => `↳ ${format(reply)}`),
+      ];
+    })
+    .join(" | ");
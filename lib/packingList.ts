@@ -0,0 +1,458 @@
+import { detectDelimiter, parseCsv } from "@/lib/csv";
+import { validatePalletDataset, type DatasetValidation } from "@/lib/dataset";
+import type {
+  ColumnMapping,
+  FieldMapping,
+  PalletItem,
+  SupplierMapping,
+} from "@/types";
+
+export type DecimalSeparator = "." | ",";
+
+export interface SheetData {
+  headers: string[];
+  rows: string[][];
+  /** Set when the file format settles it; otherwise read off the values. */
+  decimalSeparator?: DecimalSeparator;
+}
+
+type FieldKind = "string" | "number" | "integer" | "date";
+
+export interface PalletFieldDefinition {
+  key: keyof PalletItem;
+  label: string;
+  kind: FieldKind;
+  /** Filled from other fields when left unmapped, so not strictly required. */
+  derived?: boolean;
+  optional?: boolean;
+  aliases?: string[];
+}
+
+export const PALLET_FIELDS: PalletFieldDefinition[] = [
+  {
+    key: "pallet_pl_id",
+    label: "Pallet PL ID",
+    kind: "string",
+    optional: true,
+    aliases: ["pallet", "pallet id", "pallet no", "pl id"],
+  },
+  {
+    key: "line_id",
+    label: "Line ID",
+    kind: "integer",
+    derived: true,
+    aliases: ["line", "line no", "#"],
+  },
+  {
+    key: "shipment_id",
+    label: "Shipment ID",
+    kind: "string",
+    aliases: ["shipment"],
+  },
+  {
+    key: "booking_reference",
+    label: "Booking reference",
+    kind: "string",
+    aliases: ["booking", "booking ref", "bkg"],
+  },
+  {
+    key: "container_code",
+    label: "Container code",
+    kind: "string",
+    aliases: ["container", "container no", "container number"],
+  },
+  { key: "container_id", label: "Container ID", kind: "string", derived: true },
+  {
+    key: "carrier_name",
+    label: "Carrier",
+    kind: "string",
+    aliases: ["carrier", "shipping line"],
+  },
+  {
+    key: "vessel_name",
+    label: "Vessel",
+    kind: "string",
+    aliases: ["vessel", "ship"],
+  },
+  {
+    key: "voyage_number",
+    label: "Voyage",
+    kind: "string",
+    aliases: ["voyage", "voyage no"],
+  },
+  {
+    key: "port_origin",
+    label: "Port of origin",
+    kind: "string",
+    optional: true,
+    aliases: ["origin", "pol", "port of loading"],
+  },
+  {
+    key: "port_destination",
+    label: "Port of destination",
+    kind: "string",
+    aliases: ["destination", "pod", "port of discharge"],
+  },
+  { key: "etd", label: "ETD", kind: "date", aliases: ["departure"] },
+  { key: "eta", label: "ETA", kind: "date", aliases: ["arrival"] },
+  {
+    key: "product",
+    label: "Product",
+    kind: "string",
+    aliases: ["commodity", "fruit"],
+  },
+  { key: "variety", label: "Variety", kind: "string", aliases: ["cultivar"] },
+  {
+    key: "brand",
+    label: "Brand",
+    kind: "string",
+    optional: true,
+    aliases: ["label"],
+  },
+  {
+    key: "caliber_raw",
+    label: "Caliber",
+    kind: "string",
+    aliases: ["caliber", "calibre", "size"],
+  },
+  {
+    key: "caliber_code",
+    label: "Caliber code",
+    kind: "string",
+    optional: true,
+  },
+  {
+    key: "pack_format_raw",
+    label: "Pack format",
+    kind: "string",
+    aliases: ["pack format", "packaging", "format", "packing"],
+  },
+  {
+    key: "pack_format_code",
+    label: "Pack format code",
+    kind: "string",
+    optional: true,
+  },
+  {
+    key: "box_count",
+    label: "Boxes",
+    kind: "integer",
+    aliases: ["boxes", "cases", "cartons", "qty boxes"],
+  },
+  {
+    key: "box_weight_kg",
+    label: "Box weight (kg)",
+    kind: "number",
+    aliases: ["box weight", "kg per box", "net weight per box"],
+  },
+  {
+    key: "line_weight_kg",
+    label: "Line weight (kg)",
+    kind: "number",
+    derived: true,
+    aliases: ["net weight", "total kg", "weight"],
+  },
+  {
+    key: "pack_date",
+    label: "Pack date",
+    kind: "date",
+    optional: true,
+    aliases: ["packing date", "packed on", "harvest date"],
+  },
+  {
+    key: "pl_document_id",
+    label: "PL document ID",
+    kind: "string",
+    optional: true,
+    aliases: ["document", "pl document"],
+  },
+];
+
+const normalizeHeader = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9#]+/g, "");
+
+/** Suggests a mapping by matching headers against field names and aliases. */
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const byNormalized = new Map(
+    headers.map((header) => [normalizeHeader(header), header])
+  );
+  const mapping: ColumnMapping = {};
+  PALLET_FIELDS.forEach((field) => {
+    const candidates = [field.key, field.label, ...(field.aliases ?? [])];
+    for (const candidate of candidates) {
+      const header = byNormalized.get(normalizeHeader(candidate));
+      if (header) {
+        mapping[field.key] = { source: "column", column: header };
+        return;
+      }
+    }
+  });
+  return mapping;
+};
+
+// Whole parts with the other mark between groups of three digits.
+const GROUPED_WHOLE: Record<DecimalSeparator, RegExp> = {
+  ".": /^-?\d{1,3}(,\d{3})+$/,
+  ",": /^-?\d{1,3}(\.\d{3})+$/,
+};
+
+const compact = (value: string) => value.trim().replace(/\s/g, "");
+
+/**
+ * The decimal separator a single value gives away, or null when it has none
+ * or could be read either way: "1,500" is 1.5 or 1500, "0,250" is not.
+ */
+const separatorOf = (value: string): DecimalSeparator | null => {
+  const trimmed = compact(value).replace(/^-/, "");
+  const lastDot = trimmed.lastIndexOf(".");
+  const lastComma = trimmed.lastIndexOf(",");
+  if (lastDot !== -1 && lastComma !== -1) {
+    return lastDot > lastComma ? "." : ",";
+  }
+  const mark = lastDot !== -1 ? "." : lastComma !== -1 ? "," : null;
+  if (!mark) return null;
+  const other = mark === "." ? "," : ".";
+  if (trimmed.indexOf(mark) !== trimmed.lastIndexOf(mark)) return other;
+  const [whole, fraction] = trimmed.split(mark);
+  return fraction.length !== 3 || /^0*$/.test(whole) ? mark : null;
+};
+
+/** The separator of the first value that settles it, or null if none does. */
+const detectDecimalSeparator = (values: string[]) => {
+  for (const value of values) {
+    const separator = separatorOf(value);
+    if (separator) return separator;
+  }
+  return null;
+};
+
+const parseNumber = (value: string, separator: DecimalSeparator | null) => {
+  const trimmed = compact(value);
+  if (!trimmed) return undefined;
+  // Without a separator for the file, only plain integers are certain.
+  if (!separator) return /^-?\d+$/.test(trimmed) ? Number(trimmed) : value;
+  const [whole, ...fraction] = trimmed.split(separator);
+  if (fraction.length > 1) return value;
+  const grouping = separator === "." ? "," : ".";
+  if (whole.includes(grouping) && !GROUPED_WHOLE[separator].test(whole)) {
+    return value;
+  }
+  const number = Number(
+    [whole.split(grouping).join(""), ...fraction].join(".")
+  );
+  return Number.isNaN(number) ? value : number;
+};
+
+const DAY_FIRST_DATE = /^(\d{1,2})[./-](\d{1,2})[./-](\d{4})$/;
+
+const parseDate = (value: string) => {
+  const trimmed = value.trim();
+  if (!trimmed) return undefined;
+  const dayFirst = DAY_FIRST_DATE.exec(trimmed);
+  const date = dayFirst
+    ? new Date(
+        Date.UTC(
+          Number(dayFirst[3]),
+          Number(dayFirst[2]) - 1,
+          Number(dayFirst[1])
+        )
+      )
+    : new Date(
+        /^\d{4}-\d{2}-\d{2}$/.test(trimmed) ? `${trimmed}T00:00:00Z` : trimmed
+      );
+  return Number.isNaN(date.getTime()) ? trimmed : date.toISOString();
+};
+
+const coerce = (
+  kind: FieldKind,
+  value: string,
+  separator: DecimalSeparator | null
+) => {
+  switch (kind) {
+    case "number":
+    case "integer":
+      return parseNumber(value, separator);
+    case "date":
+      return parseDate(value);
+    default:
+      return value.trim() || undefined;
+  }
+};
+
+const resolveValue = (
+  mapping: FieldMapping | undefined,
+  headers: string[],
+  row: string[]
+) => {
+  if (!mapping) return "";
+  if (mapping.source === "constant") return mapping.value;
+  const column = headers.indexOf(mapping.column);
+  return column === -1 ? "" : (row[column] ?? "");
+};
+
+const NUMBER_FIELDS = PALLET_FIELDS.filter(
+  (field) => field.kind === "number" || field.kind === "integer"
+);
+
+/**
+ * Turns spreadsheet rows into pallet lines through the chosen mapping and runs
+ * them through the same validation as JSON uploads. The decimal separator is
+ * decided once for the whole file; when nothing in it settles the question,
+ * numbers such as "1,500" are rejected as ambiguous rather than guessed.
+ */
+export const applyColumnMapping = (
+  sheet: SheetData,
+  mapping: ColumnMapping
+): DatasetValidation => {
+  const separator =
+    sheet.decimalSeparator ??
+    detectDecimalSeparator(
+      sheet.rows.flatMap((row) =>
+        NUMBER_FIELDS.map((field) =>
+          resolveValue(mapping[field.key], sheet.headers, row)
+        )
+      )
+    );
+  const ambiguous = new Map<number, Array<{ field: string; value: string }>>();
+  const palletitems = sheet.rows.map((row, index) => {
+    const line: Record<string, unknown> = {};
+    PALLET_FIELDS.forEach((field) => {
+      const raw = resolveValue(mapping[field.key], sheet.headers, row);
+      const value = coerce(field.kind, raw, separator);
+      if (
+        !separator &&
+        typeof value === "string" &&
+        NUMBER_FIELDS.includes(field) &&
+        /[.,]/.test(value)
+      ) {
+        ambiguous.set(index, [
+          ...(ambiguous.get(index) ?? []),
+          { field: field.key, value: value.trim() },
+        ]);
+      }
+      if (value !== undefined) line[field.key] = value;
+    });
+    if (line.line_id === undefined) line.line_id = index + 1;
+    if (
+      line.line_weight_kg === undefined &&
+      typeof line.box_count === "number" &&
+      typeof line.box_weight_kg === "number"
+    ) {
+      line.line_weight_kg =
+        Math.round(line.box_count * line.box_weight_kg * 1000) / 1000;
+    }
+    if (line.container_id === undefined && line.container_code) {
+      line.container_id = [line.brand, line.shipment_id, line.container_code]
+        .filter(Boolean)
+        .join(" | ");
+    }
+    return line;
+  });
+  const validation = validatePalletDataset({ palletitems });
+  if (!ambiguous.size) return validation;
+  return {
+    ...validation,
+    rejected: validation.rejected.map((rejected) => {
+      const values = ambiguous.get(rejected.index);
+      if (!values) return rejected;
+      return {
+        ...rejected,
+        reasons: [
+          ...values.map(
+            ({ field, value }) =>
+              `${field} "${value}" is ambiguous: nothing in the file shows whether "," or "." is the decimal separator`
+          ),
+          ...rejected.reasons.filter(
+            (reason) =>
+              !values.some(({ field }) => reason.startsWith(`${field} must`))
+          ),
+        ],
+      };
+    }),
+  };
+};
+
+const cellToString = (value: unknown): string => {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "object") {
+    const cell = value as {
+      result?: unknown;
+      richText?: Array<{ text: string }>;
+      text?: string;
+    };
+    if (cell.richText) return cell.richText.map((part) => part.text).join("");
+    if (cell.result !== undefined) return cellToString(cell.result);
+    if (cell.text !== undefined) return cell.text;
+  }
+  return `${value}`;
+};
+
+const readWorkbook = async (file: File): Promise<string[][]> => {
+  const { default: ExcelJS } = await import("exceljs");
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+  const rows: string[][] = [];
+  sheet.eachRow((row) => {
+    const values = row.values as unknown[];
+    // ExcelJS row values are 1-based and sparse: index 0 and blank cells are
+    // holes, which `map` would skip.
+    rows.push(Array.from(values.slice(1), cellToString));
+  });
+  return rows;
+};
+
+/** Reads the first sheet of an XLSX file, or a CSV file, into header + rows. */
+export const readSpreadsheet = async (file: File): Promise<SheetData> => {
+  let rows: string[][];
+  let decimalSeparator: DecimalSeparator | undefined;
+  if (/\.xlsx$/i.test(file.name)) {
+    rows = await readWorkbook(file);
+    // Numeric cells come through as JavaScript numbers.
+    decimalSeparator = ".";
+  } else {
+    const text = await file.text();
+    const delimiter = detectDelimiter(text);
+    rows = parseCsv(text, delimiter);
+    // `;` is only used as delimiter where the comma is the decimal mark.
+    if (delimiter === ";") decimalSeparator = ",";
+  }
+  const [headerRow = [], ...dataRows] = rows;
+  const headers = Array.from(
+    headerRow,
+    (header, index) => (header ?? "").trim() || `Column ${index + 1}`
+  );
+  return {
+    headers,
+    rows: dataRows.map((row) => headers.map((_, index) => row[index] ?? "")),
+    decimalSeparator,
+  };
+};
+
+const MAPPINGS_ENDPOINT = "/api/import-mappings";
+
+export const fetchSupplierMappings = async (): Promise<SupplierMapping[]> => {
+  const response = await fetch(MAPPINGS_ENDPOINT, { cache: "no-store" });
+  if (!response.ok) {
+    throw new Error(`Failed to load supplier mappings (${response.status})`);
+  }
+  const payload = (await response.json()) as { mappings: SupplierMapping[] };
+  return payload.mappings ?? [];
+};
+
+export const saveSupplierMapping = async (
+  supplier: string,
+  mapping: ColumnMapping,
+  user: string
+) => {
+  const response = await fetch(MAPPINGS_ENDPOINT, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ supplier, mapping, user }),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to save supplier mapping (${response.status})`);
+  }
+};
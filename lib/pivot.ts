@@ -0,0 +1,220 @@
+import { toIsoWeek } from "@/lib/clock";
+import { getCaliber, getPackFormat, type ValueMode } from "@/lib/codes";
+import { STATUSES, computeStatus } from "@/lib/filters";
+import type { LineValue } from "@/lib/pricing";
+import type { AllocationState, EnrichedRow } from "@/types";
+
+export type PivotDimension =
+  | "port"
+  | "variety"
+  | "caliber"
+  | "packFormat"
+  | "carrier"
+  | "etaWeek"
+  | "status"
+  | "allocation";
+
+export type PivotMeasure =
+  "kg" | "boxes" | "pallets" | "containers" | "value" | "margin";
+
+export const PIVOT_DIMENSIONS: Array<{ id: PivotDimension; label: string }> = [
+  { id: "port", label: "Port" },
+  { id: "variety", label: "Variety" },
+  { id: "caliber", label: "Caliber" },
+  { id: "packFormat", label: "Pack format" },
+  { id: "carrier", label: "Carrier" },
+  { id: "etaWeek", label: "ETA week" },
+  { id: "status", label: "Status" },
+  { id: "allocation", label: "Allocation" },
+];
+
+export const PIVOT_MEASURES: Array<{ id: PivotMeasure; label: string }> = [
+  { id: "kg", label: "Weight (kg)" },
+  { id: "boxes", label: "Boxes" },
+  { id: "pallets", label: "Pallets" },
+  { id: "containers", label: "Containers" },
+  { id: "value", label: "Sale value" },
+  { id: "margin", label: "Margin" },
+];
+
+export interface PivotConfig {
+  rows: PivotDimension;
+  /** `null` collapses the matrix to a single total column. */
+  columns: PivotDimension | null;
+  measure: PivotMeasure;
+}
+
+export const DEFAULT_PIVOT: PivotConfig = {
+  rows: "port",
+  columns: "etaWeek",
+  measure: "kg",
+};
+
+export interface PivotContext {
+  now: Date;
+  valueMode: ValueMode;
+  getAllocationState: (row: EnrichedRow) => AllocationState;
+  getLineValue: (row: EnrichedRow) => LineValue;
+  currency: string;
+}
+
+export interface PivotTable {
+  rowKeys: string[];
+  columnKeys: string[];
+  /** Keyed by row key, then column key; missing combinations are empty. */
+  cells: Map<string, Map<string, number>>;
+  rowTotals: Map<string, number>;
+  columnTotals: Map<string, number>;
+  grandTotal: number;
+}
+
+const TOTAL_KEY = "Total";
+
+const ALLOCATION_ORDER: AllocationState[] = [
+  "unallocated",
+  "partial",
+  "allocated",
+];
+
+const getDimensionValue = (
+  row: EnrichedRow,
+  dimension: PivotDimension,
+  context: PivotContext
+): string => {
+  switch (dimension) {
+    case "port":
+      return row.port_destination;
+    case "variety":
+      return row.variety;
+    case "caliber":
+      return getCaliber(row, context.valueMode);
+    case "packFormat":
+      return getPackFormat(row, context.valueMode);
+    case "carrier":
+      return row.carrier_name;
+    case "etaWeek":
+      return toIsoWeek(row.etaDate);
+    case "status":
+      return computeStatus(row, context.now);
+    case "allocation":
+      return context.getAllocationState(row);
+  }
+};
+
+// Lifecycle dimensions keep their natural order; everything else is
+// alphabetical, which also puts ISO weeks in chronological order.
+const compareKeys = (dimension: PivotDimension | null) => {
+  const order: readonly string[] | null =
+    dimension === "status"
+      ? STATUSES
+      : dimension === "allocation"
+        ? ALLOCATION_ORDER
+        : null;
+  return (a: string, b: string) =>
+    order ? order.indexOf(a) - order.indexOf(b) : a.localeCompare(b);
+};
+
+/**
+ * Kg, boxes, pallets and money are additive (lines without a price count as
+ * zero); containers are counted as distinct `container_id`s so a container
+ * split across cells is not double counted in the totals.
+ */
+const createAccumulator = (measure: PivotMeasure, context: PivotContext) => {
+  let sum = 0;
+  const ids = new Set<string>();
+  return {
+    add(row: EnrichedRow) {
+      if (measure === "kg") sum += row.line_weight_kg ?? 0;
+      else if (measure === "boxes") sum += row.box_count ?? 0;
+      else if (measure === "pallets") sum += 1;
+      else if (measure === "value")
+        sum += context.getLineValue(row).revenue ?? 0;
+      else if (measure === "margin")
+        sum += context.getLineValue(row).margin ?? 0;
+      else if (row.container_id) ids.add(row.container_id);
+    },
+    value: () => (measure === "containers" ? ids.size : sum),
+  };
+};
+
+type Accumulator = ReturnType<typeof createAccumulator>;
+
+export const buildPivot = (
+  rows: EnrichedRow[],
+  config: PivotConfig,
+  context: PivotContext
+): PivotTable => {
+  const cellAccumulators = new Map<string, Map<string, Accumulator>>();
+  const rowAccumulators = new Map<string, Accumulator>();
+  const columnAccumulators = new Map<string, Accumulator>();
+  const grand = createAccumulator(config.measure, context);
+
+  const accumulatorFor = (map: Map<string, Accumulator>, key: string) => {
+    let accumulator = map.get(key);
+    if (!accumulator) {
+      accumulator = createAccumulator(config.measure, context);
+      map.set(key, accumulator);
+    }
+    return accumulator;
+  };
+
+  rows.forEach((row) => {
+    const rowKey = getDimensionValue(row, config.rows, context) || "—";
+    const columnKey = config.columns
+      ? getDimensionValue(row, config.columns, context) || "—"
+      : TOTAL_KEY;
+    let rowCells = cellAccumulators.get(rowKey);
+    if (!rowCells) {
+      rowCells = new Map();
+      cellAccumulators.set(rowKey, rowCells);
+    }
+    accumulatorFor(rowCells, columnKey).add(row);
+    accumulatorFor(rowAccumulators, rowKey).add(row);
+    accumulatorFor(columnAccumulators, columnKey).add(row);
+    grand.add(row);
+  });
+
+  const toValues = (map: Map<string, Accumulator>) =>
+    new Map(
+      Array.from(map, ([key, accumulator]) => [key, accumulator.value()])
+    );
+
+  return {
+    rowKeys: Array.from(rowAccumulators.keys()).sort(compareKeys(config.rows)),
+    columnKeys: config.columns
+      ? Array.from(columnAccumulators.keys()).sort(compareKeys(config.columns))
+      : [],
+    cells: new Map(
+      Array.from(cellAccumulators, ([key, cells]) => [key, toValues(cells)])
+    ),
+    rowTotals: toValues(rowAccumulators),
+    columnTotals: toValues(columnAccumulators),
+    grandTotal: grand.value(),
+  };
+};
+
+// Summed kg picks up floating-point noise; one decimal matches the UI.
+const roundValue = (value: number) => Math.round(value * 10) / 10;
+
+/** The matrix as rows of cells, with a header row and total row/column. */
+export const pivotToMatrix = (table: PivotTable, config: PivotConfig) => {
+  const rowLabel =
+    PIVOT_DIMENSIONS.find((dimension) => dimension.id === config.rows)?.label ??
+    config.rows;
+  const header = [rowLabel, ...table.columnKeys, TOTAL_KEY];
+  const body = table.rowKeys.map((rowKey) => [
+    rowKey,
+    ...table.columnKeys.map((columnKey) =>
+      roundValue(table.cells.get(rowKey)?.get(columnKey) ?? 0)
+    ),
+    roundValue(table.rowTotals.get(rowKey) ?? 0),
+  ]);
+  const totals = [
+    TOTAL_KEY,
+    ...table.columnKeys.map((columnKey) =>
+      roundValue(table.columnTotals.get(columnKey) ?? 0)
+    ),
+    roundValue(table.grandTotal),
+  ];
+  return [header, ...body, totals];
+};
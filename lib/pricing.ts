@@ -0,0 +1,171 @@
+import { getKgPerBox } from "@/lib/allocations";
+import { normalizeRawValue } from "@/lib/codes";
+import type {
+  EnrichedRow,
+  LineAllocationRecord,
+  PalletItem,
+  PriceBook,
+  TargetPrice,
+  UnitPrice,
+} from "@/types";
+
+const ENDPOINT = "/api/prices";
+
+export const EMPTY_PRICE_BOOK: PriceBook = {
+  currency: "EUR",
+  shipmentCosts: {},
+  lineCosts: {},
+  targetPrices: [],
+};
+
+export interface LineValue {
+  cost: number | null;
+  /** Allocated boxes at their agreed price, the rest at the target price. */
+  revenue: number | null;
+  /** Value of the allocated boxes that have a price. */
+  allocatedValue: number;
+  margin: number | null;
+  marginPct: number | null;
+}
+
+const pricePerBox = (price: UnitPrice, kgPerBox: number) =>
+  price.unit === "box" ? price.amount : price.amount * kgPerBox;
+
+// Matches the raw value or its canonical code, ignoring case and spacing.
+const matches = (
+  pattern: string | undefined,
+  ...values: Array<string | undefined>
+) =>
+  !pattern ||
+  values.some(
+    (value) => value && normalizeRawValue(value) === normalizeRawValue(pattern)
+  );
+
+/** The most specific target price: one naming caliber and pack format wins. */
+export const findTargetPrice = (
+  item: PalletItem,
+  prices: TargetPrice[]
+): TargetPrice | null => {
+  let best: TargetPrice | null = null;
+  let bestScore = -1;
+  prices.forEach((price) => {
+    if (
+      !matches(price.variety, item.variety) ||
+      !matches(price.caliber, item.caliber_raw, item.caliber_code) ||
+      !matches(price.pack_format, item.pack_format_raw, item.pack_format_code)
+    ) {
+      return;
+    }
+    const score = (price.caliber ? 1 : 0) + (price.pack_format ? 1 : 0);
+    if (score > bestScore) {
+      best = price;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+/**
+ * Cost, sale value and margin of a line. Revenue is unknown (null) while any
+ * box has neither an agreed price nor a target price, and margin needs both
+ * revenue and cost.
+ */
+export const valueLine = (
+  row: EnrichedRow,
+  record: LineAllocationRecord | undefined,
+  book: PriceBook
+): LineValue => {
+  const boxCount = row.box_count ?? 0;
+  const kgPerBox = getKgPerBox(row);
+  const costPrice =
+    book.lineCosts[row.stableKey] ?? book.shipmentCosts[row.shipment_id];
+  const cost = costPrice
+    ? costPrice.amount *
+      (costPrice.unit === "kg" ? (row.line_weight_kg ?? 0) : boxCount)
+    : null;
+
+  const target = findTargetPrice(row, book.targetPrices);
+  const targetPerBox = target ? pricePerBox(target.price, kgPerBox) : null;
+  // A legacy pre-allocation holds the whole line without a price.
+  const allocations =
+    record?.preAllocated && !record.allocations?.length
+      ? [{ boxes: boxCount, price_per_box: undefined }]
+      : (record?.allocations ?? []);
+
+  let allocatedBoxes = 0;
+  let allocatedValue = 0;
+  let unpricedBoxes = 0;
+  allocations.forEach((allocation) => {
+    allocatedBoxes += allocation.boxes;
+    const perBox = allocation.price_per_box ?? targetPerBox;
+    if (perBox === null) unpricedBoxes += allocation.boxes;
+    else allocatedValue += allocation.boxes * perBox;
+  });
+  const remainingBoxes = Math.max(boxCount - allocatedBoxes, 0);
+  if (remainingBoxes && targetPerBox === null) unpricedBoxes += remainingBoxes;
+
+  const revenue = unpricedBoxes
+    ? null
+    : allocatedValue + remainingBoxes * (targetPerBox ?? 0);
+  const margin = revenue !== null && cost !== null ? revenue - cost : null;
+  return {
+    cost,
+    revenue,
+    allocatedValue,
+    margin,
+    marginPct: margin !== null && revenue ? (margin / revenue) * 100 : null,
+  };
+};
+
+export const fetchPriceBook = async (): Promise<PriceBook> => {
+  const response = await fetch(ENDPOINT, { cache: "no-store" });
+  if (!response.ok) {
+    throw new Error(`Failed to load prices (${response.status})`);
+  }
+  const payload = (await response.json()) as { priceBook: PriceBook };
+  return payload.priceBook ?? EMPTY_PRICE_BOOK;
+};
+
+/**
+ * Replaces the whole price book; refused if it changed after the version
+ * saved at `expectedUpdatedAt` (null: never saved) was loaded.
+ */
+export const savePriceBook = async (
+  book: PriceBook,
+  expectedUpdatedAt: string | null,
+  user: string
+): Promise<PriceBook> => {
+  const response = await fetch(ENDPOINT, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ...book, expectedUpdatedAt, user }),
+  });
+  if (!response.ok) {
+    const payload = await response.json().catch(() => null);
+    throw new Error(
+      payload?.error ?? `Failed to save prices (${response.status})`
+    );
+  }
+  const payload = (await response.json()) as { priceBook: PriceBook };
+  return payload.priceBook;
+};
+
+/** Sets the cost of some lines without touching the rest of the book. */
+export const saveLineCosts = async (
+  lineCosts: Record<string, UnitPrice>,
+  user: string
+): Promise<PriceBook> => {
+  const response = await fetch(ENDPOINT, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ lineCosts, user }),
+  });
+  if (!response.ok) {
+    const payload = await response.json().catch(() => null);
+    throw new Error(
+      payload?.error ?? `Failed to save line costs (${response.status})`
+    );
+  }
+  const payload = (await response.json()) as { priceBook: PriceBook };
+  return payload.priceBook;
+};
@@ -0,0 +1,82 @@
+import type { Container, EnrichedRow } from "@/types";
+
+export interface ReconciliationTolerance {
+  /** Absolute variance (%) above which a container is flagged. */
+  warningPct: number;
+  /** Absolute variance (%) above which a container is out of tolerance. */
+  criticalPct: number;
+}
+
+export const DEFAULT_TOLERANCE: ReconciliationTolerance = {
+  warningPct: 5,
+  criticalPct: 10,
+};
+
+export type ReconciliationStatus = "ok" | "warning" | "critical" | "undeclared";
+
+export interface ContainerReconciliation {
+  container_id: string;
+  container_code: string;
+  shipment_id: string;
+  declaredKg?: number;
+  packedKg: number;
+  lines: number;
+  varianceKg?: number;
+  variancePct?: number;
+  status: ReconciliationStatus;
+}
+
+export const classifyVariance = (
+  variancePct: number | undefined,
+  tolerance: ReconciliationTolerance
+): ReconciliationStatus => {
+  if (variancePct === undefined) return "undeclared";
+  const absolute = Math.abs(variancePct);
+  if (absolute > tolerance.criticalPct) return "critical";
+  if (absolute > tolerance.warningPct) return "warning";
+  return "ok";
+};
+
+/**
+ * Compares each container's declared gross weight with the sum of its pallet
+ * lines. Only containers with at least one line in the dataset are listed.
+ */
+export const reconcileContainers = (
+  containers: Map<string, Container>,
+  rows: EnrichedRow[],
+  tolerance: ReconciliationTolerance
+): ContainerReconciliation[] => {
+  const packed = new Map<string, { kg: number; lines: number }>();
+  rows.forEach((row) => {
+    const entry = packed.get(row.container_id) ?? { kg: 0, lines: 0 };
+    entry.kg += row.line_weight_kg ?? 0;
+    entry.lines += 1;
+    packed.set(row.container_id, entry);
+  });
+
+  return Array.from(packed.entries())
+    .map(([containerId, { kg, lines }]) => {
+      const container = containers.get(containerId);
+      const declaredKg = container?.gross_weight_kg;
+      const hasDeclared = typeof declaredKg === "number" && declaredKg > 0;
+      const varianceKg = hasDeclared ? kg - declaredKg : undefined;
+      const variancePct =
+        hasDeclared && varianceKg !== undefined
+          ? (varianceKg / declaredKg) * 100
+          : undefined;
+      return {
+        container_id: containerId,
+        container_code: container?.container_code ?? containerId,
+        shipment_id: container?.shipment_id ?? "",
+        declaredKg,
+        packedKg: kg,
+        lines,
+        varianceKg,
+        variancePct,
+        status: classifyVariance(variancePct, tolerance),
+      };
+    })
+    .sort(
+      (a, b) => Math.abs(b.variancePct ?? 0) - Math.abs(a.variancePct ?? 0)
+    );
+};
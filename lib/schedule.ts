@@ -0,0 +1,100 @@
+import type { ScheduleChange, Shipment } from "@/types";
+
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+const ENDPOINT = "/api/schedule-changes";
+
+export const SCHEDULE_SOURCES = [
+  "Carrier notice",
+  "Port authority",
+  "Forwarder",
+  "Manual estimate",
+];
+
+export interface ShipmentSchedule {
+  shipment_id: string;
+  originalEtd: string;
+  originalEta: string;
+  etd: string;
+  eta: string;
+  /** Whole days the current ETA is later (positive) or earlier than planned. */
+  delayDays: number;
+  history: ScheduleChange[];
+}
+
+export type ScheduleChangeInput = Pick<
+  ScheduleChange,
+  "shipment_id" | "etd" | "eta" | "source" | "reason"
+>;
+
+/**
+ * Replays the recorded changes on top of the dataset's shipments. Changes are
+ * ordered by time, so the latest revision wins.
+ */
+export const buildSchedules = (
+  shipments: Iterable<Shipment>,
+  changes: ScheduleChange[]
+): Map<string, ShipmentSchedule> => {
+  const byShipment = new Map<string, ScheduleChange[]>();
+  changes.forEach((change) => {
+    const list = byShipment.get(change.shipment_id) ?? [];
+    list.push(change);
+    byShipment.set(change.shipment_id, list);
+  });
+
+  const schedules = new Map<string, ShipmentSchedule>();
+  Array.from(shipments).forEach((shipment) => {
+    const history = (byShipment.get(shipment.shipment_id) ?? []).sort((a, b) =>
+      a.changedAt.localeCompare(b.changedAt)
+    );
+    const latest = history[history.length - 1];
+    const eta = latest?.eta ?? shipment.eta;
+    schedules.set(shipment.shipment_id, {
+      shipment_id: shipment.shipment_id,
+      originalEtd: shipment.etd,
+      originalEta: shipment.eta,
+      etd: latest?.etd ?? shipment.etd,
+      eta,
+      delayDays: Math.round(
+        (Date.parse(eta) - Date.parse(shipment.eta)) / ONE_DAY_MS
+      ),
+      history,
+    });
+  });
+  return schedules;
+};
+
+export const formatDelay = (delayDays: number) =>
+  delayDays > 0 ? `Delayed +${delayDays} d` : `Early ${-delayDays} d`;
+
+/** Badge colours: amber for a delay, sky for an arrival ahead of schedule. */
+export const delayBadgeClass = (delayDays: number) =>
+  delayDays > 0 ? "bg-amber-50 text-amber-700" : "bg-sky-50 text-sky-700";
+
+export const fetchScheduleChanges = async (): Promise<ScheduleChange[]> => {
+  const response = await fetch(ENDPOINT, { cache: "no-store" });
+  if (!response.ok) {
+    throw new Error(`Failed to load schedule changes (${response.status})`);
+  }
+  const payload = (await response.json()) as { changes: ScheduleChange[] };
+  return payload.changes ?? [];
+};
+
+export const saveScheduleChange = async (
+  change: ScheduleChangeInput &
+    Pick<ScheduleChange, "previous_etd" | "previous_eta">,
+  user: string
+): Promise<ScheduleChange[]> => {
+  const response = await fetch(ENDPOINT, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ...change, user }),
+  });
+  if (!response.ok) {
+    const payload = await response.json().catch(() => null);
+    throw new Error(
+      payload?.error ?? `Failed to save schedule change (${response.status})`
+    );
+  }
+  const payload = (await response.json()) as { changes: ScheduleChange[] };
+  return payload.changes;
+};
@@ -0,0 +1,129 @@
+import { normalizeRawValue } from "@/lib/codes";
+import type {
+  EnrichedRow,
+  PalletItem,
+  ShelfLifeConfig,
+  ShelfLifeRule,
+} from "@/types";
+
+const ENDPOINT = "/api/shelf-life";
+
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_SHELF_LIFE: ShelfLifeConfig = {
+  defaultDays: null,
+  watchDays: 14,
+  urgentDays: 7,
+  rules: [],
+};
+
+export type ShelfLifeUrgency =
+  "fresh" | "watch" | "urgent" | "expired" | "unknown";
+
+export const URGENCY_LABELS: Record<ShelfLifeUrgency, string> = {
+  fresh: "Fresh",
+  watch: "Watch",
+  urgent: "Sell first",
+  expired: "Expired",
+  unknown: "Unknown",
+};
+
+export interface LineShelfLife {
+  /** Days between packing and the ETA. */
+  ageAtArrival: number | null;
+  /** Days between packing and the reference time. */
+  age: number | null;
+  maxDays: number | null;
+  daysLeft: number | null;
+  urgency: ShelfLifeUrgency;
+}
+
+const matches = (pattern: string | undefined, value: string) =>
+  !pattern || normalizeRawValue(pattern) === normalizeRawValue(value);
+
+/** The most specific rule: product and variety beat variety beat product. */
+export const findShelfLifeRule = (
+  item: PalletItem,
+  rules: ShelfLifeRule[]
+): ShelfLifeRule | null => {
+  let best: ShelfLifeRule | null = null;
+  let bestScore = -1;
+  rules.forEach((rule) => {
+    if (!matches(rule.product, item.product)) return;
+    if (!matches(rule.variety, item.variety)) return;
+    const score = (rule.variety ? 2 : 0) + (rule.product ? 1 : 0);
+    if (score > bestScore) {
+      best = rule;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+const daysBetween = (from: number, to: Date) =>
+  Math.round((to.getTime() - from) / ONE_DAY_MS);
+
+export const getLineShelfLife = (
+  row: EnrichedRow,
+  config: ShelfLifeConfig,
+  now: Date
+): LineShelfLife => {
+  const packed = row.pack_date ? Date.parse(row.pack_date) : Number.NaN;
+  const maxDays =
+    findShelfLifeRule(row, config.rules)?.days ?? config.defaultDays;
+  if (Number.isNaN(packed)) {
+    return {
+      ageAtArrival: null,
+      age: null,
+      maxDays,
+      daysLeft: null,
+      urgency: "unknown",
+    };
+  }
+
+  const age = daysBetween(packed, now);
+  const daysLeft = maxDays === null ? null : maxDays - age;
+  let urgency: ShelfLifeUrgency = "unknown";
+  if (daysLeft !== null) {
+    if (daysLeft <= 0) urgency = "expired";
+    else if (daysLeft <= config.urgentDays) urgency = "urgent";
+    else if (daysLeft <= config.watchDays) urgency = "watch";
+    else urgency = "fresh";
+  }
+  return {
+    ageAtArrival: daysBetween(packed, row.etaDate),
+    age,
+    maxDays,
+    daysLeft,
+    urgency,
+  };
+};
+
+export const fetchShelfLifeConfig = async (): Promise<ShelfLifeConfig> => {
+  const response = await fetch(ENDPOINT, { cache: "no-store" });
+  if (!response.ok) {
+    throw new Error(`Failed to load shelf-life settings (${response.status})`);
+  }
+  const payload = (await response.json()) as { config: ShelfLifeConfig };
+  return payload.config ?? DEFAULT_SHELF_LIFE;
+};
+
+export const saveShelfLifeConfig = async (
+  config: ShelfLifeConfig,
+  user: string
+): Promise<ShelfLifeConfig> => {
+  const response = await fetch(ENDPOINT, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ...config, user }),
+  });
+  if (!response.ok) {
+    const payload = await response.json().catch(() => null);
+    throw new Error(
+      payload?.error ??
+        `Failed to save shelf-life settings (${response.status})`
+    );
+  }
+  const payload = (await response.json()) as { config: ShelfLifeConfig };
+  return payload.config;
+};
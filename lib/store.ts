@@ -0,0 +1,79 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+// Server-only JSON file store backing the App Router route handlers.
+const STORE_DIR =
+  process.env.COCKPIT_STORE_DIR ?? path.join(process.cwd(), "store");
+
+const queues = new Map<string, Promise<unknown>>();
+
+const storePath = (name: string) => path.join(STORE_DIR, `${name}.json`);
+
+export const readStore = async <T>(name: string, fallback: T): Promise<T> => {
+  try {
+    const raw = await fs.readFile(storePath(name), "utf8");
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return fallback;
+    throw error;
+  }
+};
+
+const writeStore = async <T>(name: string, value: T) => {
+  await fs.mkdir(STORE_DIR, { recursive: true });
+  const target = storePath(name);
+  const tmp = `${target}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(value, null, 2));
+  await fs.rename(tmp, target);
+};
+
+/**
+ * Read-modify-write a store file. Updates to the same file are serialized so
+ * concurrent requests from several traders never overwrite each other. Checks
+ * that must hold at write time belong in the updater, which may be async.
+ */
+export const updateStore = <T>(
+  name: string,
+  fallback: T,
+  updater: (current: T) => T | Promise<T>
+): Promise<T> => {
+  const previous = queues.get(name) ?? Promise.resolve();
+  const next = previous
+    .catch(() => undefined)
+    .then(async () => {
+      const current = await readStore(name, fallback);
+      const updated = await updater(current);
+      await writeStore(name, updated);
+      return updated;
+    });
+  queues.set(name, next);
+  return next;
+};
+
+/** A folder of files kept next to the JSON stores. */
+export const storeFolder = (folder: string) => path.join(STORE_DIR, folder);
+
+const attachmentPath = (folder: string, name: string) =>
+  path.join(storeFolder(folder), path.basename(name));
+
+/** Binary files kept next to the JSON stores, e.g. inspection photos. */
+export const writeAttachment = async (
+  folder: string,
+  name: string,
+  data: Uint8Array
+) => {
+  await fs.mkdir(path.join(STORE_DIR, folder), { recursive: true });
+  await fs.writeFile(attachmentPath(folder, name), data);
+};
+
+export const readAttachment = async (
+  folder: string,
+  name: string
+): Promise<Buffer | null> => {
+  try {
+    return await fs.readFile(attachmentPath(folder, name));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+};
@@ -0,0 +1,117 @@
+import type { ShipmentGroup } from "@/lib/hierarchy";
+
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+export type TimelineGrouping = "port" | "carrier";
+export type TimelineGranularity = "shipment" | "container";
+
+export interface TimelineBar {
+  id: string;
+  label: string;
+  shipment_id: string;
+  start: Date;
+  end: Date;
+  kg: number;
+}
+
+export interface TimelineLane {
+  key: string;
+  bars: TimelineBar[];
+  kg: number;
+}
+
+export interface Timeline {
+  lanes: TimelineLane[];
+  start: Date;
+  end: Date;
+  maxKg: number;
+}
+
+/**
+ * Lays shipments (or their containers, which sail with the shipment) out as
+ * ETD → ETA bars in lanes per destination port or carrier. The time axis spans
+ * the earliest ETD to the latest ETA, padded by a day on each side.
+ */
+export const buildTimeline = (
+  groups: ShipmentGroup[],
+  grouping: TimelineGrouping,
+  granularity: TimelineGranularity
+): Timeline | null => {
+  const lanes = new Map<string, TimelineLane>();
+  let start = Infinity;
+  let end = -Infinity;
+  let maxKg = 0;
+
+  groups.forEach(({ shipment, containers, kg }) => {
+    const etd = new Date(shipment.etd);
+    const eta = new Date(shipment.eta);
+    const key =
+      grouping === "port" ? shipment.port_destination : shipment.carrier_name;
+    let lane = lanes.get(key);
+    if (!lane) {
+      lane = { key, bars: [], kg: 0 };
+      lanes.set(key, lane);
+    }
+
+    const bars: TimelineBar[] =
+      granularity === "shipment"
+        ? [
+            {
+              id: shipment.shipment_id,
+              label: shipment.shipment_id,
+              shipment_id: shipment.shipment_id,
+              start: etd,
+              end: eta,
+              kg,
+            },
+          ]
+        : containers.map((group) => ({
+            id: group.container.container_id,
+            label: group.container.container_code,
+            shipment_id: shipment.shipment_id,
+            start: etd,
+            end: eta,
+            kg: group.kg,
+          }));
+
+    lane.bars.push(...bars);
+    lane.kg += kg;
+    start = Math.min(start, etd.getTime());
+    end = Math.max(end, eta.getTime());
+    bars.forEach((bar) => {
+      maxKg = Math.max(maxKg, bar.kg);
+    });
+  });
+
+  if (!lanes.size) return null;
+  Array.from(lanes.values()).forEach((lane) =>
+    lane.bars.sort((a, b) => a.start.getTime() - b.start.getTime())
+  );
+  return {
+    lanes: Array.from(lanes.values()).sort((a, b) =>
+      a.key.localeCompare(b.key)
+    ),
+    start: new Date(start - ONE_DAY_MS),
+    end: new Date(end + ONE_DAY_MS),
+    maxKg,
+  };
+};
+
+/** Position of `date` along the timeline as a percentage of its width. */
+export const toTimelinePercent = (timeline: Timeline, date: Date) =>
+  ((date.getTime() - timeline.start.getTime()) /
+    (timeline.end.getTime() - timeline.start.getTime())) *
+  100;
+
+/** Mondays (UTC) within the timeline, used as axis ticks. */
+export const getWeekTicks = (timeline: Timeline) => {
+  const tick = new Date(timeline.start);
+  tick.setUTCHours(0, 0, 0, 0);
+  tick.setUTCDate(tick.getUTCDate() + ((8 - tick.getUTCDay()) % 7));
+  const ticks: Date[] = [];
+  while (tick <= timeline.end) {
+    ticks.push(new Date(tick));
+    tick.setUTCDate(tick.getUTCDate() + 7);
+  }
+  return ticks;
+};
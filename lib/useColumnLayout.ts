@@ -0,0 +1,42 @@
+import { useCallback, useEffect, useState } from "react";
+import { fetchColumnLayout, saveColumnLayout } from "@/lib/columnLayout";
+import type { ColumnLayout } from "@/types";
+
+/**
+ * The trader's lines-table layout, loaded from and saved to the server so it
+ * follows them across browsers. Pass `persist: false` for intermediate states
+ * such as a column resize in progress.
+ */
+export const useColumnLayout = (user: string, fallback: ColumnLayout) => {
+  const [layout, setLayout] = useState(fallback);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchColumnLayout(user)
+      .then((saved) => {
+        if (cancelled) return;
+        setLayout(saved ?? fallback);
+        setError(null);
+      })
+      .catch((loadError) => {
+        if (!cancelled) setError((loadError as Error).message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [user, fallback]);
+
+  const updateLayout = useCallback(
+    (next: ColumnLayout, persist = true) => {
+      setLayout(next);
+      if (!persist) return;
+      saveColumnLayout(next, user)
+        .then(() => setError(null))
+        .catch((saveError) => setError((saveError as Error).message));
+    },
+    [user]
+  );
+
+  return { layout, updateLayout, error };
+};
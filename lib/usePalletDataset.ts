@@ -0,0 +1,186 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  EMPTY_CODE_MAPPINGS,
+  fetchCodeMappings,
+  saveCodeMappings,
+} from "@/lib/codes";
+import {
+  fetchDataset,
+  fetchDatasets,
+  type DatasetValidation,
+} from "@/lib/dataset";
+import { buildModel, fetchEntities, type EntitySets } from "@/lib/model";
+import {
+  fetchScheduleChanges,
+  saveScheduleChange,
+  type ScheduleChangeInput,
+} from "@/lib/schedule";
+import type {
+  CodeField,
+  CodeMappings,
+  DatasetSummary,
+  PalletItem,
+  RejectedLine,
+  ScheduleChange,
+} from "@/types";
+
+const STORAGE_KEY = "lading-cockpit:dataset";
+const DEFAULT_DATASET = "data";
+/** Prefix for datasets that only live in this tab after a drag-and-drop. */
+export const UPLOAD_PREFIX = "upload:";
+
+const EMPTY_ENTITIES: EntitySets = { shipments: [], containers: [] };
+
+/**
+ * Loads the selected dataset from `/api/datasets` at runtime and joins it with
+ * the shipment and container entity sets. The choice is remembered per
+ * browser so every page of the cockpit shows the same data.
+ */
+export const usePalletDataset = () => {
+  const [datasets, setDatasets] = useState<DatasetSummary[]>([]);
+  const [name, setName] = useState<string | null>(null);
+  const [items, setItems] = useState<PalletItem[]>([]);
+  const [rejected, setRejected] = useState<RejectedLine[]>([]);
+  const [entities, setEntities] = useState<EntitySets>(EMPTY_ENTITIES);
+  const [scheduleChanges, setScheduleChanges] = useState<ScheduleChange[]>([]);
+  const [codeMappings, setCodeMappings] =
+    useState<CodeMappings>(EMPTY_CODE_MAPPINGS);
+  const [loading, setLoading] = useState(true);
+  // Which dataset `items` belong to, and whether the entity sets, schedule
+  // changes and code mappings have arrived; see `ready`.
+  const [loadedName, setLoadedName] = useState<string | null>(null);
+  const [referenceLoaded, setReferenceLoaded] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Kept apart from `error`, which a successful dataset load clears.
+  const [referenceError, setReferenceError] = useState<string | null>(null);
+
+  const refreshDatasets = useCallback(async () => {
+    try {
+      setDatasets(await fetchDatasets());
+    } catch (listError) {
+      setError((listError as Error).message);
+    }
+  }, []);
+
+  const refreshReference = useCallback(async () => {
+    try {
+      await Promise.all([
+        fetchEntities().then(setEntities),
+        fetchScheduleChanges().then(setScheduleChanges),
+        fetchCodeMappings().then((result) => setCodeMappings(result.mappings)),
+      ]);
+      setReferenceLoaded(true);
+      setReferenceError(null);
+    } catch (loadError) {
+      setReferenceError((loadError as Error).message);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshDatasets();
+    setName(window.localStorage.getItem(STORAGE_KEY) ?? DEFAULT_DATASET);
+  }, [refreshDatasets]);
+
+  // Retried on refocus, which also picks up teammates' schedule changes.
+  useEffect(() => {
+    refreshReference();
+    window.addEventListener("focus", refreshReference);
+    return () => window.removeEventListener("focus", refreshReference);
+  }, [refreshReference]);
+
+  useEffect(() => {
+    if (!name || name.startsWith(UPLOAD_PREFIX)) return;
+    let cancelled = false;
+    setLoading(true);
+    fetchDataset(name)
+      .then((result) => {
+        if (cancelled) return;
+        setItems(result.items);
+        setRejected(result.rejected);
+        setLoadedName(name);
+        setError(null);
+      })
+      .catch((loadError) => {
+        if (cancelled) return;
+        setItems([]);
+        setRejected([]);
+        setError((loadError as Error).message);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [name]);
+
+  const selectDataset = useCallback((nextName: string) => {
+    window.localStorage.setItem(STORAGE_KEY, nextName);
+    setName(nextName);
+  }, []);
+
+  const loadUploadedDataset = useCallback(
+    (fileName: string, result: DatasetValidation) => {
+      const uploadName = `${UPLOAD_PREFIX}${fileName}`;
+      setName(uploadName);
+      setItems(result.items);
+      setRejected(result.rejected);
+      setLoadedName(uploadName);
+      setError(null);
+      setLoading(false);
+    },
+    []
+  );
+
+  const model = useMemo(
+    () => buildModel({ items, ...entities, scheduleChanges, codeMappings }),
+    [items, entities, scheduleChanges, codeMappings]
+  );
+
+  const recordScheduleChange = useCallback(
+    async (change: ScheduleChangeInput, user: string) => {
+      const current = model.schedules.get(change.shipment_id);
+      setScheduleChanges(
+        await saveScheduleChange(
+          {
+            ...change,
+            previous_etd: current?.etd ?? change.etd,
+            previous_eta: current?.eta ?? change.eta,
+          },
+          user
+        )
+      );
+    },
+    [model.schedules]
+  );
+
+  const updateCodeMappings = useCallback(
+    async (mappings: Pick<CodeMappings, CodeField>, user: string) => {
+      setCodeMappings(await saveCodeMappings(mappings, user));
+    },
+    []
+  );
+
+  return {
+    datasets,
+    name,
+    items,
+    rows: model.rows,
+    shipments: model.shipments,
+    containers: model.containers,
+    issues: model.issues,
+    schedules: model.schedules,
+    rejected,
+    loading,
+    error,
+    referenceError,
+    /** The rows are complete for `name`: nothing is still loading. */
+    ready: !loading && referenceLoaded && loadedName === name,
+    selectDataset,
+    loadUploadedDataset,
+    refreshDatasets,
+    recordScheduleChange,
+    codeMappings,
+    updateCodeMappings,
+  };
+};
@@ -0,0 +1,27 @@
+import { useCallback, useEffect, useState } from "react";
+
+/** `useState` mirrored to localStorage under `lading-cockpit:<key>`. */
+export const useStoredState = <T>(key: string, initial: T) => {
+  const storageKey = `lading-cockpit:${key}`;
+  const [value, setValue] = useState<T>(initial);
+
+  useEffect(() => {
+    const stored = window.localStorage.getItem(storageKey);
+    if (stored === null) return;
+    try {
+      setValue(JSON.parse(stored) as T);
+    } catch {
+      window.localStorage.removeItem(storageKey);
+    }
+  }, [storageKey]);
+
+  const updateValue = useCallback(
+    (next: T) => {
+      setValue(next);
+      window.localStorage.setItem(storageKey, JSON.stringify(next));
+    },
+    [storageKey]
+  );
+
+  return [value, updateValue] as const;
+};
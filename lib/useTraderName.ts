@@ -0,0 +1,19 @@
+import { useCallback, useEffect, useState } from "react";
+
+const STORAGE_KEY = "lading-cockpit:trader";
+
+/** Name recorded on every shared change made from this browser. */
+export const useTraderName = () => {
+  const [name, setName] = useState("");
+
+  useEffect(() => {
+    setName(window.localStorage.getItem(STORAGE_KEY) ?? "");
+  }, []);
+
+  const updateName = useCallback((value: string) => {
+    setName(value);
+    window.localStorage.setItem(STORAGE_KEY, value);
+  }, []);
+
+  return [name, updateName] as const;
+};
@@ -0,0 +1,294 @@
+import {
+  OPEN_DATE_RANGE,
+  OPEN_NUMBER_RANGE,
+  STATUSES,
+  type ArrivalWindow,
+  type FilterCriteria,
+  type NumberRange,
+} from "@/lib/filters";
+import { QC_STATUSES } from "@/lib/inspections";
+import type { AllocationState, QcStatus, SavedView, Status } from "@/types";
+
+export type AllocationOption = "any" | AllocationState;
+export type ViewMode =
+  | "lines"
+  | "hierarchy"
+  | "summary"
+  | "pivot"
+  | "timeline"
+  | "forecast"
+  | "reconciliation";
+export type UiFilters = FilterCriteria & {
+  allocationStatuses: AllocationOption[];
+  /** Lines with a note on themselves, their container or their shipment. */
+  hasNotes: boolean;
+  qcStatuses: QcStatus[];
+};
+
+export interface SortState<C extends string = string> {
+  column: C;
+  direction: "asc" | "desc";
+}
+
+/** Everything needed to reproduce what a trader is looking at. */
+export interface ViewState<C extends string = string> {
+  filters: UiFilters;
+  /** Sort keys in priority order; empty keeps the dataset order. */
+  sort: SortState<C>[];
+  groupBy: C | null;
+  viewMode: ViewMode;
+}
+
+export const INITIAL_FILTERS: UiFilters = {
+  ports: [],
+  varieties: [],
+  calibers: [],
+  packFormats: [],
+  valueMode: "raw",
+  arrivalWindows: [],
+  statuses: [],
+  shipments: [],
+  nextArrivalsOnly: false,
+  search: "",
+  boxCount: OPEN_NUMBER_RANGE,
+  lineWeightKg: OPEN_NUMBER_RANGE,
+  etaRange: OPEN_DATE_RANGE,
+  allocationStatuses: ["any"],
+  hasNotes: false,
+  qcStatuses: [],
+};
+
+const VIEW_MODES: ViewMode[] = [
+  "lines",
+  "hierarchy",
+  "summary",
+  "pivot",
+  "timeline",
+  "forecast",
+  "reconciliation",
+];
+const ARRIVAL_WINDOWS: ArrivalWindow[] = ["gte_7", "lte_7", "lte_2", "lte_1"];
+const ALLOCATION_OPTIONS: AllocationOption[] = [
+  "any",
+  "allocated",
+  "partial",
+  "unallocated",
+];
+
+/** Query parameter per list filter; values are repeated (`?port=A&port=B`). */
+const LIST_PARAMS = {
+  ports: "port",
+  varieties: "variety",
+  calibers: "caliber",
+  packFormats: "pack",
+  arrivalWindows: "arrival",
+  statuses: "status",
+  shipments: "shipment",
+  allocationStatuses: "alloc",
+  qcStatuses: "qc",
+} as const;
+
+/** Query parameters for the `[min, max]` / `[from, to]` of each range filter. */
+const RANGE_PARAMS = {
+  boxCount: ["boxes_min", "boxes_max"],
+  lineWeightKg: ["kg_min", "kg_max"],
+  etaRange: ["eta_from", "eta_to"],
+} as const;
+
+const SEARCH_PARAM = "q";
+const VALUE_MODE_PARAM = "codes";
+const NEXT_ARRIVALS_PARAM = "next";
+const HAS_NOTES_PARAM = "notes";
+const SORT_PARAM = "sort";
+const GROUP_PARAM = "group";
+const VIEW_PARAM = "view";
+
+/** Every query parameter owned by the view state, for clearing stale ones. */
+export const VIEW_STATE_PARAMS = [
+  ...Object.values(LIST_PARAMS),
+  ...Object.values(RANGE_PARAMS).flat(),
+  SEARCH_PARAM,
+  VALUE_MODE_PARAM,
+  NEXT_ARRIVALS_PARAM,
+  HAS_NOTES_PARAM,
+  SORT_PARAM,
+  GROUP_PARAM,
+  VIEW_PARAM,
+];
+
+const oneOf =
+  <T extends string>(allowed: readonly T[]) =>
+  (value: string): value is T =>
+    (allowed as readonly string[]).includes(value);
+
+const readNumber = (params: URLSearchParams, name: string) => {
+  const value = Number.parseFloat(params.get(name) ?? "");
+  return Number.isFinite(value) ? value : null;
+};
+
+const readDate = (params: URLSearchParams, name: string) => {
+  const value = params.get(name) ?? "";
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : null;
+};
+
+const readNumberRange = (
+  params: URLSearchParams,
+  [minParam, maxParam]: readonly [string, string]
+): NumberRange => ({
+  min: readNumber(params, minParam),
+  max: readNumber(params, maxParam),
+});
+
+/** Writes the non-default parts of the view state into `params`. */
+export const writeViewState = <C extends string>(
+  params: URLSearchParams,
+  state: ViewState<C>
+) => {
+  VIEW_STATE_PARAMS.forEach((param) => params.delete(param));
+  (Object.keys(LIST_PARAMS) as Array<keyof typeof LIST_PARAMS>).forEach(
+    (key) => {
+      const values = state.filters[key] as string[];
+      if (key === "allocationStatuses" && values.includes("any")) return;
+      values.forEach((value) => params.append(LIST_PARAMS[key], value));
+    }
+  );
+  if (state.filters.nextArrivalsOnly) params.set(NEXT_ARRIVALS_PARAM, "1");
+  if (state.filters.hasNotes) params.set(HAS_NOTES_PARAM, "1");
+  const search = state.filters.search.trim();
+  if (search) params.set(SEARCH_PARAM, search);
+  if (state.filters.valueMode === "canonical") {
+    params.set(VALUE_MODE_PARAM, "canonical");
+  }
+  const bounds: Array<[string, number | string | null]> = [
+    [RANGE_PARAMS.boxCount[0], state.filters.boxCount.min],
+    [RANGE_PARAMS.boxCount[1], state.filters.boxCount.max],
+    [RANGE_PARAMS.lineWeightKg[0], state.filters.lineWeightKg.min],
+    [RANGE_PARAMS.lineWeightKg[1], state.filters.lineWeightKg.max],
+    [RANGE_PARAMS.etaRange[0], state.filters.etaRange.from],
+    [RANGE_PARAMS.etaRange[1], state.filters.etaRange.to],
+  ];
+  bounds.forEach(([param, value]) => {
+    if (value !== null) params.set(param, `${value}`);
+  });
+  if (state.sort.length) {
+    params.set(
+      SORT_PARAM,
+      state.sort.map((key) => `${key.column}:${key.direction}`).join(",")
+    );
+  }
+  if (state.groupBy) params.set(GROUP_PARAM, state.groupBy);
+  if (state.viewMode !== "lines") params.set(VIEW_PARAM, state.viewMode);
+  return params;
+};
+
+/** Reads a view state back, dropping anything it does not recognise. */
+export const readViewState = <C extends string>(
+  params: URLSearchParams,
+  isColumn: (value: string) => value is C
+): ViewState<C> => {
+  const allocationStatuses = params
+    .getAll(LIST_PARAMS.allocationStatuses)
+    .filter(oneOf(ALLOCATION_OPTIONS));
+  const filters: UiFilters = {
+    ports: params.getAll(LIST_PARAMS.ports),
+    varieties: params.getAll(LIST_PARAMS.varieties),
+    calibers: params.getAll(LIST_PARAMS.calibers),
+    packFormats: params.getAll(LIST_PARAMS.packFormats),
+    valueMode:
+      params.get(VALUE_MODE_PARAM) === "canonical" ? "canonical" : "raw",
+    arrivalWindows: params
+      .getAll(LIST_PARAMS.arrivalWindows)
+      .filter(oneOf(ARRIVAL_WINDOWS)),
+    statuses: params
+      .getAll(LIST_PARAMS.statuses)
+      .filter(oneOf<Status>(STATUSES)),
+    shipments: params.getAll(LIST_PARAMS.shipments),
+    nextArrivalsOnly: params.get(NEXT_ARRIVALS_PARAM) === "1",
+    search: params.get(SEARCH_PARAM) ?? "",
+    boxCount: readNumberRange(params, RANGE_PARAMS.boxCount),
+    lineWeightKg: readNumberRange(params, RANGE_PARAMS.lineWeightKg),
+    etaRange: {
+      from: readDate(params, RANGE_PARAMS.etaRange[0]),
+      to: readDate(params, RANGE_PARAMS.etaRange[1]),
+    },
+    allocationStatuses: allocationStatuses.length
+      ? allocationStatuses
+      : ["any"],
+    hasNotes: params.get(HAS_NOTES_PARAM) === "1",
+    qcStatuses: params
+      .getAll(LIST_PARAMS.qcStatuses)
+      .filter(oneOf(QC_STATUSES.map((option) => option.value))),
+  };
+
+  // `sort=port_destination:asc,line_weight_kg:desc`, highest priority first.
+  const sort: SortState<C>[] = [];
+  (params.get(SORT_PARAM) ?? "").split(",").forEach((entry) => {
+    const [column, direction] = entry.split(":");
+    if (
+      isColumn(column) &&
+      (direction === "asc" || direction === "desc") &&
+      !sort.some((key) => key.column === column)
+    ) {
+      sort.push({ column, direction });
+    }
+  });
+  const group = params.get(GROUP_PARAM) ?? "";
+
+  const view = params.get(VIEW_PARAM) ?? "";
+  return {
+    filters,
+    sort,
+    groupBy: isColumn(group) ? group : null,
+    viewMode: oneOf(VIEW_MODES)(view) ? view : "lines",
+  };
+};
+
+const ENDPOINT = "/api/views";
+
+export const fetchSavedViews = async (user: string): Promise<SavedView[]> => {
+  const response = await fetch(`${ENDPOINT}?${new URLSearchParams({ user })}`, {
+    cache: "no-store",
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to load saved views (${response.status})`);
+  }
+  const payload = (await response.json()) as { views: SavedView[] };
+  return payload.views ?? [];
+};
+
+export const saveView = async (
+  view: Pick<SavedView, "name" | "scope" | "query">,
+  user: string
+): Promise<SavedView[]> => {
+  const response = await fetch(ENDPOINT, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ...view, user }),
+  });
+  if (!response.ok) {
+    const payload = await response.json().catch(() => null);
+    throw new Error(
+      payload?.error ?? `Failed to save view (${response.status})`
+    );
+  }
+  const payload = (await response.json()) as { views: SavedView[] };
+  return payload.views;
+};
+
+export const deleteView = async (
+  id: string,
+  user: string
+): Promise<SavedView[]> => {
+  const response = await fetch(
+    `${ENDPOINT}?${new URLSearchParams({ id, user })}`,
+    { method: "DELETE" }
+  );
+  if (!response.ok) {
+    const payload = await response.json().catch(() => null);
+    throw new Error(
+      payload?.error ?? `Failed to delete view (${response.status})`
+    );
+  }
+  const payload = (await response.json()) as { views: SavedView[] };
+  return payload.views;
+};
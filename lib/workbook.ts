@@ -0,0 +1,196 @@
+import type { Workbook } from "exceljs";
+import type { LineAllocationSummary } from "@/lib/allocations";
+import { downloadBlob } from "@/lib/download";
+import { STATUSES, computeStatus, getDaysToArrival } from "@/lib/filters";
+import { PALLET_FIELDS } from "@/lib/packingList";
+import type { EnrichedRow, Status } from "@/types";
+
+const XLSX_MIME =
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+const DATE_FORMAT = "yyyy-mm-dd";
+const INTEGER_FORMAT = "#,##0";
+const KG_FORMAT = "#,##0.0";
+const PERCENT_FORMAT = "0.0%";
+const MONEY_FORMAT = "#,##0.00";
+
+/** One row of the arrivals summary view. */
+export interface ArrivalsSummaryRow {
+  port_destination: string;
+  daysToArrival: number;
+  totalKg: number;
+  containers: number;
+  shipments: number;
+  lines: number;
+  maxDelayDays: number;
+  /** Sale value of the priced lines, as in the summary view. */
+  totalValue: number;
+  totalMargin: number;
+}
+
+export interface WorkbookKpis {
+  totalKg: number;
+  pctAllocated: number;
+  pallets: number;
+  totalBoxes: number;
+  byStatus: Record<Status, { kg: number; pallets: number }>;
+  inventoryValue: number;
+  allocatedValue: number;
+  unpricedLines: number;
+}
+
+export interface WorkbookInput {
+  rows: EnrichedRow[];
+  now: Date;
+  getAllocation: (row: EnrichedRow) => LineAllocationSummary;
+  summary: ArrivalsSummaryRow[];
+  kpis: WorkbookKpis;
+  /** Price book currency; money columns are labelled with it. */
+  currency: string;
+  /** The view's URL query, recorded so the export can be reproduced. */
+  viewQuery: string;
+}
+
+interface ColumnSpec {
+  header: string;
+  width: number;
+  numFmt?: string;
+}
+
+// Bold header row that stays in view while scrolling.
+const addSheet = (workbook: Workbook, name: string, columns: ColumnSpec[]) => {
+  const sheet = workbook.addWorksheet(name, {
+    views: [{ state: "frozen", ySplit: 1 }],
+  });
+  sheet.columns = columns.map((column) => ({
+    header: column.header,
+    width: column.width,
+    style: column.numFmt ? { numFmt: column.numFmt } : undefined,
+  }));
+  sheet.getRow(1).font = { bold: true };
+  return sheet;
+};
+
+const numberFormatFor = (kind: string, key: string) => {
+  if (kind === "date") return DATE_FORMAT;
+  if (kind === "integer") return INTEGER_FORMAT;
+  if (kind === "number") return key.endsWith("_kg") ? KG_FORMAT : undefined;
+  return undefined;
+};
+
+/**
+ * Builds the XLSX export: every pallet-line field plus computed columns, the
+ * arrivals summary with its value and margin, and the KPI cards. Dates are
+ * written as real dates and quantities as numbers so the sheets can be
+ * filtered and summed in Excel.
+ */
+export const buildWorkbook = async ({
+  rows,
+  now,
+  getAllocation,
+  summary,
+  kpis,
+  currency,
+  viewQuery,
+}: WorkbookInput) => {
+  const { default: ExcelJS } = await import("exceljs");
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = now;
+
+  const lines = addSheet(workbook, "Lines", [
+    ...PALLET_FIELDS.map((field) => ({
+      header: field.label,
+      width: field.kind === "string" ? 18 : 12,
+      numFmt: numberFormatFor(field.kind, field.key),
+    })),
+    { header: "Days to arrival", width: 14, numFmt: INTEGER_FORMAT },
+    { header: "Status", width: 12 },
+    { header: "Allocation", width: 13 },
+    { header: "Allocated boxes", width: 15, numFmt: INTEGER_FORMAT },
+    { header: "Allocated kg", width: 14, numFmt: KG_FORMAT },
+  ]);
+  rows.forEach((row) => {
+    const allocation = getAllocation(row);
+    lines.addRow([
+      ...PALLET_FIELDS.map((field) => {
+        if (field.key === "etd") return row.etdDate;
+        if (field.key === "eta") return row.etaDate;
+        if (field.key === "pack_date") {
+          return row.pack_date ? new Date(row.pack_date) : null;
+        }
+        return row[field.key] ?? null;
+      }),
+      getDaysToArrival(row.etaDate, now),
+      computeStatus(row, now),
+      allocation.state,
+      allocation.allocatedBoxes,
+      allocation.allocatedKg,
+    ]);
+  });
+  lines.autoFilter = {
+    from: { row: 1, column: 1 },
+    to: { row: 1, column: lines.columnCount },
+  };
+
+  const summarySheet = addSheet(workbook, "Arrivals summary", [
+    { header: "Port", width: 22 },
+    { header: "Days to arrival", width: 14, numFmt: INTEGER_FORMAT },
+    { header: "Total kg", width: 14, numFmt: KG_FORMAT },
+    { header: "Lines", width: 10, numFmt: INTEGER_FORMAT },
+    { header: "Containers", width: 12, numFmt: INTEGER_FORMAT },
+    { header: "Shipments", width: 12, numFmt: INTEGER_FORMAT },
+    { header: "Delay (days)", width: 12, numFmt: INTEGER_FORMAT },
+    { header: `Sale value (${currency})`, width: 16, numFmt: MONEY_FORMAT },
+    { header: `Margin (${currency})`, width: 16, numFmt: MONEY_FORMAT },
+  ]);
+  summary.forEach((group) => {
+    summarySheet.addRow([
+      group.port_destination,
+      group.daysToArrival,
+      group.totalKg,
+      group.lines,
+      group.containers,
+      group.shipments,
+      group.maxDelayDays || null,
+      group.totalValue,
+      group.totalMargin,
+    ]);
+  });
+
+  const kpiSheet = addSheet(workbook, "KPIs", [
+    { header: "Metric", width: 28 },
+    { header: "Value", width: 18 },
+  ]);
+  const addKpi = (
+    label: string,
+    value: number | string | Date,
+    numFmt?: string
+  ) => {
+    const row = kpiSheet.addRow([label, value]);
+    if (numFmt) row.getCell(2).numFmt = numFmt;
+  };
+  addKpi("Reference time", now, `${DATE_FORMAT} hh:mm`);
+  addKpi("Pallets", kpis.pallets, INTEGER_FORMAT);
+  addKpi("Boxes", kpis.totalBoxes, INTEGER_FORMAT);
+  addKpi("Total kg", kpis.totalKg, KG_FORMAT);
+  addKpi("Allocated", kpis.pctAllocated / 100, PERCENT_FORMAT);
+  addKpi(`Inventory value (${currency})`, kpis.inventoryValue, MONEY_FORMAT);
+  addKpi(`Allocated value (${currency})`, kpis.allocatedValue, MONEY_FORMAT);
+  addKpi("Lines without a price", kpis.unpricedLines, INTEGER_FORMAT);
+  STATUSES.forEach((status) => {
+    addKpi(`${status} kg`, kpis.byStatus[status].kg, KG_FORMAT);
+    addKpi(`${status} pallets`, kpis.byStatus[status].pallets, INTEGER_FORMAT);
+  });
+  addKpi("View", viewQuery ? `?${viewQuery}` : "(no filters)");
+
+  return workbook.xlsx.writeBuffer();
+};
+
+export const downloadWorkbook = async (
+  input: WorkbookInput,
+  fileName: string
+) =>
+  downloadBlob(
+    new Blob([await buildWorkbook(input)], { type: XLSX_MIME }),
+    fileName
+  );
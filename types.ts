@@ -25,6 +25,8 @@ export interface PalletItem {
   caliber_code?: string;
   pallet_pl_id?: string;
   pl_document_id?: string;
+  /** Date the fruit was packed (or harvested), when the supplier sends it. */
+  pack_date?: string;
 }
 
 export type PalletRow = PalletItem & {
@@ -32,6 +34,319 @@ export type PalletRow = PalletItem & {
   etdDate: Date;
 };
 
+export type EnrichedRow = PalletRow & { stableKey: string };
+
+export interface Shipment {
+  shipment_id: string;
+  booking_reference: string;
+  carrier_name: string;
+  etd: string;
+  eta: string;
+  port_origin?: string;
+  port_destination: string;
+  vessel_name: string;
+  voyage_number: string;
+}
+
+export interface Container {
+  container_id: string;
+  shipment_id: string;
+  container_code: string;
+  gross_weight_kg?: number;
+}
+
+/** One ETD/ETA revision on a shipment, e.g. after the carrier rolls a vessel. */
+export interface ScheduleChange {
+  id: string;
+  shipment_id: string;
+  etd: string;
+  eta: string;
+  previous_etd: string;
+  previous_eta: string;
+  source: string;
+  reason: string;
+  changedBy: string;
+  changedAt: string;
+}
+
+export type ReferentialIssueKind =
+  | "missing_shipment"
+  | "missing_container"
+  | "container_shipment_mismatch"
+  | "field_mismatch";
+
+export interface ReferentialIssue {
+  kind: ReferentialIssueKind;
+  shipment_id: string;
+  container_id?: string;
+  /** Stable keys of the pallet lines affected by the issue. */
+  lines: string[];
+  message: string;
+}
+
 export interface PalletDataset {
   palletitems: PalletItem[];
 }
+
+export interface RejectedLine {
+  /** Zero-based position of the line in the uploaded `palletitems` array. */
+  index: number;
+  reasons: string[];
+}
+
+export interface DatasetSummary {
+  name: string;
+  lines: number;
+  updatedAt: string;
+}
+
+export interface Allocation {
+  id: string;
+  customer: string;
+  boxes: number;
+  price_per_box?: number;
+  note?: string;
+  createdBy: string;
+  createdAt: string;
+}
+
+export type AllocationInput = Omit<
+  Allocation,
+  "id" | "createdBy" | "createdAt"
+> &
+  Partial<Pick<Allocation, "id" | "createdBy" | "createdAt">>;
+
+export interface LineAllocationRecord {
+  allocations: Allocation[];
+  updatedBy: string;
+  updatedAt: string;
+  /** Set on records written by the former boolean pre-allocation toggle. */
+  preAllocated?: boolean;
+}
+
+/** One line's allocations in a bulk write. */
+export interface LineAllocationUpdate {
+  key: string;
+  allocations: AllocationInput[];
+  /**
+   * `updatedAt` of the record the update was planned from, or null when there
+   * was none. The write is refused if the line changed since.
+   */
+  expectedUpdatedAt?: string | null;
+}
+
+export type LineAllocationMap = Record<string, LineAllocationRecord>;
+
+export type AllocationState = "unallocated" | "partial" | "allocated";
+
+export type FieldMapping =
+  { source: "column"; column: string } | { source: "constant"; value: string };
+
+/** How a supplier's packing-list columns map onto `PalletItem` fields. */
+export type ColumnMapping = Partial<Record<keyof PalletItem, FieldMapping>>;
+
+export interface SupplierMapping {
+  supplier: string;
+  mapping: ColumnMapping;
+  updatedBy: string;
+  updatedAt: string;
+}
+
+export type SavedViewScope = "personal" | "team";
+
+/** A named filter/sort/view combination, stored as its URL query string. */
+export interface SavedView {
+  id: string;
+  name: string;
+  scope: SavedViewScope;
+  query: string;
+  owner: string;
+  createdAt: string;
+}
+
+export type CodeField = "caliber" | "pack_format";
+
+/**
+ * Raw caliber and pack-format strings (normalized, see `normalizeRawValue`)
+ * mapped to canonical codes.
+ */
+export interface CodeMappings {
+  caliber: Record<string, string>;
+  pack_format: Record<string, string>;
+  updatedBy?: string;
+  updatedAt?: string;
+}
+
+/** Lines-table columns in display order, with widths in px where resized. */
+export interface ColumnLayout {
+  columns: string[];
+  widths: Record<string, number>;
+}
+
+export type NoteTarget = "line" | "container" | "shipment";
+
+/** A comment on a pallet line, container or shipment, or a reply to one. */
+export interface Note {
+  id: string;
+  target: NoteTarget;
+  /** Line stable key, container ID or shipment ID, depending on `target`. */
+  targetId: string;
+  /** Root note of the thread; replies are kept one level deep. */
+  parentId?: string;
+  body: string;
+  author: string;
+  createdAt: string;
+}
+
+export type NoteInput = Pick<Note, "target" | "targetId" | "body" | "parentId">;
+
+export type PriceUnit = "kg" | "box";
+
+export interface UnitPrice {
+  amount: number;
+  unit: PriceUnit;
+}
+
+/** Target selling price; an empty caliber or pack format matches any. */
+export interface TargetPrice {
+  id: string;
+  variety: string;
+  caliber?: string;
+  pack_format?: string;
+  price: UnitPrice;
+}
+
+export interface PriceBook {
+  /** ISO 4217 code every amount is expressed in. */
+  currency: string;
+  /** Landed cost by shipment ID. */
+  shipmentCosts: Record<string, UnitPrice>;
+  /** Landed cost by line stable key; overrides the shipment cost. */
+  lineCosts: Record<string, UnitPrice>;
+  targetPrices: TargetPrice[];
+  updatedBy?: string;
+  updatedAt?: string;
+}
+
+export type InspectionTarget = "line" | "container";
+
+export type QcDecision = "pass" | "hold" | "reject";
+
+/** `pending`: arrived without an inspection; `not_due`: not arrived yet. */
+export type QcStatus = QcDecision | "pending" | "not_due";
+
+export interface InspectionPhoto {
+  id: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+}
+
+export interface Inspection {
+  id: string;
+  target: InspectionTarget;
+  /** Line stable key or container ID. */
+  targetId: string;
+  /** Stable keys of the lines covered when the inspection was recorded. */
+  lineKeys: string[];
+  brix?: number;
+  /** Berry firmness in g/mm. */
+  firmness?: number;
+  defectsPct?: number;
+  /** Pulp temperature in °C. */
+  temperatureC?: number;
+  decision: QcDecision;
+  comment?: string;
+  photos: InspectionPhoto[];
+  inspectedBy: string;
+  inspectedAt: string;
+}
+
+export type InspectionInput = Omit<
+  Inspection,
+  "id" | "photos" | "inspectedBy" | "inspectedAt"
+>;
+
+/** Maximum shelf life; an empty product or variety matches any. */
+export interface ShelfLifeRule {
+  id: string;
+  product?: string;
+  variety?: string;
+  days: number;
+}
+
+export interface ShelfLifeConfig {
+  /** Shelf life of lines no rule matches; null leaves them untracked. */
+  defaultDays: number | null;
+  /** Days of shelf life left at which a line is flagged for attention. */
+  watchDays: number;
+  /** Days of shelf life left at which a line must be sold first. */
+  urgentDays: number;
+  rules: ShelfLifeRule[];
+  updatedBy?: string;
+  updatedAt?: string;
+}
+
+export type AlertRuleKind =
+  "unallocated_arrivals" | "arrival_unconfirmed" | "weight_variance";
+
+/** Only the thresholds of the rule's kind are used. */
+export interface AlertRule {
+  id: string;
+  name: string;
+  kind: AlertRuleKind;
+  enabled: boolean;
+  /** unallocated_arrivals: one port, or every port separately when empty. */
+  port?: string;
+  /** unallocated_arrivals: arrival window in days. */
+  withinDays?: number;
+  /** unallocated_arrivals: unallocated kg that must be exceeded. */
+  minKg?: number;
+  /** arrival_unconfirmed: days after ETA before an alert fires. */
+  graceDays?: number;
+  /** weight_variance: absolute container variance (%) that must be exceeded. */
+  minPct?: number;
+  webhookUrl?: string;
+  emails?: string[];
+  /** Who last created or changed the rule, and when; set by the server. */
+  updatedBy?: string;
+  updatedAt?: string;
+}
+
+/** What a rule found in the current dataset, before it becomes an alert. */
+export interface FiredAlert {
+  ruleId: string;
+  /** Identifies what the alert is about, e.g. a port or container. */
+  subject: string;
+  message: string;
+}
+
+export interface Alert extends FiredAlert {
+  id: string;
+  ruleName: string;
+  dataset: string;
+  firstSeenAt: string;
+  lastSeenAt: string;
+  /** Set once the rule stops firing for the subject. */
+  resolvedAt?: string;
+  acknowledgedBy?: string;
+  acknowledgedAt?: string;
+  snoozedUntil?: string;
+}
+
+export type OutboxChannel = "webhook" | "email";
+
+export interface OutboxMessage {
+  id: string;
+  alertId: string;
+  channel: OutboxChannel;
+  /** Webhook URL or email address. */
+  to: string;
+  subject: string;
+  body: string;
+  status: "queued" | "sent" | "failed";
+  attempts: number;
+  lastError?: string;
+  createdAt: string;
+  sentAt?: string;
+}